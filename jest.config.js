@@ -4,14 +4,23 @@ module.exports = {
   roots: ['<rootDir>/src'],
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
   transform: {
-    '^.+\\.ts$': 'ts-jest',
+    // Transpilación archivo a archivo (el tipado lo comprueba tsc): con el programa completo ts-jest
+    // agota la memoria, y NodeNext sólo se admite así
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }],
   },
+  // Los imports del código fuente llevan la extensión .js de la salida compilada
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
+  // Cada archivo arranca su propio sandbox (Postgres embebido + servicios simulados)
+  testTimeout: 30000,
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.d.ts',
     '!src/**/*.test.ts',
     '!src/**/*.spec.ts',
+    '!src/testing/**',
   ],
   coverageDirectory: 'coverage',
   coverageReporters: ['text', 'lcov', 'html'],
-};
\ No newline at end of file
+};
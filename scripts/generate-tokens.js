@@ -1,7 +1,13 @@
 const jwt = require('jsonwebtoken');
 
-// JWT Secret del servidor Supabase (debe coincidir con el configurado en el servidor)
-const JWT_SECRET = '5d45f7c084893e2c3b6f2825ad9dfb2e2a1f4656786c144b89cafd3bz2bf679a';
+// JWT Secret del servidor Supabase (debe coincidir con el configurado en el servidor).
+// Con el servidor configurado, la herramienta generate_api_keys hace lo mismo y puede rotar las claves en un .env
+const JWT_SECRET = process.env.SUPABASE_JWT_SECRET || process.env.JWT_SECRET;
+
+if (!JWT_SECRET) {
+    console.error('Define SUPABASE_JWT_SECRET (o JWT_SECRET) con el JWT secret de tu instancia de Supabase');
+    process.exit(1);
+}
 
 // Generar ANON_KEY
 const anonPayload = {
@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolRegistry } from '../tools/registry.js';
+import { ProjectArgSchema } from '../types/mcp.js';
+import { ValidationError } from '../utils/errors.js';
+
+export interface CliOptions {
+  // Resultado completo en JSON en lugar de texto
+  json: boolean;
+  // Ejecutar las operaciones destructivas sin la vista previa de confirmación
+  yes: boolean;
+  // Seguir los cursores de las respuestas truncadas hasta tener todos los elementos
+  all: boolean;
+  // Mostrar los logs del servidor en stderr
+  verbose: boolean;
+}
+
+export type CliCommand =
+  | { kind: 'help'; tool?: string | undefined }
+  | { kind: 'call'; tool: string; args: Record<string, unknown>; options: CliOptions };
+
+const GLOBAL_FLAGS: Record<string, keyof CliOptions> = {
+  '--json': 'json',
+  '--yes': 'yes',
+  '-y': 'yes',
+  '--all': 'all',
+  '--verbose': 'verbose'
+};
+
+const HELP_FLAGS = new Set(['--help', '-h']);
+
+// tableName → table-name, enableRLS → enable-rls
+export const toKebabCase = (key: string): string => key.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+
+// --table-name, --tableName y --tablename designan el mismo campo
+const normalizeFlag = (name: string): string => name.replace(/-/g, '').toLowerCase();
+
+const findField = (fields: Record<string, z.ZodTypeAny>, name: string): string | undefined => {
+  return Object.keys(fields).find(key => normalizeFlag(key) === normalizeFlag(name));
+};
+
+// Campos de la herramienta más el argumento `project` común a todas
+export const toolFields = (definition: ToolDefinition): Record<string, z.ZodTypeAny> => {
+  return definition.schema.merge(ProjectArgSchema).shape;
+};
+
+// Tipo base de un campo, sin los envoltorios de optional, default, nullable o refine
+export const baseType = (field: z.ZodTypeAny): z.ZodTypeAny => {
+  if (field instanceof z.ZodOptional || field instanceof z.ZodNullable) {
+    return baseType(field.unwrap());
+  }
+  if (field instanceof z.ZodDefault) {
+    return baseType(field.removeDefault());
+  }
+  if (field instanceof z.ZodEffects) {
+    return baseType(field.innerType());
+  }
+  return field;
+};
+
+const parseJson = (flag: string, raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new ValidationError(`${flag}: JSON inválido`);
+  }
+};
+
+// Convierte el texto de una opción al tipo del campo; la validación completa la hace después el schema
+const coerceValue = (flag: string, type: z.ZodTypeAny, raw: string): unknown => {
+  if (type instanceof z.ZodNumber) {
+    const value = Number(raw);
+    if (raw.trim() === '' || Number.isNaN(value)) {
+      throw new ValidationError(`${flag}: se esperaba un número y se recibió '${raw}'`);
+    }
+    return value;
+  }
+  if (type instanceof z.ZodBoolean) {
+    if (raw !== 'true' && raw !== 'false') {
+      throw new ValidationError(`${flag}: se esperaba true o false y se recibió '${raw}'`);
+    }
+    return raw === 'true';
+  }
+  if (type instanceof z.ZodObject || type instanceof z.ZodRecord) {
+    return parseJson(flag, raw);
+  }
+  // Parámetros SQL y payloads: JSON si lo es (números, null, objetos), texto si no
+  if (type instanceof z.ZodAny || type instanceof z.ZodUnknown) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+  return raw;
+};
+
+// Las listas admiten un array JSON o la opción repetida, un elemento por aparición
+const addOption = (args: Record<string, unknown>, key: string, flag: string, type: z.ZodTypeAny, raw: string): void => {
+  if (!(type instanceof z.ZodArray)) {
+    args[key] = coerceValue(flag, type, raw);
+    return;
+  }
+  if (raw.trimStart().startsWith('[')) {
+    args[key] = parseJson(flag, raw);
+    return;
+  }
+  const element = baseType(type.element);
+  if (element instanceof z.ZodObject) {
+    throw new ValidationError(`${flag}: se esperaba un array JSON`);
+  }
+  const previous = Array.isArray(args[key]) ? args[key] as unknown[] : [];
+  args[key] = [...previous, coerceValue(flag, element, raw)];
+};
+
+const parseJsonArgs = (raw: string): Record<string, unknown> => {
+  const value = parseJson('Argumentos', raw);
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError('Los argumentos en JSON deben ser un objeto');
+  }
+  return value as Record<string, unknown>;
+};
+
+// supafast <herramienta> ['{"json": ...}' | -] [--opción valor ...]. Las opciones se aplican sobre el JSON;
+// con "-", el JSON se lee de la entrada estándar
+export const parseCommandLine = (argv: string[], registry: ToolRegistry, readStdin: () => string): CliCommand => {
+  const [tool, ...rest] = argv;
+  if (tool === undefined || tool === 'help' || HELP_FLAGS.has(tool)) {
+    return { kind: 'help', tool: tool === 'help' ? rest[0] : undefined };
+  }
+
+  const definition = registry.get(tool);
+  if (!definition) {
+    throw new ValidationError(`Herramienta desconocida: ${tool}`, { hint: 'Usa "supafast help" para ver la lista de herramientas' });
+  }
+
+  const fields = toolFields(definition);
+  const options: CliOptions = { json: false, yes: false, all: false, verbose: false };
+  const flagArgs: Record<string, unknown> = {};
+  let jsonArgs: Record<string, unknown> | null = null;
+
+  for (let i = 0; i < rest.length; i++) {
+    const token = rest[i] as string;
+
+    if (HELP_FLAGS.has(token)) {
+      return { kind: 'help', tool };
+    }
+    const globalOption = GLOBAL_FLAGS[token];
+    if (globalOption) {
+      options[globalOption] = true;
+      continue;
+    }
+
+    if (!token.startsWith('--')) {
+      if (jsonArgs) {
+        throw new ValidationError(`Argumento inesperado: ${token}`);
+      }
+      jsonArgs = parseJsonArgs(token === '-' ? readStdin() : token);
+      continue;
+    }
+
+    const separator = token.indexOf('=');
+    const flag = separator === -1 ? token : token.slice(0, separator);
+    const negated = flag.startsWith('--no-') && !findField(fields, flag.slice(2));
+    const key = findField(fields, flag.slice(negated ? 5 : 2));
+    const field = key === undefined ? undefined : fields[key];
+    if (key === undefined || !field) {
+      throw new ValidationError(`Opción desconocida para ${tool}: ${flag}`, { hint: `Usa "supafast ${tool} --help" para ver sus opciones` });
+    }
+    const type = baseType(field);
+
+    if (type instanceof z.ZodBoolean && separator === -1) {
+      flagArgs[key] = !negated;
+      continue;
+    }
+    if (negated) {
+      throw new ValidationError(`${flag}: sólo las opciones booleanas admiten --no-`);
+    }
+
+    let raw: string | undefined = separator === -1 ? undefined : token.slice(separator + 1);
+    if (raw === undefined) {
+      raw = rest[++i];
+      if (raw === undefined) {
+        throw new ValidationError(`${flag}: falta el valor`);
+      }
+    }
+    addOption(flagArgs, key, flag, type, raw);
+  }
+
+  return { kind: 'call', tool, args: { ...jsonArgs, ...flagArgs }, options };
+};
@@ -0,0 +1,127 @@
+import { useSandbox } from '../testing/sandbox.js';
+import { closeAllCursors, initResultLimits } from '../utils/pagination.js';
+import { AccessPolicyConfig } from '../types/supabase.js';
+import { ToolRegistry } from '../tools/registry.js';
+import { allTools } from '../tools/index.js';
+import { parseCommandLine } from './args.js';
+import { renderHelp } from './output.js';
+import { runCommand } from './index.js';
+
+const registry = new ToolRegistry(allTools);
+const policy: AccessPolicyConfig = {
+  readOnly: false,
+  dryRun: false,
+  confirmDestructive: true,
+  allowedTools: [],
+  deniedTools: [],
+  allowedSchemas: []
+};
+
+const parse = (argv: string[], stdin = '') => parseCommandLine(argv, registry, () => stdin);
+
+const run = (argv: string[], policyConfig: AccessPolicyConfig = policy) => {
+  const command = parse(argv);
+  if (command.kind !== 'call') {
+    throw new Error('Se esperaba una llamada a una herramienta');
+  }
+  return runCommand(command, { policy: policyConfig, timeouts: { defaultMs: 0, tools: {} } }, new AbortController().signal);
+};
+
+describe('parseCommandLine', () => {
+  it('convierte las opciones al tipo de cada campo', () => {
+    const command = parse([
+      'create_index', '--table-name', 'todos', '--columns', 'a', '--columns', 'b', '--unique', '--no-dry-run', '--project=dev'
+    ]);
+    expect(command).toEqual({
+      kind: 'call',
+      tool: 'create_index',
+      args: { tableName: 'todos', columns: ['a', 'b'], unique: true, dryRun: false, project: 'dev' },
+      options: { json: false, yes: false, all: false, verbose: false }
+    });
+  });
+
+  it('combina el JSON (también desde stdin) con las opciones', () => {
+    const command = parse(['database_query', '-', '--params', '1', '--params', 'x', '--json', '-y'], '{"query":"SELECT $1, $2"}');
+    expect(command).toMatchObject({
+      args: { query: 'SELECT $1, $2', params: [1, 'x'] },
+      options: { json: true, yes: true }
+    });
+    expect(parse(['list_auth_users', '{"limit":5}', '--limit=10'])).toMatchObject({ args: { limit: 10 } });
+    expect(parse(['create_table', '--enableRLS=false', '--enable-rls'])).toMatchObject({ args: { enableRLS: true } });
+  });
+
+  it('rechaza herramientas, opciones y valores inválidos', () => {
+    expect(() => parse(['no_existe'])).toThrow('Herramienta desconocida');
+    expect(() => parse(['list_tables', '--nope', 'x'])).toThrow('Opción desconocida');
+    expect(() => parse(['list_auth_users', '--limit', 'diez'])).toThrow('se esperaba un número');
+    expect(() => parse(['database_query', '--query'])).toThrow('falta el valor');
+    expect(() => parse(['database_query', '[1]'])).toThrow('deben ser un objeto');
+  });
+
+  it('muestra la ayuda general y la de cada herramienta', () => {
+    expect(parse([])).toEqual({ kind: 'help', tool: undefined });
+    expect(parse(['drop_table', '--help'])).toEqual({ kind: 'help', tool: 'drop_table' });
+    expect(renderHelp(registry)).toContain('list_rls_policies');
+    expect(renderHelp(registry, 'drop_table')).toContain('--table-name <texto>');
+  });
+});
+
+describe('runCommand', () => {
+  useSandbox();
+
+  it('muestra las filas como tabla y los metadatos aparte', async () => {
+    await run(['database_query', '--query', 'CREATE TABLE notes (id int, body text)', '--allow-write']);
+    await run(['database_query', '--query', "INSERT INTO notes VALUES (1, 'hola'), (2, 'adiós')", '--allow-write']);
+
+    const output = await run(['database_query', '--query', 'SELECT * FROM notes ORDER BY id']);
+    expect(output.exitCode).toBe(0);
+    expect(output.stdout).toEqual(['| id | body |\n| --- | --- |\n| 1 | hola |\n| 2 | adiós |']);
+    expect(output.stderr.join('\n')).toContain('rowCount: 2');
+
+    const csv = await run(['database_query', '--query', 'SELECT * FROM notes ORDER BY id', '--format', 'csv']);
+    expect(csv.stdout).toEqual(['id,body\r\n1,hola\r\n2,adiós']);
+  });
+
+  it('con --json devuelve el resultado completo', async () => {
+    const output = await run(['list_tables', '--json']);
+    expect(JSON.parse(output.stdout[0] as string)).toMatchObject({ success: true, tables: [{ table_name: 'notes' }] });
+  });
+
+  it('con --all sigue los cursores', async () => {
+    initResultLimits({ maxRows: 1, maxBytes: 100000 });
+    try {
+      const truncated = await run(['database_query', '--query', 'SELECT id FROM notes ORDER BY id']);
+      expect(truncated.stderr.join('\n')).toContain('--all');
+      await closeAllCursors();
+
+      const output = await run(['database_query', '--query', 'SELECT id FROM notes ORDER BY id', '--all', '--json']);
+      expect(JSON.parse(output.stdout[0] as string)).toMatchObject({ rows: [{ id: 1 }, { id: 2 }], rowCount: 2, truncated: false });
+    } finally {
+      initResultLimits({ maxRows: 500, maxBytes: 100000 });
+    }
+  });
+
+  it('pide --yes para las operaciones destructivas', async () => {
+    const preview = await run(['drop_table', '--table-name', 'notes']);
+    expect(preview.exitCode).toBe(3);
+    expect(preview.stderr.join('\n')).toContain('--yes');
+
+    const dropped = await run(['drop_table', '--table-name', 'notes', '--yes']);
+    expect(dropped.exitCode).toBe(0);
+  });
+
+  it('devuelve un código de salida por tipo de error', async () => {
+    const notFound = await run(['get_auth_user', '--user-id', '00000000-0000-0000-0000-000000000000']);
+    expect(notFound.exitCode).toBe(4);
+    expect(notFound.stderr[0]).toMatch(/^Error \[NOT_FOUND\]/);
+
+    const invalid = await run(['create_auth_user', '--email', 'no-es-un-email', '--password', 'password123']);
+    expect(invalid.exitCode).toBe(2);
+
+    const denied = await run(['list_tables'], { ...policy, deniedTools: ['list_*'] });
+    expect(denied.exitCode).toBe(5);
+
+    const refused = await run(['set_secret', '--key', 'API_KEY', '--value', 'x']);
+    expect(refused.exitCode).toBe(1);
+  });
+});
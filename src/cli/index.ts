@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import fs from 'fs';
+import { randomUUID } from 'crypto';
+import { ServerConfig } from '../types/supabase.js';
+import { ProjectArgSchema } from '../types/mcp.js';
+import { ToolRegistry } from '../tools/registry.js';
+import { allTools } from '../tools/index.js';
+import { Runtime, startRuntime } from '../runtime.js';
+import { getConnection, resolveProjectName } from '../utils/connection.js';
+import { RequestContext, runWithContext } from '../utils/context.js';
+import { validateInput } from '../utils/validation.js';
+import { isErrorResult, toMCPError, SupabaseMCPError, CancelledError } from '../utils/errors.js';
+import { recordAudit } from '../utils/audit.js';
+import { AccessPolicy } from '../utils/policy.js';
+import { createCallSignal, raceSignal } from '../utils/cancellation.js';
+import { ResultFormat } from '../utils/format.js';
+import { CliCommand, parseCommandLine } from './args.js';
+import { CliOutput, EXIT_CONFIG, renderError, renderHelp, renderResult } from './output.js';
+
+const registry = new ToolRegistry(allTools);
+
+type CallCommand = Extract<CliCommand, { kind: 'call' }>;
+
+// Con --all, sigue los cursores de la respuesta y junta todas las páginas bajo la clave original
+const fetchAllPages = async (result: unknown): Promise<unknown> => {
+  if (isErrorResult(result) || typeof result !== 'object' || result === null) {
+    return result;
+  }
+  const record = { ...result as Record<string, unknown> };
+  while (record.truncated === true && typeof record.cursor === 'string') {
+    const page = await registry.call('fetch_more', { cursor: record.cursor });
+    if (isErrorResult(page)) {
+      return page;
+    }
+    const { itemsKey, cursor, truncated, count } = page as Record<string, unknown>;
+    const items = (record[itemsKey as string] as unknown[]).concat((page as Record<string, unknown>)[itemsKey as string]);
+    Object.assign(record, { [itemsKey as string]: items, truncated, cursor });
+    // count y rowCount describían la primera página
+    for (const key of ['count', 'rowCount']) {
+      if (typeof record[key] === 'number' && typeof count === 'number') {
+        record[key] = items.length;
+      }
+    }
+  }
+  delete record.cursor;
+  return record;
+};
+
+// Ejecuta la herramienta como lo haría el servidor MCP: misma política de acceso, modo sólo lectura
+// del perfil, tiempo máximo y entrada en el registro de auditoría
+export const runCommand = async (
+  command: CallCommand,
+  config: Pick<ServerConfig, 'policy' | 'timeouts'>,
+  cancelled: AbortSignal
+): Promise<CliOutput> => {
+  const { tool, args, options } = command;
+  const definition = registry.get(tool);
+  const policy = new AccessPolicy(config.policy);
+  const { signal, dispose } = createCallSignal(tool, cancelled, config.timeouts.tools[tool] ?? config.timeouts.defaultMs);
+
+  const startedAt = Date.now();
+  const context: RequestContext = { requestId: randomUUID(), signal, session: {} };
+  let instance: string | null = null;
+
+  const audit = (error?: SupabaseMCPError) => recordAudit({
+    requestId: context.requestId ?? null,
+    tool,
+    instance,
+    args,
+    durationMs: Date.now() - startedAt,
+    status: error ? 'error' : 'success',
+    ...(error && { error: { code: error.code, message: error.message } })
+  });
+
+  try {
+    context.project = validateInput(ProjectArgSchema, args).project;
+    const result = await runWithContext(context, async () => {
+      context.readOnly = policy.readOnly || getConnection().getConfig().readOnly;
+      context.dryRun = policy.dryRun;
+      // --yes es la confirmación de quien ejecuta el comando; los tokens no sobreviven entre procesos
+      context.confirmDestructive = policy.confirmDestructive && !options.yes;
+      instance = resolveProjectName();
+      const first = await raceSignal(registry.call(tool, args, (toolDefinition, validatedArgs) => {
+        policy.checkToolCall(toolDefinition, validatedArgs, context.readOnly === true);
+      }), signal);
+      return options.all ? raceSignal(fetchAllPages(first), signal) : first;
+    });
+    audit(isErrorResult(result) ? result.error : undefined);
+    return renderResult(definition!, result, options, args.format as ResultFormat | undefined);
+  } catch (error) {
+    const mcpError = toMCPError(error);
+    audit(mcpError);
+    return renderError(mcpError, options);
+  } finally {
+    dispose();
+  }
+};
+
+const write = (output: CliOutput): void => {
+  output.stdout.forEach(text => process.stdout.write(`${text}\n`));
+  output.stderr.forEach(text => process.stderr.write(`${text}\n`));
+};
+
+// Sin --verbose, los logs que irían a stderr se descartan para no mezclarlos con la salida del comando
+const quietLogging = (verbose: boolean) => (config: ServerConfig): ServerConfig => {
+  if (verbose || config.logging.sink !== 'stderr') {
+    return config;
+  }
+  return { ...config, logging: { ...config.logging, sink: 'off' } };
+};
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  const json = argv.includes('--json');
+
+  let command: CliCommand;
+  try {
+    command = parseCommandLine(argv, registry, () => fs.readFileSync(0, 'utf8'));
+  } catch (error) {
+    write(renderError(toMCPError(error), { json }));
+    process.exit(2);
+  }
+
+  if (command.kind === 'help') {
+    process.stdout.write(`${renderHelp(registry, command.tool)}\n`);
+    process.exit(command.tool && !registry.has(command.tool) ? 2 : 0);
+  }
+
+  let runtime: Runtime;
+  try {
+    runtime = await startRuntime(quietLogging(command.options.verbose));
+  } catch (error) {
+    write(renderError(toMCPError(error), command.options, EXIT_CONFIG));
+    process.exit(EXIT_CONFIG);
+  }
+
+  // Ctrl+C cancela la consulta o petición HTTP en curso; un segundo Ctrl+C termina el proceso
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort(new CancelledError(`Comando ${command.tool} cancelado`)));
+
+  const output = await runCommand(command, runtime.config, controller.signal);
+  write(output);
+  await runtime.stop();
+  // Las suscripciones Realtime y los sockets del cliente de Supabase mantendrían vivo el proceso
+  process.exit(output.exitCode);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    process.stderr.write(`${(error as Error).stack ?? error}\n`);
+    process.exit(1);
+  });
+}
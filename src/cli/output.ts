@@ -0,0 +1,189 @@
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { ToolDefinition, ToolRegistry } from '../tools/registry.js';
+import { ErrorCode, SupabaseMCPError, isErrorResult } from '../utils/errors.js';
+import { ResultFormat, toToolContent } from '../utils/format.js';
+import { CliOptions, baseType, toKebabCase, toolFields } from './args.js';
+
+export const EXIT_SUCCESS = 0;
+// La herramienta respondió success: false sin un error concreto (p. ej. set_secret)
+export const EXIT_FAILURE = 1;
+// Operación destructiva no ejecutada: hay que repetir el comando con --yes
+export const EXIT_CONFIRMATION_REQUIRED = 3;
+// No se pudo cargar la configuración o conectar con la instancia (EX_CONFIG de sysexits.h)
+export const EXIT_CONFIG = 78;
+
+// Un código por tipo de error para que los scripts distingan, p. ej., "no existe" de "ya aplicada"
+const ERROR_EXIT_CODES: Record<ErrorCode, number> = {
+  INTERNAL_ERROR: 1,
+  VALIDATION_ERROR: 2,
+  NOT_FOUND: 4,
+  PERMISSION_DENIED: 5,
+  CONFLICT: 6,
+  TIMEOUT: 7,
+  CANCELLED: 130
+};
+
+export const exitCodeFor = (error: SupabaseMCPError): number => ERROR_EXIT_CODES[error.code];
+
+export interface CliOutput {
+  stdout: string[];
+  stderr: string[];
+  exitCode: number;
+}
+
+// Fechas, errores y undefined tal y como quedarían en la respuesta JSON del servidor MCP
+const toPlain = (value: unknown): unknown => JSON.parse(JSON.stringify(value) ?? 'null');
+
+const toYaml = (value: unknown): string => yaml.dump(toPlain(value), { lineWidth: -1, noRefs: true }).trimEnd();
+
+const describeError = (error: SupabaseMCPError): string => {
+  const { detail, hint } = error.details;
+  return [
+    `Error [${error.code}]: ${error.message}`,
+    ...(detail ? [`Detalle: ${detail}`] : []),
+    ...(hint ? [`Sugerencia: ${hint}`] : [])
+  ].join('\n');
+};
+
+// Errores previos a la herramienta: argumentos, configuración, conexión
+export const renderError = (error: SupabaseMCPError, options: Pick<CliOptions, 'json'>, exitCode = exitCodeFor(error)): CliOutput => {
+  if (options.json) {
+    return { stdout: [JSON.stringify({ success: false, error }, null, 2)], stderr: [], exitCode };
+  }
+  return { stdout: [], stderr: [describeError(error)], exitCode };
+};
+
+const itemsKeyOf = (definition: ToolDefinition, result: Record<string, unknown>): string | undefined => {
+  const { resultItems } = definition;
+  return typeof resultItems === 'function' ? resultItems(result) : resultItems;
+};
+
+// Los datos van a stdout y el resto (avisos, metadatos, errores) a stderr, para poder redirigirlos a un archivo
+export const renderResult = (definition: ToolDefinition, result: unknown, options: CliOptions, format?: ResultFormat): CliOutput => {
+  if (isErrorResult(result)) {
+    return renderError(result.error, options);
+  }
+  if (typeof result !== 'object' || result === null) {
+    return { stdout: [JSON.stringify(result)], stderr: [], exitCode: EXIT_SUCCESS };
+  }
+
+  const record = result as Record<string, unknown>;
+  const itemsKey = itemsKeyOf(definition, record);
+  const exitCode = record.confirmationRequired === true
+    ? EXIT_CONFIRMATION_REQUIRED
+    : record.success === false ? EXIT_FAILURE : EXIT_SUCCESS;
+
+  if (options.json) {
+    // Mismo valor que recibiría un cliente MCP con format: json (bigint como texto, fechas en ISO...)
+    const normalized = itemsKey ? JSON.parse(toToolContent(record, itemsKey, 'json')[0]?.text ?? 'null') : record;
+    return { stdout: [JSON.stringify(normalized, null, 2)], stderr: [], exitCode };
+  }
+
+  if (exitCode === EXIT_CONFIRMATION_REQUIRED) {
+    const { success: _success, confirmationToken: _token, expiresAt: _expiresAt, message: _message, ...preview } = record;
+    return {
+      stdout: [],
+      stderr: [toYaml(preview), `Operación destructiva: repite el comando con --yes para ejecutarla`],
+      exitCode
+    };
+  }
+  if (exitCode === EXIT_FAILURE) {
+    return { stdout: [], stderr: [toYaml(record)], exitCode };
+  }
+
+  const { success: _success, ...rest } = record;
+  if (!itemsKey || !Array.isArray(record[itemsKey])) {
+    return { stdout: [toYaml(rest)], stderr: [], exitCode };
+  }
+
+  const [data] = toToolContent(record, itemsKey, format === undefined || format === 'json' ? 'markdown' : format);
+  // El cursor muere con el proceso: para el resto de elementos hay que repetir el comando con --all
+  const { [itemsKey]: _items, fields: _fields, itemsKey: _itemsKey, cursor: _cursor, ...metadata } = rest;
+  return {
+    stdout: [data?.text ?? ''],
+    stderr: [
+      ...(Object.keys(metadata).length > 0 ? [toYaml(metadata)] : []),
+      ...(record.truncated === true ? ['Resultado truncado: repite el comando con --all para obtener todos los elementos'] : [])
+    ],
+    exitCode
+  };
+};
+
+const firstLine = (text: string): string => text.split('\n')[0] ?? '';
+
+const typeLabel = (type: z.ZodTypeAny): string => {
+  if (type instanceof z.ZodNumber) return 'número';
+  if (type instanceof z.ZodBoolean) return '';
+  if (type instanceof z.ZodEnum) return (type.options as string[]).join('|');
+  if (type instanceof z.ZodArray) {
+    const element = baseType(type.element);
+    return element instanceof z.ZodObject ? 'JSON' : `${typeLabel(element) || 'texto'}...`;
+  }
+  if (type instanceof z.ZodObject || type instanceof z.ZodRecord || type instanceof z.ZodAny) return 'JSON';
+  return 'texto';
+};
+
+const defaultOf = (field: z.ZodTypeAny): unknown => {
+  if (field instanceof z.ZodDefault) return field._def.defaultValue();
+  if (field instanceof z.ZodOptional || field instanceof z.ZodNullable) return defaultOf(field.unwrap());
+  return undefined;
+};
+
+const pad = (rows: [string, string][]): string[] => {
+  const width = Math.max(...rows.map(([left]) => left.length));
+  return rows.map(([left, right]) => `  ${left.padEnd(width)}  ${right}`.trimEnd());
+};
+
+const GLOBAL_HELP: [string, string][] = [
+  ['--json', 'Resultado completo en JSON'],
+  ['--yes, -y', 'Ejecutar operaciones destructivas sin vista previa'],
+  ['--all', 'Seguir los cursores hasta obtener todos los elementos'],
+  ['--verbose', 'Mostrar los logs del servidor en stderr'],
+  ['--help, -h', 'Mostrar esta ayuda']
+];
+
+export const renderHelp = (registry: ToolRegistry, tool?: string): string => {
+  const definition = tool ? registry.get(tool) : undefined;
+  if (!definition) {
+    const tools = registry.names().map(name => [name, firstLine(registry.get(name)?.description ?? '')] as [string, string]);
+    return [
+      ...(tool ? [`Herramienta desconocida: ${tool}`, ''] : []),
+      'Uso: supafast <herramienta> [JSON | -] [--opción valor ...] [--json] [--yes] [--all]',
+      '',
+      'Herramientas:',
+      ...pad(tools),
+      '',
+      'Opciones generales:',
+      ...pad(GLOBAL_HELP),
+      '',
+      'Usa "supafast <herramienta> --help" para ver sus opciones.'
+    ].join('\n');
+  }
+
+  const options = Object.entries(toolFields(definition)).map(([key, field]) => {
+    const label = typeLabel(baseType(field));
+    const defaultValue = defaultOf(field);
+    const notes = [
+      ...(field.isOptional() ? [] : ['obligatorio']),
+      ...(defaultValue !== undefined ? [`por defecto: ${JSON.stringify(defaultValue)}`] : [])
+    ];
+    const description = [field.description, notes.length > 0 ? `(${notes.join(', ')})` : undefined];
+    return [
+      `--${toKebabCase(key)}${label ? ` <${label}>` : ''}`,
+      description.filter(Boolean).join(' ')
+    ] as [string, string];
+  });
+
+  return [
+    `Uso: supafast ${definition.name} [JSON | -] [opciones]`,
+    '',
+    definition.description,
+    '',
+    'Opciones:',
+    ...pad(options),
+    '',
+    'Opciones generales:',
+    ...pad(GLOBAL_HELP)
+  ].join('\n');
+};
@@ -1,46 +1,343 @@
-import { SupabaseConfig } from '../types/supabase.js';
+import fs from 'fs';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import {
+  SupabaseConfig, ProfilesConfig, TransportConfig, AccessPolicyConfig, AuditConfig, LoggingConfig, ToolTimeoutConfig,
+  ResultLimitsConfig, SandboxConfig
+} from '../types/supabase.js';
+import { AccessPolicyFile, AccessPolicyFileSchema, ConfigFile, ProfileFile, formatZodIssues } from './file.js';
 
-export const loadConfig = (): SupabaseConfig => {
-  const requiredEnvVars = [
-    'SUPABASE_URL',
-    'SUPABASE_SERVICE_ROLE_KEY',
-    'SUPABASE_DB_URL'
-  ];
+export const DEFAULT_PROFILE = 'default';
+export const SANDBOX_PROFILE = 'sandbox';
+
+const parseList = (value: string): string[] => {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+};
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  return value !== undefined ? parseInt(value, 10) : undefined;
+};
+
+// SUPABASE_ para el perfil por defecto, SUPABASE_PROD_ para "prod"
+export const envPrefix = (profileName: string): string => {
+  return profileName === DEFAULT_PROFILE ? 'SUPABASE_' : `SUPABASE_${profileName.toUpperCase()}_`;
+};
+
+// Lee la configuración de una instancia. Sin perfiles se usan las variables SUPABASE_*;
+// el perfil "prod" usa SUPABASE_PROD_URL, SUPABASE_PROD_DB_URL, etc. Las variables tienen
+// prioridad sobre los valores del perfil en el archivo de configuración
+export const loadConfig = (profileName: string = DEFAULT_PROFILE, fromFile: ProfileFile = {}): SupabaseConfig => {
+  const prefix = envPrefix(profileName);
+  const env = (key: string): string | undefined => process.env[`${prefix}${key}`] || undefined;
+  
+  const url = env('URL') ?? fromFile.url;
+  const serviceRoleKey = env('SERVICE_ROLE_KEY') ?? fromFile.serviceRoleKey;
+  const dbUrl = env('DB_URL') ?? fromFile.dbUrl;
   
-  const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
+  const missing = [
+    ...(url ? [] : ['URL']),
+    ...(serviceRoleKey ? [] : ['SERVICE_ROLE_KEY']),
+    ...(dbUrl ? [] : ['DB_URL'])
+  ].map(key => `${prefix}${key}`);
   
-  if (missingVars.length > 0) {
-    throw new Error(`Variables de entorno requeridas faltantes: ${missingVars.join(', ')}`);
+  if (missing.length > 0) {
+    throw new Error(`Variables de entorno requeridas faltantes: ${missing.join(', ')}`);
   }
   
-  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!.replace(/\s+/g, '');
-  const anonKey = process.env.SUPABASE_ANON_KEY ? process.env.SUPABASE_ANON_KEY.replace(/\s+/g, '') : '';
+  const readOnly = env('READ_ONLY');
   
   return {
-    url: process.env.SUPABASE_URL!,
-    serviceRoleKey,
-    dbUrl: process.env.SUPABASE_DB_URL!,
-    jwtSecret: process.env.SUPABASE_JWT_SECRET || '',
-    anonKey
+    name: profileName,
+    url: url!,
+    serviceRoleKey: serviceRoleKey!.replace(/\s+/g, ''),
+    dbUrl: dbUrl!,
+    jwtSecret: env('JWT_SECRET') ?? fromFile.jwtSecret ?? '',
+    anonKey: (env('ANON_KEY') ?? fromFile.anonKey ?? '').replace(/\s+/g, ''),
+    functionsDir: env('FUNCTIONS_DIR') ?? fromFile.functionsDir ?? '',
+    backupDir: env('BACKUP_DIR') ?? fromFile.backupDir ?? 'backups',
+    readOnly: readOnly !== undefined ? readOnly === 'true' : fromFile.readOnly ?? false,
+    pool: {
+      max: parseNumber(env('DB_POOL_MAX')) ?? fromFile.pool?.max ?? 10,
+      idleTimeoutMillis: parseNumber(env('DB_POOL_IDLE_TIMEOUT_MS')) ?? fromFile.pool?.idleTimeoutMillis ?? 30000,
+      connectionTimeoutMillis: parseNumber(env('DB_POOL_CONNECTION_TIMEOUT_MS'))
+        ?? fromFile.pool?.connectionTimeoutMillis ?? 10000
+    }
   };
 };
 
+// Los perfiles son los de SUPABASE_PROFILES más los del archivo de configuración
+export const loadProfiles = (file: ConfigFile = {}): ProfilesConfig => {
+  const fileProfiles = file.profiles ?? {};
+  const names = Array.from(new Set([...parseList(process.env.SUPABASE_PROFILES || ''), ...Object.keys(fileProfiles)]));
+  
+  if (names.length === 0) {
+    return {
+      defaultProfile: DEFAULT_PROFILE,
+      profiles: { [DEFAULT_PROFILE]: loadConfig() }
+    };
+  }
+  
+  const invalidNames = names.filter(name => !/^[a-zA-Z][a-zA-Z0-9_]*$/.test(name));
+  if (invalidNames.length > 0) {
+    throw new Error(`Nombres de perfil inválidos: ${invalidNames.join(', ')}`);
+  }
+  
+  const defaultProfile = process.env.SUPABASE_DEFAULT_PROFILE || file.defaultProfile || names[0]!;
+  if (!names.includes(defaultProfile)) {
+    throw new Error(`El perfil por defecto '${defaultProfile}' no está entre los perfiles configurados`);
+  }
+  
+  const profiles: Record<string, SupabaseConfig> = {};
+  for (const name of names) {
+    profiles[name] = loadConfig(name, fileProfiles[name]);
+  }
+  
+  return { defaultProfile, profiles };
+};
+
+// Un JWT son tres segmentos base64url; la cabecera JSON codificada siempre empieza por "eyJ"
+const JWT_PATTERN = /^eyJ[\w-]*\.[\w-]+\.[\w-]+$/;
+
+const SupabaseConfigSchema = z.object({
+  url: z.string().regex(/^https?:\/\/\S+$/, 'debe ser una URL http(s) válida'),
+  serviceRoleKey: z.string().regex(JWT_PATTERN, 'debe ser un JWT válido'),
+  anonKey: z.string().regex(JWT_PATTERN, 'debe ser un JWT válido').or(z.literal('')),
+  dbUrl: z.string().regex(/^postgres(ql)?:\/\/\S+$/, 'debe ser una URL de PostgreSQL válida'),
+  pool: z.object({
+    max: z.number().int('debe ser un entero').min(1, 'debe ser mayor que 0'),
+    idleTimeoutMillis: z.number().int('debe ser un entero').min(0, 'no puede ser negativo'),
+    connectionTimeoutMillis: z.number().int('debe ser un entero').min(0, 'no puede ser negativo')
+  })
+});
+
+// Comprueba una clave de API contra el secreto de la instancia. Sin jwtSecret sólo se pueden
+// revisar los claims; la firma la comprobará GoTrue/PostgREST en la primera petición
+export const verifyApiKey = (
+  field: 'serviceRoleKey' | 'anonKey',
+  key: string,
+  expectedRole: string,
+  jwtSecret: string
+): string[] => {
+  let payload: jwt.JwtPayload | string | null;
+  try {
+    payload = jwtSecret
+      ? jwt.verify(key, jwtSecret, { algorithms: ['HS256', 'HS384', 'HS512'], ignoreExpiration: true })
+      : jwt.decode(key);
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError && error.message === 'invalid signature') {
+      return [`${field}: la firma no coincide con jwtSecret (la clave se generó con otro JWT_SECRET)`];
+    }
+    return [`${field}: no se pudo verificar el JWT (${(error as Error).message})`];
+  }
+  
+  if (payload === null || typeof payload === 'string') {
+    return [`${field}: el payload del JWT no es un objeto JSON`];
+  }
+  
+  const errors: string[] = [];
+  if (payload.role !== expectedRole) {
+    errors.push(`${field}: el claim role es '${payload.role ?? '(ausente)'}', se esperaba '${expectedRole}'`);
+  }
+  if (payload.exp !== undefined && payload.exp * 1000 <= Date.now()) {
+    errors.push(`${field}: caducó el ${new Date(payload.exp * 1000).toISOString()}`);
+  }
+  return errors;
+};
+
 export const validateConfig = (config: SupabaseConfig): void => {
+  const parsed = SupabaseConfigSchema.safeParse(config);
+  
+  if (!parsed.success) {
+    throw new Error(`Errores de configuración en el perfil '${config.name}': ${formatZodIssues(parsed.error)}`);
+  }
+  
+  const keyErrors = [
+    ...verifyApiKey('serviceRoleKey', config.serviceRoleKey, 'service_role', config.jwtSecret),
+    ...(config.anonKey ? verifyApiKey('anonKey', config.anonKey, 'anon', config.jwtSecret) : [])
+  ];
+  
+  if (keyErrors.length > 0) {
+    throw new Error(`Claves de API inválidas en el perfil '${config.name}': ${keyErrors.join(', ')}`);
+  }
+};
+
+export const loadTransportConfig = (fromFile: ConfigFile['transport'] = {}): TransportConfig => {
+  const mode = (process.env.MCP_TRANSPORT || fromFile.mode || 'stdio').toLowerCase();
+  
+  if (mode !== 'stdio' && mode !== 'http') {
+    throw new Error(`MCP_TRANSPORT inválido: ${mode} (valores permitidos: stdio, http)`);
+  }
+  
+  const authTokens = process.env.MCP_AUTH_TOKENS !== undefined
+    ? parseList(process.env.MCP_AUTH_TOKENS)
+    : fromFile.authTokens ?? [];
+  
+  return {
+    mode,
+    host: process.env.MCP_HTTP_HOST || fromFile.host || '127.0.0.1',
+    port: parseNumber(process.env.MCP_HTTP_PORT) ?? fromFile.port ?? 3100,
+    authTokens,
+    // Cabe un upload_file de unos 7 MB (los datos van en base64 en los argumentos)
+    maxBodyBytes: parseNumber(process.env.MCP_HTTP_MAX_BODY_BYTES) ?? fromFile.maxBodyBytes ?? 10 * 1024 * 1024
+  };
+};
+
+export const validateTransportConfig = (config: TransportConfig): void => {
+  if (config.mode !== 'http') {
+    return;
+  }
+  
+  const errors: string[] = [];
+  
+  if (!Number.isInteger(config.port) || config.port <= 0 || config.port > 65535) {
+    errors.push('MCP_HTTP_PORT debe ser un puerto válido');
+  }
+  
+  if (config.authTokens.length === 0) {
+    errors.push('MCP_AUTH_TOKENS es obligatorio en modo http');
+  }
+  
+  if (!Number.isInteger(config.maxBodyBytes) || config.maxBodyBytes <= 0) {
+    errors.push('MCP_HTTP_MAX_BODY_BYTES debe ser un número entero positivo');
+  }
+  
+  if (errors.length > 0) {
+    throw new Error(`Errores de configuración: ${errors.join(', ')}`);
+  }
+};
+
+// La política se lee de MCP_POLICY_FILE (JSON) o de la sección "policy" del archivo de configuración;
+// las variables MCP_* tienen prioridad sobre ambos
+export const loadAccessPolicy = (fromConfigFile: AccessPolicyFile = {}): AccessPolicyConfig => {
+  let fromFile: AccessPolicyFile = fromConfigFile;
+  
+  const policyFile = process.env.MCP_POLICY_FILE;
+  if (policyFile) {
+    if (!fs.existsSync(policyFile)) {
+      throw new Error(`MCP_POLICY_FILE no encontrado: ${policyFile}`);
+    }
+    const parsed = AccessPolicyFileSchema.safeParse(JSON.parse(fs.readFileSync(policyFile, 'utf8')));
+    if (!parsed.success) {
+      throw new Error(`Política de acceso inválida en ${policyFile}: ${formatZodIssues(parsed.error)}`);
+    }
+    fromFile = parsed.data;
+  }
+  
+  const env = process.env;
+  
+  return {
+    readOnly: env.MCP_READ_ONLY !== undefined ? env.MCP_READ_ONLY === 'true' : fromFile.readOnly ?? false,
+    dryRun: env.MCP_DRY_RUN !== undefined ? env.MCP_DRY_RUN === 'true' : fromFile.dryRun ?? false,
+    confirmDestructive: env.MCP_CONFIRM_DESTRUCTIVE !== undefined
+      ? env.MCP_CONFIRM_DESTRUCTIVE !== 'false'
+      : fromFile.confirmDestructive ?? true,
+    allowedTools: env.MCP_ALLOWED_TOOLS !== undefined ? parseList(env.MCP_ALLOWED_TOOLS) : fromFile.allowedTools ?? [],
+    deniedTools: env.MCP_DENIED_TOOLS !== undefined ? parseList(env.MCP_DENIED_TOOLS) : fromFile.deniedTools ?? [],
+    allowedSchemas: env.MCP_ALLOWED_SCHEMAS !== undefined ? parseList(env.MCP_ALLOWED_SCHEMAS) : fromFile.allowedSchemas ?? []
+  };
+};
+
+// Registro de auditoría de llamadas a herramientas (JSONL); MCP_AUDIT_ENABLED=false lo desactiva
+export const loadAuditConfig = (fromFile: ConfigFile['audit'] = {}): AuditConfig => {
+  return {
+    enabled: process.env.MCP_AUDIT_ENABLED !== undefined
+      ? process.env.MCP_AUDIT_ENABLED !== 'false'
+      : fromFile.enabled ?? true,
+    file: process.env.MCP_AUDIT_FILE || fromFile.file || 'audit.jsonl'
+  };
+};
+
+const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+const LOG_SINKS = ['stderr', 'file', 'off'] as const;
+
+export const loadLoggingConfig = (fromFile: ConfigFile['logging'] = {}): LoggingConfig => {
+  const level = process.env.MCP_LOG_LEVEL || fromFile.level || 'info';
+  const sink = process.env.MCP_LOG_SINK || fromFile.sink || 'stderr';
+  
   const errors: string[] = [];
+  if (!LOG_LEVELS.includes(level as LoggingConfig['level'])) {
+    errors.push(`MCP_LOG_LEVEL inválido: ${level} (valores permitidos: ${LOG_LEVELS.join(', ')})`);
+  }
+  if (!LOG_SINKS.includes(sink as LoggingConfig['sink'])) {
+    errors.push(`MCP_LOG_SINK inválido: ${sink} (valores permitidos: ${LOG_SINKS.join(', ')})`);
+  }
   
-  if (!config.url.startsWith('http')) {
-    errors.push('SUPABASE_URL debe ser una URL válida');
+  const maxSize = parseNumber(process.env.MCP_LOG_MAX_SIZE) ?? fromFile.maxSize ?? 10 * 1024 * 1024;
+  const maxFiles = parseNumber(process.env.MCP_LOG_MAX_FILES) ?? fromFile.maxFiles ?? 5;
+  if (!Number.isInteger(maxSize) || maxSize <= 0) {
+    errors.push('MCP_LOG_MAX_SIZE debe ser un número de bytes mayor que 0');
+  }
+  if (!Number.isInteger(maxFiles) || maxFiles <= 0) {
+    errors.push('MCP_LOG_MAX_FILES debe ser un entero mayor que 0');
   }
   
-  if (!config.serviceRoleKey.startsWith('eyJ') && !config.serviceRoleKey.startsWith('eeyJ')) {
-    errors.push('SUPABASE_SERVICE_ROLE_KEY debe ser un JWT válido');
+  if (errors.length > 0) {
+    throw new Error(`Errores de configuración: ${errors.join(', ')}`);
+  }
+  
+  return {
+    level: level as LoggingConfig['level'],
+    sink: sink as LoggingConfig['sink'],
+    dir: process.env.MCP_LOG_DIR || fromFile.dir || 'logs',
+    maxSize,
+    maxFiles
+  };
+};
+
+// MCP_TOOL_TIMEOUTS=backup_database=1800000,database_query=30000 sobrescribe el tiempo máximo por herramienta
+export const loadTimeoutConfig = (fromFile: ConfigFile['timeouts'] = {}): ToolTimeoutConfig => {
+  const defaultMs = parseNumber(process.env.MCP_TOOL_TIMEOUT_MS) ?? fromFile.defaultMs ?? 300000;
+  const tools: Record<string, number> = { ...fromFile.tools };
+  const errors: string[] = [];
+  
+  for (const entry of parseList(process.env.MCP_TOOL_TIMEOUTS || '')) {
+    const [tool, value] = entry.split('=').map(part => part.trim());
+    const ms = parseNumber(value);
+    if (!tool || ms === undefined || !Number.isInteger(ms) || ms < 0) {
+      errors.push(`MCP_TOOL_TIMEOUTS: entrada inválida '${entry}' (formato herramienta=milisegundos)`);
+      continue;
+    }
+    tools[tool] = ms;
+  }
+  
+  if (!Number.isInteger(defaultMs) || defaultMs < 0) {
+    errors.push('MCP_TOOL_TIMEOUT_MS debe ser un entero mayor o igual que 0');
+  }
+  
+  if (errors.length > 0) {
+    throw new Error(`Errores de configuración: ${errors.join(', ')}`);
   }
   
-  if (!config.dbUrl.startsWith('postgresql://')) {
-    errors.push('SUPABASE_DB_URL debe ser una URL de PostgreSQL válida');
+  return { defaultMs, tools };
+};
+
+export const loadResultLimits = (fromFile: ConfigFile['limits'] = {}): ResultLimitsConfig => {
+  const maxRows = parseNumber(process.env.MCP_MAX_ROWS) ?? fromFile.maxRows ?? 500;
+  const maxBytes = parseNumber(process.env.MCP_MAX_BYTES) ?? fromFile.maxBytes ?? 100000;
+  
+  const errors: string[] = [];
+  if (!Number.isInteger(maxRows) || maxRows <= 0) {
+    errors.push('MCP_MAX_ROWS debe ser un entero mayor que 0');
+  }
+  if (!Number.isInteger(maxBytes) || maxBytes <= 0) {
+    errors.push('MCP_MAX_BYTES debe ser un entero mayor que 0');
   }
   
   if (errors.length > 0) {
     throw new Error(`Errores de configuración: ${errors.join(', ')}`);
   }
-};
\ No newline at end of file
+  
+  return { maxRows, maxBytes };
+};
+
+// Modo sandbox (MCP_SANDBOX=true): no hace falta ninguna variable SUPABASE_*
+export const loadSandboxConfig = (fromFile: ConfigFile['sandbox'] = {}): SandboxConfig => {
+  return {
+    enabled: process.env.MCP_SANDBOX !== undefined ? process.env.MCP_SANDBOX === 'true' : fromFile.enabled ?? false,
+    dbUrl: process.env.MCP_SANDBOX_DB_URL || fromFile.dbUrl || '',
+    dataDir: process.env.MCP_SANDBOX_DATA_DIR || fromFile.dataDir || ''
+  };
+};
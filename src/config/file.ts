@@ -0,0 +1,122 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+
+const CONFIG_FILE_NAMES = ['supafast.config.json', 'supafast.config.yaml', 'supafast.config.yml'];
+
+// Todas las secciones son opcionales: lo que falte se completa con variables de entorno o valores por defecto
+const PoolFileSchema = z.object({
+  max: z.number().int().min(1),
+  idleTimeoutMillis: z.number().int().min(0),
+  connectionTimeoutMillis: z.number().int().min(0)
+}).partial().strict();
+
+export const ProfileFileSchema = z.object({
+  url: z.string(),
+  serviceRoleKey: z.string(),
+  dbUrl: z.string(),
+  jwtSecret: z.string(),
+  anonKey: z.string(),
+  functionsDir: z.string(),
+  backupDir: z.string(),
+  readOnly: z.boolean(),
+  pool: PoolFileSchema
+}).partial().strict();
+
+export const AccessPolicyFileSchema = z.object({
+  readOnly: z.boolean(),
+  dryRun: z.boolean(),
+  confirmDestructive: z.boolean(),
+  allowedTools: z.array(z.string()),
+  deniedTools: z.array(z.string()),
+  allowedSchemas: z.array(z.string())
+}).partial().strict();
+
+const TransportFileSchema = z.object({
+  mode: z.enum(['stdio', 'http']),
+  host: z.string(),
+  port: z.number().int(),
+  authTokens: z.array(z.string()),
+  maxBodyBytes: z.number().int()
+}).partial().strict();
+
+const AuditFileSchema = z.object({
+  enabled: z.boolean(),
+  file: z.string()
+}).partial().strict();
+
+const LoggingFileSchema = z.object({
+  level: z.enum(['error', 'warn', 'info', 'debug']),
+  sink: z.enum(['stderr', 'file', 'off']),
+  dir: z.string(),
+  maxSize: z.number().int().min(1),
+  maxFiles: z.number().int().min(1)
+}).partial().strict();
+
+const TimeoutsFileSchema = z.object({
+  defaultMs: z.number().int().min(0),
+  tools: z.record(z.number().int().min(0))
+}).partial().strict();
+
+const LimitsFileSchema = z.object({
+  maxRows: z.number().int().min(1),
+  maxBytes: z.number().int().min(1)
+}).partial().strict();
+
+const SandboxFileSchema = z.object({
+  enabled: z.boolean(),
+  dbUrl: z.string(),
+  dataDir: z.string()
+}).partial().strict();
+
+export const ConfigFileSchema = z.object({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(ProfileFileSchema).optional(),
+  transport: TransportFileSchema.optional(),
+  policy: AccessPolicyFileSchema.optional(),
+  audit: AuditFileSchema.optional(),
+  logging: LoggingFileSchema.optional(),
+  timeouts: TimeoutsFileSchema.optional(),
+  limits: LimitsFileSchema.optional(),
+  sandbox: SandboxFileSchema.optional()
+}).strict();
+
+export type ProfileFile = z.infer<typeof ProfileFileSchema>;
+export type AccessPolicyFile = z.infer<typeof AccessPolicyFileSchema>;
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+export const formatZodIssues = (error: z.ZodError): string => {
+  return error.errors.map(err => `${err.path.join('.') || '(raíz)'}: ${err.message}`).join(', ');
+};
+
+// MCP_CONFIG_FILE tiene prioridad; si no, se busca supafast.config.(json|yaml|yml) en el directorio actual
+export const findConfigFile = (): string | null => {
+  const explicit = process.env.MCP_CONFIG_FILE;
+  if (explicit) {
+    if (!fs.existsSync(explicit)) {
+      throw new Error(`MCP_CONFIG_FILE no encontrado: ${explicit}`);
+    }
+    return explicit;
+  }
+
+  const found = CONFIG_FILE_NAMES.map(name => path.join(process.cwd(), name)).find(file => fs.existsSync(file));
+  return found ?? null;
+};
+
+export const readConfigFile = (filePath: string): ConfigFile => {
+  const content = fs.readFileSync(filePath, 'utf8');
+
+  let raw: unknown;
+  try {
+    raw = filePath.endsWith('.json') ? JSON.parse(content) : yaml.load(content);
+  } catch (error) {
+    throw new Error(`No se pudo leer ${filePath}: ${(error as Error).message}`);
+  }
+
+  const parsed = ConfigFileSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    throw new Error(`Configuración inválida en ${filePath}: ${formatZodIssues(parsed.error)}`);
+  }
+  return parsed.data;
+};
@@ -0,0 +1,65 @@
+import { ProfilesConfig, ServerConfig } from '../types/supabase.js';
+import { findConfigFile, readConfigFile } from './file.js';
+import {
+  loadProfiles, validateConfig, loadTransportConfig, validateTransportConfig, loadAccessPolicy,
+  loadAuditConfig, loadLoggingConfig, loadTimeoutConfig, loadResultLimits, loadSandboxConfig, SANDBOX_PROFILE
+} from './env.js';
+
+// Lee supafast.config.(json|yaml) si existe, aplica las variables de entorno encima y valida el resultado.
+// En modo sandbox no se leen perfiles: el único perfil lo crea startSandbox al arrancar
+export const loadServerConfig = (): ServerConfig => {
+  const configFile = findConfigFile();
+  const file = configFile ? readConfigFile(configFile) : {};
+
+  const sandbox = loadSandboxConfig(file.sandbox);
+  let profiles: ProfilesConfig = { defaultProfile: SANDBOX_PROFILE, profiles: {} };
+  if (!sandbox.enabled) {
+    profiles = loadProfiles(file);
+    Object.values(profiles.profiles).forEach(validateConfig);
+  }
+
+  const transport = loadTransportConfig(file.transport);
+  validateTransportConfig(transport);
+
+  return {
+    configFile,
+    profiles,
+    transport,
+    policy: loadAccessPolicy(file.policy),
+    audit: loadAuditConfig(file.audit),
+    logging: loadLoggingConfig(file.logging),
+    timeouts: loadTimeoutConfig(file.timeouts),
+    limits: loadResultLimits(file.limits),
+    sandbox
+  };
+};
+
+// Claves cuyo valor nunca se escribe en el log de cambios
+const SECRET_KEYS = /key|secret|token|dbUrl/i;
+
+const flatten = (value: unknown, prefix: string, out: Map<string, string>): Map<string, string> => {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    for (const [key, nested] of Object.entries(value)) {
+      flatten(nested, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else {
+    out.set(prefix, JSON.stringify(value));
+  }
+  return out;
+};
+
+const display = (key: string, value: string | undefined): string => {
+  if (value === undefined) return '(sin valor)';
+  return SECRET_KEYS.test(key) ? '***' : value;
+};
+
+// Lista legible de lo que cambia entre dos configuraciones, p. ej. "policy.readOnly: false → true"
+export const describeConfigChanges = (previous: ServerConfig, next: ServerConfig): string[] => {
+  const before = flatten(previous, '', new Map());
+  const after = flatten(next, '', new Map());
+  const keys = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+
+  return keys
+    .filter(key => before.get(key) !== after.get(key))
+    .map(key => `${key}: ${display(key, before.get(key))} → ${display(key, after.get(key))}`);
+};
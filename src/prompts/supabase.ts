@@ -0,0 +1,181 @@
+import { GetPromptResult, Prompt, PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import { handleDescribeTable } from '../tools/database.js';
+import { handleListMigrations } from '../tools/migrations.js';
+import { handleListRLSPolicies } from '../tools/rls.js';
+import { handleListEdgeFunctions, handleListSecrets, readEdgeFunctionSource } from '../tools/edge-functions.js';
+import { logError } from '../utils/logger.js';
+import { AccessGuard } from '../utils/policy.js';
+import { unwrap, NotFoundError, ValidationError } from '../utils/errors.js';
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  // Devuelve el texto del mensaje de usuario, ya con los datos en vivo de la instancia
+  build: (args: Record<string, string>, guard: AccessGuard) => Promise<string>;
+}
+
+// Bloque de datos del prompt; si la política no permite la herramienta o la consulta falla,
+// se deja una nota en su lugar para que el modelo sepa que falta esa información
+const section = async (
+  title: string,
+  allowed: boolean,
+  language: string,
+  fetch: () => Promise<unknown>
+): Promise<string> => {
+  if (!allowed) {
+    return `## ${title}\n\n(No disponible: la política de acceso no permite consultarlo)`;
+  }
+  try {
+    const data = await fetch();
+    const text = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+    return `## ${title}\n\n\`\`\`${language}\n${text}\n\`\`\``;
+  } catch (error) {
+    logError(error as Error, `prompt_${title}`);
+    return `## ${title}\n\n(No disponible: ${(error as Error).message})`;
+  }
+};
+
+const describeTable = async (schema: string, tableName: string) => {
+  const { columns = [] } = unwrap(await handleDescribeTable({ schema, tableName }));
+  if (columns.length === 0) {
+    throw new NotFoundError(`Tabla no encontrada: ${schema}.${tableName}`);
+  }
+  return columns;
+};
+
+const prompts: PromptDefinition[] = [
+  {
+    name: 'design_rls_policies',
+    description: 'Diseñar políticas RLS para una tabla a partir de sus columnas y políticas actuales',
+    arguments: [
+      { name: 'table', description: 'Nombre de la tabla', required: true },
+      { name: 'schema', description: 'Esquema de la tabla (por defecto, public)' },
+      { name: 'requirements', description: 'Quién debe poder leer o modificar las filas' }
+    ],
+    build: async (args, guard) => {
+      const schema = args.schema || 'public';
+      const table = args.table as string;
+
+      const sections = await Promise.all([
+        section('Columnas', guard('describe_table', { schema }), 'json', () => describeTable(schema, table)),
+        section('Políticas RLS actuales', guard('list_rls_policies', { schema }), 'json', async () => {
+          return unwrap(await handleListRLSPolicies({ schema, table })).policies;
+        })
+      ]);
+
+      return [
+        `Diseña las políticas de Row Level Security para la tabla ${schema}.${table} de Supabase.`,
+        args.requirements ? `Requisitos de acceso: ${args.requirements}` : '',
+        ...sections,
+        'Identifica la columna que relaciona cada fila con su propietario (p. ej. user_id frente a auth.uid()), ' +
+        'propone una política por comando (SELECT, INSERT, UPDATE, DELETE) indicando roles, USING y WITH CHECK, ' +
+        'y señala las políticas actuales que sobren o sean demasiado permisivas. ' +
+        'Aplícalas con create_rls_policy y asegúrate de que RLS está habilitado con enable_rls.'
+      ].filter(Boolean).join('\n\n');
+    }
+  },
+  {
+    name: 'write_add_column_migration',
+    description: 'Escribir una migración (up/down) que añade una columna a una tabla existente',
+    arguments: [
+      { name: 'table', description: 'Nombre de la tabla', required: true },
+      { name: 'column', description: 'Nombre de la columna a añadir', required: true },
+      { name: 'type', description: 'Tipo de PostgreSQL de la columna (si no se indica, se propone uno)' },
+      { name: 'schema', description: 'Esquema de la tabla (por defecto, public)' }
+    ],
+    build: async (args, guard) => {
+      const schema = args.schema || 'public';
+      const table = args.table as string;
+      const column = args.column as string;
+
+      const sections = await Promise.all([
+        section('Columnas actuales', guard('describe_table', { schema }), 'json', () => describeTable(schema, table)),
+        section('Migraciones registradas', guard('list_migrations'), 'json', async () => {
+          const { migrations = [] } = unwrap(await handleListMigrations());
+          return migrations.map((migration: { name: string; applied: boolean }) => ({
+            name: migration.name,
+            applied: migration.applied
+          }));
+        })
+      ]);
+
+      return [
+        `Escribe una migración que añada la columna "${column}"` +
+        `${args.type ? ` de tipo ${args.type}` : ''} a la tabla ${schema}.${table}.`,
+        ...sections,
+        'Comprueba que la columna no exista ya y sigue el estilo de nombres de las columnas y migraciones actuales. ' +
+        'Si la tabla puede tener filas, evita NOT NULL sin valor por defecto. ' +
+        'El SQL "down" debe revertir exactamente el "up". ' +
+        'Registra la migración con create_migration y aplícala con apply_migration sólo tras revisarla.'
+      ].join('\n\n');
+    }
+  },
+  {
+    name: 'debug_edge_function',
+    description: 'Depurar una Edge Function a partir de su código, sus secretos y el error observado',
+    arguments: [
+      { name: 'name', description: 'Nombre de la Edge Function', required: true },
+      { name: 'error', description: 'Error o comportamiento inesperado observado' }
+    ],
+    build: async (args, guard) => {
+      const name = args.name as string;
+
+      const sections = await Promise.all([
+        section('Código (index.ts)', guard('list_edge_functions'), 'typescript', async () => readEdgeFunctionSource(name)),
+        section('Metadatos', guard('list_edge_functions'), 'json', async () => {
+          const { functions = [] } = unwrap(await handleListEdgeFunctions());
+          const fn = functions.find(f => f.name === name);
+          if (!fn) {
+            throw new NotFoundError(`Edge Function '${name}' no encontrada`);
+          }
+          return fn;
+        }),
+        // Sólo nombres: los valores de los secretos nunca se incluyen
+        section('Secretos configurados', guard('list_secrets'), 'json', async () => {
+          const { secrets = [] } = unwrap(await handleListSecrets());
+          return secrets.map(secret => secret.key);
+        })
+      ]);
+
+      return [
+        `Ayúdame a depurar la Edge Function "${name}" de Supabase self-hosted.`,
+        args.error ? `Error observado:\n\n\`\`\`\n${args.error}\n\`\`\`` : '',
+        ...sections,
+        'Revisa el manejo de la petición y de CORS, el uso de Deno.env.get frente a los secretos configurados, ' +
+        'los imports y la verificación del JWT. Propón un cambio concreto del código; ' +
+        'puedes desplegarlo con create_edge_function y probarlo con invoke_edge_function.'
+      ].filter(Boolean).join('\n\n');
+    }
+  }
+];
+
+export const handleListPrompts = (): Prompt[] => {
+  return prompts.map(({ name, description, arguments: promptArgs }) => ({
+    name,
+    description,
+    arguments: promptArgs
+  }));
+};
+
+export const handleGetPrompt = async (
+  name: string,
+  args: Record<string, string>,
+  guard: AccessGuard
+): Promise<GetPromptResult> => {
+  const prompt = prompts.find(p => p.name === name);
+  if (!prompt) {
+    throw new NotFoundError(`Prompt desconocido: ${name}`);
+  }
+
+  const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]).map(arg => arg.name);
+  if (missing.length > 0) {
+    throw new ValidationError(`Faltan argumentos obligatorios para el prompt '${name}': ${missing.join(', ')}`);
+  }
+
+  const text = await prompt.build(args, guard);
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text } }]
+  };
+};
@@ -0,0 +1,148 @@
+import { Resource, ResourceTemplate, TextResourceContents } from '@modelcontextprotocol/sdk/types.js';
+import { handleDescribeTable, handleListTables } from '../tools/database.js';
+import { handleListMigrations } from '../tools/migrations.js';
+import { handleListBuckets, handleListFiles } from '../tools/storage.js';
+import { handleListEdgeFunctions, readEdgeFunctionSource } from '../tools/edge-functions.js';
+import { logError } from '../utils/logger.js';
+import { AccessGuard } from '../utils/policy.js';
+import { unwrap, NotFoundError, PermissionDeniedError } from '../utils/errors.js';
+
+const TABLE_URI = /^supabase:\/\/schema\/([^/]+)\/tables\/([^/]+)$/;
+const MIGRATION_URI = /^supabase:\/\/migrations\/([^/]+)$/;
+const BUCKET_URI = /^supabase:\/\/storage\/([^/]+)$/;
+const FUNCTION_URI = /^supabase:\/\/functions\/([^/]+)\/index\.ts$/;
+
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'supabase://schema/{schema}/tables/{name}',
+    name: 'Tabla',
+    description: 'Columnas de una tabla (equivalente a describe_table)',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'supabase://migrations/{id}',
+    name: 'Migración',
+    description: 'Estado de una migración registrada',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'supabase://storage/{bucket}',
+    name: 'Bucket de storage',
+    description: 'Configuración de un bucket y sus archivos en la raíz',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'supabase://functions/{name}/index.ts',
+    name: 'Código de Edge Function',
+    description: 'Código fuente de una Edge Function desplegada',
+    mimeType: 'text/typescript'
+  }
+];
+
+const jsonContents = (uri: string, data: unknown): TextResourceContents[] => {
+  return [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }];
+};
+
+// Un fallo en una fuente (p. ej. sin SUPABASE_FUNCTIONS_DIR) no debe impedir listar las demás
+const collect = async (context: string, fn: () => Promise<Resource[]>): Promise<Resource[]> => {
+  try {
+    return await fn();
+  } catch (error) {
+    logError(error as Error, `resources_${context}`);
+    return [];
+  }
+};
+
+// Cada recurso se apoya en una herramienta existente; si la política de acceso no permite
+// esa herramienta (o el esquema indicado), el recurso tampoco se expone
+export const handleListResources = async (guard: AccessGuard): Promise<Resource[]> => {
+  const groups = await Promise.all([
+    collect('tables', async () => {
+      if (!guard('describe_table', { schema: 'public' })) return [];
+      const { tables = [] } = unwrap(await handleListTables({ schema: 'public' }));
+      return tables.map((table: { table_name: string }) => ({
+        uri: `supabase://schema/public/tables/${table.table_name}`,
+        name: `public.${table.table_name}`,
+        mimeType: 'application/json'
+      }));
+    }),
+    collect('migrations', async () => {
+      if (!guard('list_migrations')) return [];
+      const { migrations = [] } = unwrap(await handleListMigrations());
+      return migrations.map((migration: { id: string; name: string }) => ({
+        uri: `supabase://migrations/${migration.id}`,
+        name: `Migración ${migration.name}`,
+        mimeType: 'application/json'
+      }));
+    }),
+    collect('storage', async () => {
+      if (!guard('list_storage_buckets')) return [];
+      const { buckets = [] } = unwrap(await handleListBuckets());
+      return buckets.map(bucket => ({
+        uri: `supabase://storage/${bucket.name}`,
+        name: `Bucket ${bucket.name}`,
+        mimeType: 'application/json'
+      }));
+    }),
+    collect('functions', async () => {
+      if (!guard('list_edge_functions')) return [];
+      const { functions = [] } = unwrap(await handleListEdgeFunctions());
+      return functions.filter(fn => fn.hasIndex).map(fn => ({
+        uri: `supabase://functions/${fn.name}/index.ts`,
+        name: `Edge Function ${fn.name}`,
+        mimeType: 'text/typescript'
+      }));
+    })
+  ]);
+
+  return groups.flat();
+};
+
+export const handleReadResource = async (uri: string, guard: AccessGuard): Promise<TextResourceContents[]> => {
+  const denied = (): Error => new PermissionDeniedError(`Acceso denegado al recurso: ${uri}`);
+
+  const tableMatch = uri.match(TABLE_URI);
+  if (tableMatch) {
+    const [, schema, tableName] = tableMatch as [string, string, string];
+    if (!guard('describe_table', { schema })) throw denied();
+    const { columns = [] } = unwrap(await handleDescribeTable({ schema, tableName }));
+    if (columns.length === 0) {
+      throw new NotFoundError(`Tabla no encontrada: ${schema}.${tableName}`);
+    }
+    return jsonContents(uri, { schema, table: tableName, columns });
+  }
+
+  const migrationMatch = uri.match(MIGRATION_URI);
+  if (migrationMatch) {
+    const [, migrationId] = migrationMatch as [string, string];
+    if (!guard('list_migrations')) throw denied();
+    const { migrations = [] } = unwrap(await handleListMigrations());
+    const migration = migrations.find((m: { id: string }) => m.id === migrationId);
+    if (!migration) {
+      throw new NotFoundError(`Migración con ID '${migrationId}' no encontrada`);
+    }
+    return jsonContents(uri, migration);
+  }
+
+  const bucketMatch = uri.match(BUCKET_URI);
+  if (bucketMatch) {
+    const [, bucketName] = bucketMatch as [string, string];
+    if (!guard('list_storage_buckets') || !guard('list_files')) throw denied();
+    const { buckets = [] } = unwrap(await handleListBuckets());
+    const bucket = buckets.find(b => b.name === bucketName);
+    if (!bucket) {
+      throw new NotFoundError(`Bucket no encontrado: ${bucketName}`);
+    }
+    const { files = [] } = unwrap(await handleListFiles({ bucketName, folder: '', limit: 100, offset: 0 }));
+    return jsonContents(uri, { bucket, files });
+  }
+
+  const functionMatch = uri.match(FUNCTION_URI);
+  if (functionMatch) {
+    const [, name] = functionMatch as [string, string];
+    if (!guard('list_edge_functions')) throw denied();
+    return [{ uri, mimeType: 'text/typescript', text: readEdgeFunctionSource(name) }];
+  }
+
+  throw new NotFoundError(`Recurso desconocido: ${uri}`);
+};
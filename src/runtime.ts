@@ -0,0 +1,50 @@
+import { ServerConfig } from './types/supabase.js';
+import { loadServerConfig } from './config/loader.js';
+import { startSandbox } from './sandbox/index.js';
+import { initConnections, closeConnections } from './utils/connection.js';
+import { initAuditLog } from './utils/audit.js';
+import { initResultLimits, closeAllCursors } from './utils/pagination.js';
+import { configureLogger, logInfo } from './utils/logger.js';
+
+// Configuración cargada e inicializada: conexiones, auditoría, límites de resultados y, en modo
+// sandbox, la instancia local. La comparten el servidor MCP y la CLI
+export interface Runtime {
+  config: ServerConfig;
+  // Vuelve a leer la configuración (SIGHUP) conservando el sandbox en marcha
+  reloadConfig(): ServerConfig;
+  stop(): Promise<void>;
+}
+
+// `adjust` modifica la configuración leída antes de aplicarla (la CLI, por ejemplo, silencia los logs)
+export const startRuntime = async (adjust: (config: ServerConfig) => ServerConfig = config => config): Promise<Runtime> => {
+  const loaded = adjust(loadServerConfig());
+  configureLogger(loaded.logging);
+  if (loaded.configFile) {
+    logInfo(`Configuración cargada desde ${loaded.configFile}`);
+  }
+
+  // En modo sandbox el único perfil es la instancia local que se crea aquí
+  const sandbox = loaded.sandbox.enabled ? await startSandbox(loaded.sandbox) : null;
+  const withSandbox = (next: ServerConfig): ServerConfig => sandbox ? { ...next, profiles: sandbox.profiles } : next;
+  const config = withSandbox(loaded);
+
+  try {
+    await initConnections(config.profiles);
+  } catch (error) {
+    await sandbox?.stop();
+    throw error;
+  }
+  initAuditLog(config.audit);
+  initResultLimits(config.limits);
+
+  return {
+    config,
+    reloadConfig: () => withSandbox(adjust(loadServerConfig())),
+    stop: async () => {
+      // Los cursores abiertos retienen clientes del pool
+      await closeAllCursors();
+      await closeConnections();
+      await sandbox?.stop();
+    }
+  };
+};
@@ -0,0 +1,145 @@
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { Client } from 'pg';
+import { logInfo } from '../utils/logger.js';
+
+// PGlite es una única sesión de Postgres: el servidor de sockets multiplexa las conexiones y, mientras
+// una de ellas tiene una transacción abierta, las demás esperan. Basta para el pool de la instancia,
+// el de los servicios simulados y la conexión aparte de pg_cancel_backend
+const EMBEDDED_MAX_CONNECTIONS = 20;
+
+export interface SandboxDatabase {
+  dbUrl: string;
+  stop(): Promise<void>;
+}
+
+// Lo mínimo de una instancia de Supabase que usan las herramientas: roles de PostgREST, auth.users con
+// auth.uid()/auth.role()/auth.jwt() para las políticas RLS y las tablas de Storage. Idempotente, para
+// poder repetirlo sobre un directorio de datos o un Postgres local ya inicializados
+const BOOTSTRAP_SQL = `
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    CREATE ROLE anon NOLOGIN NOINHERIT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    CREATE ROLE authenticated NOLOGIN NOINHERIT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'service_role') THEN
+    CREATE ROLE service_role NOLOGIN NOINHERIT BYPASSRLS;
+  END IF;
+END
+$$;
+
+CREATE SCHEMA IF NOT EXISTS auth;
+
+CREATE TABLE IF NOT EXISTS auth.users (
+  id uuid PRIMARY KEY,
+  aud varchar(255) DEFAULT 'authenticated',
+  role varchar(255) DEFAULT 'authenticated',
+  email varchar(255) UNIQUE,
+  encrypted_password varchar(255),
+  email_confirmed_at timestamptz,
+  phone text UNIQUE,
+  phone_confirmed_at timestamptz,
+  last_sign_in_at timestamptz,
+  raw_app_meta_data jsonb DEFAULT '{}'::jsonb,
+  raw_user_meta_data jsonb DEFAULT '{}'::jsonb,
+  is_anonymous boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION auth.jwt() RETURNS jsonb LANGUAGE sql STABLE AS $$
+  SELECT coalesce(
+    nullif(current_setting('request.jwt.claim', true), ''),
+    nullif(current_setting('request.jwt.claims', true), '')
+  )::jsonb
+$$;
+
+CREATE OR REPLACE FUNCTION auth.uid() RETURNS uuid LANGUAGE sql STABLE AS $$
+  SELECT coalesce(
+    nullif(current_setting('request.jwt.claim.sub', true), ''),
+    (nullif(current_setting('request.jwt.claims', true), '')::jsonb ->> 'sub')
+  )::uuid
+$$;
+
+CREATE OR REPLACE FUNCTION auth.role() RETURNS text LANGUAGE sql STABLE AS $$
+  SELECT coalesce(
+    nullif(current_setting('request.jwt.claim.role', true), ''),
+    (nullif(current_setting('request.jwt.claims', true), '')::jsonb ->> 'role')
+  )::text
+$$;
+
+CREATE SCHEMA IF NOT EXISTS storage;
+
+CREATE TABLE IF NOT EXISTS storage.buckets (
+  id text PRIMARY KEY,
+  name text NOT NULL UNIQUE,
+  owner uuid,
+  public boolean DEFAULT false,
+  file_size_limit bigint,
+  allowed_mime_types text[],
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS storage.objects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket_id text REFERENCES storage.buckets (id),
+  name text NOT NULL,
+  owner uuid,
+  metadata jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  last_accessed_at timestamptz DEFAULT now(),
+  UNIQUE (bucket_id, name)
+);
+
+GRANT USAGE ON SCHEMA public, auth, storage TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION auth.jwt(), auth.uid(), auth.role() TO anon, authenticated, service_role;
+GRANT ALL ON ALL TABLES IN SCHEMA public TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+`;
+
+const bootstrap = async (dbUrl: string): Promise<void> => {
+  const client = new Client({ connectionString: dbUrl });
+  await client.connect();
+  try {
+    await client.query(BOOTSTRAP_SQL);
+  } finally {
+    await client.end();
+  }
+};
+
+// Con dbUrl se usa ese Postgres (p. ej. un contenedor de CI) y el usuario debe poder crear roles y esquemas;
+// sin él, un Postgres embebido (PGlite) en memoria o, con dataDir, persistido en ese directorio
+export const startSandboxDatabase = async (dbUrl: string, dataDir: string | null): Promise<SandboxDatabase> => {
+  if (dbUrl) {
+    await bootstrap(dbUrl);
+    logInfo('Sandbox: usando el Postgres local indicado en MCP_SANDBOX_DB_URL');
+    return { dbUrl, stop: async () => undefined };
+  }
+
+  const db = await PGlite.create(dataDir ?? undefined);
+  const server = new PGLiteSocketServer({ db, port: 0, maxConnections: EMBEDDED_MAX_CONNECTIONS });
+  try {
+    await server.start();
+    const embeddedUrl = `postgresql://postgres:postgres@${server.getServerConn()}/postgres`;
+    await bootstrap(embeddedUrl);
+    logInfo(`Sandbox: Postgres embebido escuchando en ${server.getServerConn()}${dataDir ? ` (datos en ${dataDir})` : ''}`);
+
+    return {
+      dbUrl: embeddedUrl,
+      stop: async () => {
+        await server.stop();
+        await db.close();
+      }
+    };
+  } catch (error) {
+    await server.stop();
+    await db.close();
+    throw error;
+  }
+};
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { ProfilesConfig, SandboxConfig, SupabaseConfig } from '../types/supabase.js';
+import { SANDBOX_PROFILE } from '../config/env.js';
+import { logInfo } from '../utils/logger.js';
+import { SandboxDatabase, startSandboxDatabase } from './database.js';
+import { SandboxServices } from './services.js';
+
+export interface Sandbox {
+  // Un único perfil, "sandbox", listo para initConnections
+  profiles: ProfilesConfig;
+  stop(): Promise<void>;
+}
+
+// Claves anon y service_role firmadas con el secreto del sandbox, como las de una instancia real
+const signKey = (role: 'anon' | 'service_role', jwtSecret: string): string => {
+  return jwt.sign({ role, iss: 'supabase' }, jwtSecret, { expiresIn: '10y' });
+};
+
+// Arranca la base de datos y los servicios simulados. Con dataDir, la base de datos (subdirectorio db),
+// los archivos de Storage, las Edge Functions y los backups se conservan ahí; sin él, en un directorio
+// temporal que se borra al parar
+export const startSandbox = async (config: Omit<SandboxConfig, 'enabled'> = { dbUrl: '', dataDir: '' }): Promise<Sandbox> => {
+  const baseDir = config.dataDir
+    ? path.resolve(config.dataDir)
+    : fs.mkdtempSync(path.join(os.tmpdir(), 'supafast-sandbox-'));
+  const dirs = {
+    storage: path.join(baseDir, 'storage'),
+    functions: path.join(baseDir, 'functions'),
+    backups: path.join(baseDir, 'backups')
+  };
+  Object.values(dirs).forEach(dir => fs.mkdirSync(dir, { recursive: true }));
+
+  const removeTemporaryDir = () => {
+    if (!config.dataDir) {
+      fs.rmSync(baseDir, { recursive: true, force: true });
+    }
+  };
+
+  let database: SandboxDatabase;
+  try {
+    database = await startSandboxDatabase(config.dbUrl, config.dataDir ? path.join(baseDir, 'db') : null);
+  } catch (error) {
+    removeTemporaryDir();
+    throw error;
+  }
+
+  const jwtSecret = randomBytes(32).toString('hex');
+  const services = new SandboxServices({
+    dbUrl: database.dbUrl,
+    jwtSecret,
+    storageDir: dirs.storage,
+    functionsDir: dirs.functions
+  });
+
+  let url: string;
+  try {
+    url = await services.listen();
+  } catch (error) {
+    await services.close();
+    await database.stop();
+    removeTemporaryDir();
+    throw error;
+  }
+
+  const profile: SupabaseConfig = {
+    name: SANDBOX_PROFILE,
+    url,
+    serviceRoleKey: signKey('service_role', jwtSecret),
+    anonKey: signKey('anon', jwtSecret),
+    dbUrl: database.dbUrl,
+    jwtSecret,
+    functionsDir: dirs.functions,
+    backupDir: dirs.backups,
+    readOnly: false,
+    pool: { max: 10, idleTimeoutMillis: 30000, connectionTimeoutMillis: 10000 }
+  };
+
+  logInfo(`Sandbox listo en ${baseDir}`);
+
+  return {
+    profiles: { defaultProfile: SANDBOX_PROFILE, profiles: { [SANDBOX_PROFILE]: profile } },
+    stop: async () => {
+      await services.close();
+      await database.stop();
+      removeTemporaryDir();
+    }
+  };
+};
@@ -0,0 +1,611 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomBytes, randomUUID, scryptSync } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { Pool } from 'pg';
+import { logError, logInfo } from '../utils/logger.js';
+
+export interface SandboxServicesOptions {
+  dbUrl: string;
+  jwtSecret: string;
+  storageDir: string;
+  functionsDir: string;
+}
+
+interface ServiceRequest {
+  method: string;
+  url: URL;
+  headers: IncomingMessage['headers'];
+  body: Buffer;
+  // Rol del JWT de la petición (apikey o Authorization), ya verificado con el secreto del sandbox
+  role: string;
+}
+
+interface ServiceResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: (request: ServiceRequest, params: string[]) => Promise<ServiceResponse>;
+}
+
+// Error con el cuerpo JSON que devolvería el servicio real, para que supabase-js lo interprete igual
+class ServiceError extends Error {
+  constructor(public status: number, public body: Record<string, unknown>) {
+    super(String(body.msg ?? body.message ?? body.error));
+  }
+}
+
+const authError = (status: number, errorCode: string, msg: string) => {
+  return new ServiceError(status, { code: status, error_code: errorCode, msg });
+};
+
+const storageError = (status: number, error: string, message: string) => {
+  return new ServiceError(status, { statusCode: String(status), error, message });
+};
+
+const iso = (value: Date | null | undefined): string | null => {
+  return value ? value.toISOString() : null;
+};
+
+// Usuario tal y como lo devuelve la API admin de GoTrue
+const toAuthUser = (row: Record<string, any>) => ({
+  id: row.id,
+  aud: row.aud,
+  role: row.role,
+  email: row.email ?? '',
+  phone: row.phone ?? '',
+  email_confirmed_at: iso(row.email_confirmed_at),
+  phone_confirmed_at: iso(row.phone_confirmed_at),
+  confirmed_at: iso(row.email_confirmed_at ?? row.phone_confirmed_at),
+  last_sign_in_at: iso(row.last_sign_in_at),
+  app_metadata: row.raw_app_meta_data ?? {},
+  user_metadata: row.raw_user_meta_data ?? {},
+  identities: [],
+  created_at: iso(row.created_at),
+  updated_at: iso(row.updated_at),
+  is_anonymous: row.is_anonymous
+});
+
+// Nunca se guarda la contraseña en claro, aunque sea un sandbox
+const hashPassword = (password: string): string => {
+  const salt = randomBytes(16).toString('hex');
+  return `scrypt$${salt}$${scryptSync(password, salt, 32).toString('hex')}`;
+};
+
+const parseJson = (request: ServiceRequest): Record<string, any> => {
+  if (request.body.length === 0) {
+    return {};
+  }
+  try {
+    return JSON.parse(request.body.toString('utf8'));
+  } catch {
+    throw new ServiceError(400, { code: 400, error_code: 'bad_json', msg: 'Could not parse request body as JSON' });
+  }
+};
+
+// Servicios de Supabase simulados en el propio proceso: la API admin de GoTrue (/auth/v1), Storage
+// (/storage/v1) y la invocación de Edge Functions (/functions/v1), con las rutas y los formatos de
+// respuesta y de error que usa supabase-js. Los usuarios y los metadatos de los objetos se guardan en
+// la base de datos del sandbox (auth.users, storage.*); el contenido de los archivos, en storageDir
+export class SandboxServices {
+  private httpServer: HttpServer | null = null;
+  private pool: Pool;
+  private url = '';
+  private routes: Route[] = [
+    { method: 'GET', pattern: /^\/auth\/v1\/health$/, handle: async () => ({ body: { version: 'sandbox', name: 'GoTrue', description: 'GoTrue simulado por el sandbox' } }) },
+    { method: 'GET', pattern: /^\/auth\/v1\/admin\/users$/, handle: req => this.listUsers(req) },
+    { method: 'POST', pattern: /^\/auth\/v1\/admin\/users$/, handle: req => this.createUser(req) },
+    { method: 'GET', pattern: /^\/auth\/v1\/admin\/users\/([^/]+)$/, handle: (_req, [id]) => this.getUser(id!) },
+    { method: 'PUT', pattern: /^\/auth\/v1\/admin\/users\/([^/]+)$/, handle: (req, [id]) => this.updateUser(req, id!) },
+    { method: 'DELETE', pattern: /^\/auth\/v1\/admin\/users\/([^/]+)$/, handle: (_req, [id]) => this.deleteUser(id!) },
+    { method: 'POST', pattern: /^\/auth\/v1\/admin\/generate_link$/, handle: req => this.generateLink(req) },
+    { method: 'GET', pattern: /^\/storage\/v1\/status$/, handle: async () => ({ body: {} }) },
+    { method: 'GET', pattern: /^\/storage\/v1\/bucket$/, handle: () => this.listBuckets() },
+    { method: 'POST', pattern: /^\/storage\/v1\/bucket$/, handle: req => this.createBucket(req) },
+    { method: 'GET', pattern: /^\/storage\/v1\/bucket\/([^/]+)$/, handle: (_req, [id]) => this.getBucket(id!) },
+    { method: 'DELETE', pattern: /^\/storage\/v1\/bucket\/([^/]+)$/, handle: (_req, [id]) => this.deleteBucket(id!) },
+    { method: 'POST', pattern: /^\/storage\/v1\/object\/list\/([^/]+)$/, handle: (req, [bucket]) => this.listObjects(req, bucket!) },
+    { method: 'POST', pattern: /^\/storage\/v1\/object\/([^/]+)\/(.+)$/, handle: (req, [bucket, name]) => this.uploadObject(req, bucket!, name!) },
+    { method: 'PUT', pattern: /^\/storage\/v1\/object\/([^/]+)\/(.+)$/, handle: (req, [bucket, name]) => this.uploadObject(req, bucket!, name!) },
+    { method: 'GET', pattern: /^\/storage\/v1\/object\/(?:authenticated\/)?([^/]+)\/(.+)$/, handle: (_req, [bucket, name]) => this.downloadObject(bucket!, name!) },
+    { method: 'DELETE', pattern: /^\/storage\/v1\/object\/([^/]+)$/, handle: (req, [bucket]) => this.deleteObjects(req, bucket!) },
+    { method: '*', pattern: /^\/functions\/v1\/([^/]+)$/, handle: (req, [name]) => this.invokeFunction(req, name!) }
+  ];
+
+  constructor(private options: SandboxServicesOptions) {
+    this.pool = new Pool({ connectionString: options.dbUrl, max: 2 });
+    this.pool.on('error', (error) => {
+      logError(error, 'sandbox_services');
+    });
+  }
+
+  // Escucha en un puerto libre de 127.0.0.1 y devuelve la URL base que usará supabase-js
+  async listen(): Promise<string> {
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logError(error as Error, 'sandbox_services');
+        this.send(res, { status: 500, body: { message: 'Internal server error' } });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(0, '127.0.0.1', () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    const { port } = this.httpServer.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}`;
+    logInfo(`Sandbox: servicios de Auth, Storage y Functions simulados en ${this.url}`);
+    return this.url;
+  }
+
+  async close(): Promise<void> {
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+    await this.pool.end();
+  }
+
+  private send(res: ServerResponse, response: ServiceResponse): void {
+    if (res.headersSent) return;
+    const isBinary = Buffer.isBuffer(response.body);
+    res.writeHead(response.status ?? 200, {
+      'Content-Type': isBinary ? 'application/octet-stream' : 'application/json',
+      ...response.headers
+    });
+    res.end(isBinary ? response.body as Buffer : JSON.stringify(response.body));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const url = new URL(req.url || '/', this.url);
+    const method = req.method || 'GET';
+    const match = this.routes
+      .map(route => ({ route, params: route.method === '*' || route.method === method ? url.pathname.match(route.pattern) : null }))
+      .find(candidate => candidate.params !== null);
+
+    if (!match) {
+      this.send(res, { status: 404, body: { message: `Ruta no simulada en el sandbox: ${method} ${url.pathname}` } });
+      return;
+    }
+
+    try {
+      const request: ServiceRequest = {
+        method,
+        url,
+        headers: req.headers,
+        body: Buffer.concat(chunks),
+        role: this.verifyToken(req, url.pathname)
+      };
+      const params = match.params!.slice(1).map(param => decodeURIComponent(param));
+      this.send(res, await match.route.handle(request, params));
+    } catch (error) {
+      if (error instanceof ServiceError) {
+        this.send(res, { status: error.status, body: error.body });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  // Como en Supabase: cualquier JWT firmado con el secreto de la instancia, y service_role para la API admin
+  private verifyToken(req: IncomingMessage, pathname: string): string {
+    const header = req.headers.authorization;
+    const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : req.headers.apikey;
+    const isAuth = pathname.startsWith('/auth/');
+
+    let role: unknown;
+    try {
+      role = (jwt.verify(String(token ?? ''), this.options.jwtSecret) as jwt.JwtPayload).role;
+    } catch (error) {
+      const message = `invalid JWT: ${(error as Error).message}`;
+      throw isAuth ? authError(401, 'bad_jwt', message) : storageError(403, 'Unauthorized', message);
+    }
+
+    if (isAuth && role !== 'service_role') {
+      throw authError(403, 'not_admin', 'User not allowed');
+    }
+    return String(role);
+  }
+
+  // --- Auth (GoTrue admin) ---
+
+  private async findUser(id: string): Promise<Record<string, any>> {
+    const result = await this.pool.query(
+      'SELECT * FROM auth.users WHERE id::text = $1',
+      [id]
+    );
+    const user = result.rows[0];
+    if (!user) {
+      throw authError(404, 'user_not_found', 'User not found');
+    }
+    return user;
+  }
+
+  private async assertEmailAvailable(email: string, exceptId?: string): Promise<void> {
+    const result = await this.pool.query(
+      'SELECT 1 FROM auth.users WHERE lower(email) = lower($1) AND ($2::uuid IS NULL OR id <> $2::uuid)',
+      [email, exceptId ?? null]
+    );
+    if (result.rows.length > 0) {
+      throw authError(422, 'email_exists', 'A user with this email address has already been registered');
+    }
+  }
+
+  private assertPassword(password: unknown): void {
+    if (typeof password === 'string' && password.length < 6) {
+      throw authError(422, 'weak_password', 'Password should be at least 6 characters.');
+    }
+  }
+
+  private async insertUser(attributes: Record<string, any>): Promise<Record<string, any>> {
+    const { email, phone, password, email_confirm, phone_confirm, user_metadata, app_metadata, role } = attributes;
+    if (!email && !phone) {
+      throw authError(400, 'validation_failed', 'Unable to validate email address: invalid format');
+    }
+    if (email) {
+      await this.assertEmailAvailable(email);
+    }
+    this.assertPassword(password);
+
+    const result = await this.pool.query(
+      `INSERT INTO auth.users (
+        id, aud, role, email, phone, encrypted_password, email_confirmed_at, phone_confirmed_at,
+        raw_app_meta_data, raw_user_meta_data
+      ) VALUES (
+        $1, 'authenticated', $2, $3, $4, $5,
+        CASE WHEN $6 THEN now() END, CASE WHEN $7 THEN now() END, $8, $9
+      ) RETURNING *`,
+      [
+        randomUUID(),
+        role || 'authenticated',
+        email ? String(email).toLowerCase() : null,
+        phone || null,
+        typeof password === 'string' ? hashPassword(password) : null,
+        email_confirm === true,
+        phone_confirm === true,
+        JSON.stringify({ provider: email ? 'email' : 'phone', providers: [email ? 'email' : 'phone'], ...app_metadata }),
+        JSON.stringify(user_metadata ?? {})
+      ]
+    );
+    return result.rows[0];
+  }
+
+  private async listUsers(request: ServiceRequest): Promise<ServiceResponse> {
+    const page = Math.max(1, parseInt(request.url.searchParams.get('page') || '1', 10) || 1);
+    const perPage = Math.max(1, parseInt(request.url.searchParams.get('per_page') || '50', 10) || 50);
+
+    const total = Number((await this.pool.query('SELECT count(*) AS total FROM auth.users')).rows[0].total);
+    const result = await this.pool.query(
+      'SELECT * FROM auth.users ORDER BY created_at, id LIMIT $1 OFFSET $2',
+      [perPage, (page - 1) * perPage]
+    );
+
+    // Cabecera Link de GoTrue, de la que supabase-js saca nextPage y lastPage
+    const lastPage = Math.max(1, Math.ceil(total / perPage));
+    const links = [
+      ...(page < lastPage ? [`</admin/users?page=${page + 1}&per_page=${perPage}>; rel="next"`] : []),
+      `</admin/users?page=${lastPage}&per_page=${perPage}>; rel="last"`
+    ];
+
+    return {
+      headers: { 'x-total-count': String(total), link: links.join(', ') },
+      body: { users: result.rows.map(toAuthUser), aud: 'authenticated' }
+    };
+  }
+
+  private async createUser(request: ServiceRequest): Promise<ServiceResponse> {
+    return { body: toAuthUser(await this.insertUser(parseJson(request))) };
+  }
+
+  private async getUser(id: string): Promise<ServiceResponse> {
+    return { body: toAuthUser(await this.findUser(id)) };
+  }
+
+  // user_metadata y app_metadata se combinan con los existentes, como en GoTrue
+  private async updateUser(request: ServiceRequest, id: string): Promise<ServiceResponse> {
+    await this.findUser(id);
+    const { email, phone, password, email_confirm, user_metadata, app_metadata, role } = parseJson(request);
+    if (email) {
+      await this.assertEmailAvailable(email, id);
+    }
+    this.assertPassword(password);
+
+    const result = await this.pool.query(
+      `UPDATE auth.users SET
+        email = coalesce($2, email),
+        phone = coalesce($3, phone),
+        encrypted_password = coalesce($4, encrypted_password),
+        email_confirmed_at = CASE WHEN $5::boolean IS NULL THEN email_confirmed_at
+                                  WHEN $5 THEN coalesce(email_confirmed_at, now()) END,
+        raw_user_meta_data = raw_user_meta_data || $6::jsonb,
+        raw_app_meta_data = raw_app_meta_data || $7::jsonb,
+        role = coalesce($8, role),
+        updated_at = now()
+      WHERE id::text = $1
+      RETURNING *`,
+      [
+        id,
+        email ? String(email).toLowerCase() : null,
+        phone || null,
+        typeof password === 'string' ? hashPassword(password) : null,
+        typeof email_confirm === 'boolean' ? email_confirm : null,
+        JSON.stringify(user_metadata ?? {}),
+        JSON.stringify(app_metadata ?? {}),
+        role || null
+      ]
+    );
+    return { body: toAuthUser(result.rows[0]) };
+  }
+
+  private async deleteUser(id: string): Promise<ServiceResponse> {
+    await this.findUser(id);
+    try {
+      await this.pool.query('DELETE FROM auth.users WHERE id::text = $1', [id]);
+    } catch (error) {
+      // Una clave foránea sin ON DELETE que apunta al usuario: GoTrue responde igual
+      logError(error as Error, 'sandbox_services');
+      throw authError(500, 'unexpected_failure', 'Database error deleting user');
+    }
+    return { body: {} };
+  }
+
+  // Sin correo: el enlace se devuelve en la respuesta, como hace GoTrue con la API admin
+  private async generateLink(request: ServiceRequest): Promise<ServiceResponse> {
+    const { type, email, password, data, redirect_to } = parseJson(request);
+    const existing = email
+      ? (await this.pool.query('SELECT * FROM auth.users WHERE lower(email) = lower($1)', [email])).rows[0]
+      : undefined;
+
+    let user: Record<string, any>;
+    switch (type) {
+      case 'recovery':
+      case 'magiclink':
+        if (!existing) {
+          throw authError(404, 'user_not_found', 'User with this email not found');
+        }
+        user = existing;
+        break;
+      case 'signup':
+      case 'invite':
+        if (existing) {
+          throw authError(422, 'email_exists', 'A user with this email address has already been registered');
+        }
+        user = await this.insertUser({ email, password, user_metadata: data });
+        break;
+      default:
+        throw authError(400, 'validation_failed', `Invalid link type: ${type}`);
+    }
+
+    const token = randomBytes(16).toString('hex');
+    const hashedToken = createHash('sha224').update(`${email}${token}`).digest('hex');
+    const actionLink = new URL(`${this.url}/auth/v1/verify`);
+    actionLink.searchParams.set('token', hashedToken);
+    actionLink.searchParams.set('type', type);
+    if (redirect_to) {
+      actionLink.searchParams.set('redirect_to', redirect_to);
+    }
+
+    return {
+      body: {
+        ...toAuthUser(user),
+        action_link: actionLink.toString(),
+        email_otp: String(parseInt(token.slice(0, 8), 16) % 1_000_000).padStart(6, '0'),
+        hashed_token: hashedToken,
+        redirect_to: redirect_to ?? this.url,
+        verification_type: type
+      }
+    };
+  }
+
+  // --- Storage ---
+
+  private async findBucket(id: string): Promise<Record<string, any>> {
+    const bucket = (await this.pool.query('SELECT * FROM storage.buckets WHERE id = $1', [id])).rows[0];
+    if (!bucket) {
+      throw storageError(404, 'Bucket not found', 'Bucket not found');
+    }
+    return bucket;
+  }
+
+  // Ruta en disco de un objeto; un nombre con ".." no puede salir del directorio del bucket
+  private objectPath(bucket: string, name: string): string {
+    const bucketDir = path.resolve(this.options.storageDir, bucket);
+    const filePath = path.resolve(bucketDir, name);
+    if (!filePath.startsWith(`${bucketDir}${path.sep}`)) {
+      throw storageError(400, 'InvalidKey', `Invalid key: ${name}`);
+    }
+    return filePath;
+  }
+
+  private async listBuckets(): Promise<ServiceResponse> {
+    return { body: (await this.pool.query('SELECT * FROM storage.buckets ORDER BY name')).rows };
+  }
+
+  private async getBucket(id: string): Promise<ServiceResponse> {
+    return { body: await this.findBucket(id) };
+  }
+
+  private async createBucket(request: ServiceRequest): Promise<ServiceResponse> {
+    const { id, name, public: isPublic, file_size_limit, allowed_mime_types } = parseJson(request);
+    const bucketId = id ?? name;
+    if (!bucketId) {
+      throw storageError(400, 'Invalid Input', 'body must have required property \'name\'');
+    }
+
+    const exists = await this.pool.query('SELECT 1 FROM storage.buckets WHERE id = $1', [bucketId]);
+    if (exists.rows.length > 0) {
+      throw storageError(409, 'Duplicate', 'The resource already exists');
+    }
+
+    await this.pool.query(
+      `INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [bucketId, name ?? bucketId, isPublic === true, file_size_limit ?? null, allowed_mime_types ?? null]
+    );
+    return { body: { name: bucketId } };
+  }
+
+  private async deleteBucket(id: string): Promise<ServiceResponse> {
+    await this.findBucket(id);
+    const objects = await this.pool.query('SELECT 1 FROM storage.objects WHERE bucket_id = $1 LIMIT 1', [id]);
+    if (objects.rows.length > 0) {
+      throw storageError(409, 'InvalidRequest', 'The bucket you tried to delete is not empty');
+    }
+    await this.pool.query('DELETE FROM storage.buckets WHERE id = $1', [id]);
+    return { body: { message: 'Successfully deleted' } };
+  }
+
+  // Como Storage: sólo el primer nivel bajo el prefijo; las subcarpetas aparecen con id null
+  private async listObjects(request: ServiceRequest, bucket: string): Promise<ServiceResponse> {
+    await this.findBucket(bucket);
+    const { prefix = '', limit = 100, offset = 0, search = '' } = parseJson(request);
+    const folder = String(prefix).replace(/^\/+|\/+$/g, '');
+    const base = folder ? `${folder}/` : '';
+
+    const result = await this.pool.query(
+      'SELECT * FROM storage.objects WHERE bucket_id = $1 AND starts_with(name, $2) ORDER BY name',
+      [bucket, base]
+    );
+
+    const entries = new Map<string, Record<string, unknown>>();
+    for (const object of result.rows) {
+      const rest = object.name.slice(base.length) as string;
+      const [first, ...nested] = rest.split('/');
+      if (!first || !first.includes(search) || entries.has(first)) {
+        continue;
+      }
+      entries.set(first, nested.length > 0
+        ? { name: first, id: null, updated_at: null, created_at: null, last_accessed_at: null, metadata: null }
+        : {
+          name: first,
+          id: object.id,
+          updated_at: iso(object.updated_at),
+          created_at: iso(object.created_at),
+          last_accessed_at: iso(object.last_accessed_at),
+          metadata: object.metadata
+        });
+    }
+
+    return { body: Array.from(entries.values()).slice(Number(offset), Number(offset) + Number(limit)) };
+  }
+
+  private async uploadObject(request: ServiceRequest, bucket: string, name: string): Promise<ServiceResponse> {
+    const bucketRow = await this.findBucket(bucket);
+    const filePath = this.objectPath(bucket, name);
+    const mimetype = String(request.headers['content-type'] || 'application/octet-stream');
+
+    if (bucketRow.file_size_limit !== null && request.body.length > Number(bucketRow.file_size_limit)) {
+      throw storageError(413, 'Payload too large', 'The object exceeded the maximum allowed size');
+    }
+    const allowed: string[] | null = bucketRow.allowed_mime_types;
+    if (allowed && allowed.length > 0 && !allowed.some(type => mimetype.split(';')[0] === type)) {
+      throw storageError(415, 'invalid_mime_type', `mime type ${mimetype} is not supported`);
+    }
+
+    // PUT es update(): el objeto tiene que existir; POST sólo lo sobrescribe con x-upsert
+    const existing = (await this.pool.query(
+      'SELECT id FROM storage.objects WHERE bucket_id = $1 AND name = $2',
+      [bucket, name]
+    )).rows[0];
+    if (request.method === 'PUT' && !existing) {
+      throw storageError(404, 'not_found', 'Object not found');
+    }
+    if (request.method === 'POST' && existing && request.headers['x-upsert'] !== 'true') {
+      throw storageError(409, 'Duplicate', 'The resource already exists');
+    }
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, request.body);
+
+    const metadata = {
+      eTag: `"${createHash('md5').update(request.body).digest('hex')}"`,
+      size: request.body.length,
+      mimetype,
+      cacheControl: String(request.headers['cache-control'] || 'no-cache'),
+      lastModified: new Date().toISOString(),
+      contentLength: request.body.length,
+      httpStatusCode: 200
+    };
+    const result = await this.pool.query(
+      `INSERT INTO storage.objects (bucket_id, name, metadata) VALUES ($1, $2, $3)
+       ON CONFLICT (bucket_id, name) DO UPDATE SET metadata = EXCLUDED.metadata, updated_at = now()
+       RETURNING id`,
+      [bucket, name, JSON.stringify(metadata)]
+    );
+
+    return { body: { Id: result.rows[0].id, Key: `${bucket}/${name}` } };
+  }
+
+  private async downloadObject(bucket: string, name: string): Promise<ServiceResponse> {
+    const object = (await this.pool.query(
+      'SELECT metadata FROM storage.objects WHERE bucket_id = $1 AND name = $2',
+      [bucket, name]
+    )).rows[0];
+    const filePath = this.objectPath(bucket, name);
+    if (!object || !fs.existsSync(filePath)) {
+      throw storageError(404, 'not_found', 'Object not found');
+    }
+
+    await this.pool.query(
+      'UPDATE storage.objects SET last_accessed_at = now() WHERE bucket_id = $1 AND name = $2',
+      [bucket, name]
+    );
+    return {
+      headers: { 'Content-Type': object.metadata?.mimetype ?? 'application/octet-stream' },
+      body: fs.readFileSync(filePath)
+    };
+  }
+
+  private async deleteObjects(request: ServiceRequest, bucket: string): Promise<ServiceResponse> {
+    await this.findBucket(bucket);
+    const { prefixes = [] } = parseJson(request);
+
+    const result = await this.pool.query(
+      'DELETE FROM storage.objects WHERE bucket_id = $1 AND name = ANY($2::text[]) RETURNING *',
+      [bucket, prefixes]
+    );
+    for (const object of result.rows) {
+      fs.rmSync(this.objectPath(bucket, object.name), { force: true });
+    }
+    return { body: result.rows };
+  }
+
+  // --- Edge Functions ---
+
+  // El sandbox no ejecuta Deno: una función desplegada en functionsDir responde con el eco de la petición
+  private async invokeFunction(request: ServiceRequest, name: string): Promise<ServiceResponse> {
+    const indexPath = path.join(this.options.functionsDir, name, 'index.ts');
+    if (!/^[a-zA-Z0-9_-]+$/.test(name) || !fs.existsSync(indexPath)) {
+      throw new ServiceError(404, { code: 'NOT_FOUND', message: 'Requested function was not found' });
+    }
+
+    const contentType = String(request.headers['content-type'] || '');
+    const text = request.body.toString('utf8');
+    return {
+      body: {
+        function: name,
+        method: request.method,
+        payload: contentType.startsWith('application/json') && text ? JSON.parse(text) : text || null,
+        role: request.role
+      }
+    };
+  }
+}
@@ -4,30 +4,86 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { 
   CallToolRequestSchema, 
   ListToolsRequestSchema,
-  Tool 
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  SetLevelRequestSchema,
+  LoggingLevel,
+  LoggingLevelSchema
 } from '@modelcontextprotocol/sdk/types.js';
-import { initConnection, closeConnection } from './utils/connection.js';
-import { SupabaseConfig } from './types/supabase.js';
-import { logger, logError, logInfo } from './utils/logger.js';
-import { loadConfig, validateConfig } from './config/env.js';
+import { randomUUID } from 'crypto';
+import { closeConnections, reloadConnections, getConnection, resolveProjectName } from './utils/connection.js';
+import { runWithContext, getRequestContext, RequestContext, SessionState } from './utils/context.js';
+import { validateInput } from './utils/validation.js';
+import { isErrorResult, toMCPError, SupabaseMCPError } from './utils/errors.js';
+import { initAuditLog, recordAudit } from './utils/audit.js';
+import { ProjectArgSchema } from './types/mcp.js';
+import { TransportConfig, AccessPolicyConfig, ToolTimeoutConfig } from './types/supabase.js';
+import { logger, logError, logInfo, configureLogger, addLogListener, LogEntry, LogLevel } from './utils/logger.js';
+import { describeConfigChanges } from './config/loader.js';
+import { startRuntime } from './runtime.js';
+import { AccessPolicy, AccessGuard } from './utils/policy.js';
+import { createCallSignal, raceSignal } from './utils/cancellation.js';
+import { ProgressSender } from './utils/progress.js';
+import { initResultLimits, closeAllCursors } from './utils/pagination.js';
+import { ResultFormat, TextContent, toToolContent } from './utils/format.js';
+import { HttpTransportServer } from './transports/http.js';
 
 // Importar todas las herramientas
-import { authTools, handleCreateAuthUser, handleListAuthUsers, handleDeleteAuthUser, handleUpdateAuthUser, handleGetAuthUser, handleResetUserPassword } from './tools/auth.js';
-import { databaseTools, handleDatabaseQuery, handleCreateTable, handleListTables, handleDescribeTable, handleDropTable, handleCreateIndex } from './tools/database.js';
-import { migrationTools, handleCreateMigration, handleListMigrations, handleApplyMigration, handleRollbackMigration, handleGetMigrationStatus } from './tools/migrations.js';
-import { storageTools, handleCreateBucket, handleListBuckets, handleUploadFile, handleDownloadFile, handleDeleteFile, handleListFiles } from './tools/storage.js';
-import { rlsTools, handleCreateRLSPolicy, handleListRLSPolicies, handleDeleteRLSPolicy, handleEnableRLS, handleDisableRLS } from './tools/rls.js';
-import { edgeFunctionTools, handleCreateEdgeFunction, handleListEdgeFunctions, handleDeleteEdgeFunction, handleInvokeEdgeFunction, handleSetSecret, handleDeleteSecret, handleListSecrets } from './tools/edge-functions.js';
-import { realtimeTools, handleCreateRealtimeSubscription, handleListRealtimeSubscriptions, handleDeleteRealtimeSubscription } from './tools/realtime.js';
-import { adminTools, handleGetDatabaseStats, handleGetUserStats, handleBackupDatabase, handleRestoreDatabase, handleGetSystemInfo } from './tools/admin.js';
-import { logsTools, handleGetLogs, handleGetMetrics, handleGetErrorLogs } from './tools/logs.js';
+import { ToolRegistry } from './tools/registry.js';
+import { allTools } from './tools/index.js';
+import { resourceTemplates, handleListResources, handleReadResource } from './resources/supabase.js';
+import { handleListPrompts, handleGetPrompt } from './prompts/supabase.js';
+
+// Niveles de winston → niveles de notificación MCP (RFC 5424)
+const MCP_LOG_LEVELS: Record<LogLevel, LoggingLevel> = {
+  error: 'error',
+  warn: 'warning',
+  info: 'info',
+  debug: 'debug'
+};
 
 class SupabaseMCPServer {
-  private server: Server;
-  private allTools: Tool[];
+  private server: Server | null = null;
+  private httpTransport: HttpTransportServer | null = null;
+  private registry: ToolRegistry;
+  private policy: AccessPolicy;
+  private timeouts: ToolTimeoutConfig = { defaultMs: 0, tools: {} };
+
+  constructor(policyConfig: AccessPolicyConfig = { readOnly: false, dryRun: false, confirmDestructive: true, allowedTools: [], deniedTools: [], allowedSchemas: [] }) {
+    // Registrar todas las herramientas
+    this.registry = new ToolRegistry(allTools);
+
+    this.policy = this.createPolicy(policyConfig);
+  }
+
+  private createPolicy(policyConfig: AccessPolicyConfig): AccessPolicy {
+    const policy = new AccessPolicy(policyConfig);
+    const unknownPatterns = policy.findUnknownToolPatterns(this.registry.names());
+    if (unknownPatterns.length > 0) {
+      logger.warn(`La política de acceso menciona herramientas inexistentes: ${unknownPatterns.join(', ')}`);
+    }
+    return policy;
+  }
+
+  // Las peticiones siguientes (de todas las sesiones abiertas) usan ya la nueva política
+  setPolicy(policyConfig: AccessPolicyConfig): void {
+    this.policy = this.createPolicy(policyConfig);
+  }
 
-  constructor() {
-    this.server = new Server(
+  setTimeouts(timeouts: ToolTimeoutConfig): void {
+    const unknownTools = Object.keys(timeouts.tools).filter(name => !this.registry.has(name));
+    if (unknownTools.length > 0) {
+      logger.warn(`Los tiempos máximos mencionan herramientas inexistentes: ${unknownTools.join(', ')}`);
+    }
+    this.timeouts = timeouts;
+  }
+
+  // Cada transporte necesita su propia instancia de Server (en HTTP, una por sesión)
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'supabase-mcp-server',
         version: '1.0.0',
@@ -35,180 +91,250 @@ class SupabaseMCPServer {
       },
       {
         capabilities: {
-          tools: {}
+          tools: {},
+          resources: {},
+          prompts: {},
+          logging: {}
         }
       }
     );
 
-    // Combinar todas las herramientas
-    this.allTools = [
-      ...authTools,
-      ...databaseTools,
-      ...migrationTools,
-      ...storageTools,
-      ...rlsTools,
-      ...edgeFunctionTools,
-      ...realtimeTools,
-      ...adminTools,
-      ...logsTools
-    ];
-
-    this.setupHandlers();
+    const session: SessionState = {};
+    this.setupHandlers(server, session);
+
+    const removeLogListener = addLogListener(entry => this.forwardLog(server, session, entry));
+    server.onclose = removeLogListener;
+    return server;
   }
 
-  private setupHandlers(): void {
+  // Envía la entrada como notifications/message si la sesión la ha pedido. Los logs de una
+  // petición sólo van a la sesión que la hizo; los generales, a todas las suscritas
+  private forwardLog(server: Server, session: SessionState, entry: LogEntry): void {
+    if (!session.logLevel || (entry.session && entry.session !== session)) {
+      return;
+    }
+    const level = MCP_LOG_LEVELS[entry.level];
+    if (LoggingLevelSchema.options.indexOf(level) < LoggingLevelSchema.options.indexOf(session.logLevel)) {
+      return;
+    }
+    server.sendLoggingMessage({
+      level,
+      logger: 'supabase-mcp-server',
+      data: { message: entry.message, ...(entry.requestId && { requestId: entry.requestId }) }
+    }).catch(() => {
+      // La sesión puede estar cerrándose; no hay a dónde informar del fallo
+    });
+  }
+
+  private setupHandlers(server: Server, session: SessionState): void {
+    // Sustituye al handler por defecto del SDK, que enviaría todos los niveles antes de que el cliente elija uno
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      session.logLevel = request.params.level;
+      logInfo(`Nivel de log de la sesión: ${request.params.level}`);
+      return {};
+    });
+
     // Handler para listar herramientas
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       logInfo('Solicitando lista de herramientas');
       return {
-        tools: this.allTools
+        tools: this.registry.listTools(definition => this.policy.isToolAllowed(definition))
       };
     });
 
     // Handler para ejecutar herramientas
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    // Toda la llamada, incluidos los errores previos al handler, comparte el mismo ID de correlación
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
-      
-      logInfo(`Ejecutando herramienta: ${name}`);
-      
-      try {
-        switch (name) {
-          // Herramientas de autenticación
-          case 'create_auth_user':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateAuthUser(args)) }] };
-          case 'list_auth_users':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListAuthUsers(args)) }] };
-          case 'delete_auth_user':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDeleteAuthUser(args)) }] };
-          case 'update_auth_user':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleUpdateAuthUser(args)) }] };
-          case 'get_auth_user':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetAuthUser(args)) }] };
-          case 'reset_user_password':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleResetUserPassword(args)) }] };
-
-          // Herramientas de base de datos
-          case 'database_query':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDatabaseQuery(args)) }] };
-          case 'create_table':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateTable(args)) }] };
-          case 'list_tables':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListTables(args)) }] };
-          case 'describe_table':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDescribeTable(args)) }] };
-          case 'drop_table':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDropTable(args)) }] };
-          case 'create_index':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateIndex(args)) }] };
-
-          // Herramientas de migraciones
-          case 'create_migration':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateMigration(args)) }] };
-          case 'list_migrations':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListMigrations()) }] };
-          case 'apply_migration':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleApplyMigration(args)) }] };
-          case 'rollback_migration':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleRollbackMigration(args)) }] };
-          case 'get_migration_status':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetMigrationStatus()) }] };
-
-          // Herramientas de storage
-          case 'create_storage_bucket':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateBucket(args)) }] };
-          case 'list_storage_buckets':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListBuckets()) }] };
-          case 'upload_file':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleUploadFile(args)) }] };
-          case 'download_file':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDownloadFile(args)) }] };
-          case 'delete_file':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDeleteFile(args)) }] };
-          case 'list_files':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListFiles(args)) }] };
-
-          // Herramientas de RLS
-          case 'create_rls_policy':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateRLSPolicy(args)) }] };
-          case 'list_rls_policies':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListRLSPolicies(args)) }] };
-          case 'delete_rls_policy':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDeleteRLSPolicy(args)) }] };
-          case 'enable_rls':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleEnableRLS(args)) }] };
-          case 'disable_rls':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDisableRLS(args)) }] };
-
-          // Herramientas de Edge Functions
-          case 'create_edge_function':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateEdgeFunction(args)) }] };
-          case 'list_edge_functions':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListEdgeFunctions()) }] };
-          case 'delete_edge_function':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDeleteEdgeFunction(args)) }] };
-          case 'invoke_edge_function':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleInvokeEdgeFunction(args)) }] };
-          case 'set_secret':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleSetSecret(args)) }] };
-          case 'delete_secret':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDeleteSecret(args)) }] };
-          case 'list_secrets':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListSecrets()) }] };
-
-          // Herramientas de Realtime
-          case 'create_realtime_subscription':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateRealtimeSubscription(args)) }] };
-          case 'list_realtime_subscriptions':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListRealtimeSubscriptions()) }] };
-          case 'delete_realtime_subscription':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDeleteRealtimeSubscription(args)) }] };
-
-          // Herramientas de administración
-          case 'get_database_stats':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetDatabaseStats()) }] };
-          case 'get_user_stats':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetUserStats()) }] };
-          case 'backup_database':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleBackupDatabase(args)) }] };
-          case 'restore_database':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleRestoreDatabase(args)) }] };
-          case 'get_system_info':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetSystemInfo()) }] };
-
-          // Herramientas de logs
-          case 'get_logs':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetLogs(args)) }] };
-          case 'get_metrics':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetMetrics(args)) }] };
-          case 'get_error_logs':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetErrorLogs(args)) }] };
-
-          default:
-            throw new Error(`Herramienta desconocida: ${name}`);
+      const { signal, dispose } = createCallSignal(name, extra.signal, this.timeouts.tools[name] ?? this.timeouts.defaultMs);
+      const progressToken = request.params._meta?.progressToken;
+      const sendProgress: ProgressSender | undefined = progressToken !== undefined
+        ? (update) => {
+          extra.sendNotification({ method: 'notifications/progress', params: { progressToken, ...update } }).catch(() => {
+            // Si la sesión se ha cerrado, el progreso ya no le interesa a nadie
+          });
         }
-      } catch (error) {
-        logError(error as Error, `tool_${name}`);
-        return { 
-          content: [{ 
-            type: 'text', 
-            text: JSON.stringify({ 
-              success: false, 
-              error: (error as Error).message 
-            }) 
-          }] 
-        };
+        : undefined;
+      try {
+        return await runWithContext(
+          { requestId: randomUUID(), signal, sendProgress, session },
+          () => this.callTool(session, name, args, signal)
+        );
+      } finally {
+        dispose();
       }
     });
+
+    // Handlers de recursos: esquema, migraciones, buckets y código de Edge Functions
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const resources = await this.runInContext(session, undefined, (context) => {
+        return handleListResources(this.createAccessGuard(context));
+      });
+      return { resources };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      logInfo(`Leyendo recurso: ${uri}`);
+      const contents = await this.runInContext(session, undefined, (context) => {
+        return handleReadResource(uri, this.createAccessGuard(context));
+      });
+      return { contents };
+    });
+
+    // Handlers de prompts: plantillas de flujos habituales rellenadas con datos en vivo
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: handleListPrompts() };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      logInfo(`Generando prompt: ${name}`);
+      return this.runInContext(session, undefined, (context) => {
+        return handleGetPrompt(name, args ?? {}, this.createAccessGuard(context));
+      });
+    });
   }
 
-  async start(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    logInfo('Servidor MCP de Supabase iniciado');
+  private async callTool(
+    session: SessionState,
+    name: string,
+    args: Record<string, unknown> | undefined,
+    signal: AbortSignal
+  ) {
+    logInfo(`Ejecutando herramienta: ${name}`);
+    
+    const startedAt = Date.now();
+    let instance: string | null = null;
+    
+    try {
+      const { project } = validateInput(ProjectArgSchema, args ?? {});
+      const result = await this.runInContext(session, project, (context) => {
+        instance = resolveProjectName();
+        return raceSignal(this.registry.call(name, args, (definition, validatedArgs) => {
+          this.policy.checkToolCall(definition, validatedArgs, context.readOnly === true);
+        }), signal);
+      });
+      this.auditToolCall(name, args, instance, startedAt, isErrorResult(result) ? result.error : undefined);
+      // Los handlers devuelven sus fallos como resultado; el cliente los recibe marcados con isError
+      return {
+        content: this.toContent(name, result, args?.format as ResultFormat | undefined),
+        ...(isErrorResult(result) && { isError: true })
+      };
+    } catch (error) {
+      // Errores previos al handler (validación, política de acceso, herramienta desconocida...),
+      // cancelación del cliente o tiempo máximo agotado
+      const mcpError = toMCPError(error);
+      logError(mcpError, `tool_${name}`);
+      this.auditToolCall(name, args, instance, startedAt, mcpError);
+      return { 
+        content: [{ 
+          type: 'text', 
+          text: JSON.stringify({ 
+            success: false, 
+            error: mcpError
+          }) 
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // Las herramientas tabulares pueden devolver sus filas como markdown, CSV o NDJSON; el resto, JSON
+  private toContent(name: string, result: unknown, format: ResultFormat | undefined): TextContent[] {
+    const resultItems = this.registry.get(name)?.resultItems;
+    if (!resultItems || isErrorResult(result) || typeof result !== 'object' || result === null) {
+      return [{ type: 'text', text: JSON.stringify(result) }];
+    }
+    const record = result as Record<string, unknown>;
+    const itemsKey = typeof resultItems === 'function' ? resultItems(record) : resultItems;
+    return itemsKey ? toToolContent(record, itemsKey, format) : [{ type: 'text', text: JSON.stringify(result) }];
+  }
+
+  // Ejecuta fn con el contexto de la petición: sesión, proyecto y modo sólo lectura efectivo
+  private runInContext<T>(
+    session: SessionState,
+    project: string | undefined,
+    fn: (context: RequestContext) => Promise<T>
+  ): Promise<T> {
+    const parent = getRequestContext();
+    const context: RequestContext = {
+      requestId: parent?.requestId ?? randomUUID(),
+      signal: parent?.signal,
+      sendProgress: parent?.sendProgress,
+      session,
+      project
+    };
+    return runWithContext(context, () => {
+      // El modo sólo lectura puede venir de la política del servidor o del perfil elegido
+      context.readOnly = this.policy.readOnly || getConnection().getConfig().readOnly;
+      context.dryRun = this.policy.dryRun;
+      context.confirmDestructive = this.policy.confirmDestructive;
+      return fn(context);
+    });
+  }
+
+  // Los argumentos se guardan redactados (contraseñas, fileData, secretos)
+  private auditToolCall(
+    tool: string,
+    args: unknown,
+    instance: string | null,
+    startedAt: number,
+    error?: SupabaseMCPError
+  ): void {
+    recordAudit({
+      requestId: getRequestContext()?.requestId ?? null,
+      tool,
+      instance,
+      args,
+      durationMs: Date.now() - startedAt,
+      status: error ? 'error' : 'success',
+      ...(error && { error: { code: error.code, message: error.message } })
+    });
+  }
+
+  private createAccessGuard(context: RequestContext): AccessGuard {
+    return (toolName, args = {}) => {
+      const definition = this.registry.get(toolName);
+      if (!definition) {
+        return false;
+      }
+      try {
+        this.policy.checkToolCall(definition, args, context.readOnly === true);
+        return true;
+      } catch {
+        return false;
+      }
+    };
+  }
+
+  async start(transportConfig: TransportConfig = { mode: 'stdio', host: '', port: 0, authTokens: [], maxBodyBytes: 0 }): Promise<void> {
+    if (transportConfig.mode === 'http') {
+      this.httpTransport = new HttpTransportServer(transportConfig, () => this.createServer());
+      await this.httpTransport.listen();
+    } else {
+      this.server = this.createServer();
+      await this.server.connect(new StdioServerTransport());
+    }
+    logInfo(`Servidor MCP de Supabase iniciado (transporte: ${transportConfig.mode})`);
   }
 
   async stop(): Promise<void> {
-    await closeConnection();
+    if (this.httpTransport) {
+      await this.httpTransport.close();
+      this.httpTransport = null;
+    }
+    if (this.server) {
+      await this.server.close();
+      this.server = null;
+    }
+    // Los cursores abiertos retienen clientes del pool
+    await closeAllCursors();
+    await closeConnections();
     logInfo('Servidor MCP de Supabase detenido');
   }
 }
@@ -216,27 +342,58 @@ class SupabaseMCPServer {
 // Función principal
 async function main(): Promise<void> {
   try {
-    // Cargar y validar configuración
-    const config = loadConfig();
-    validateConfig(config);
-    
-    // Inicializar conexión
-    await initConnection(config);
+    // Cargar y validar configuración; inicializar conexiones y registro de auditoría
+    const runtime = await startRuntime();
+    let config = runtime.config;
     
     // Crear e iniciar servidor
-    const server = new SupabaseMCPServer();
-    await server.start();
+    const server = new SupabaseMCPServer(config.policy);
+    server.setTimeouts(config.timeouts);
+    await server.start(config.transport);
+
+    // Recargar la configuración sin cerrar las sesiones MCP abiertas
+    process.on('SIGHUP', async () => {
+      logInfo('Recibida señal SIGHUP, recargando configuración...');
+      try {
+        const next = runtime.reloadConfig();
+        const changes = describeConfigChanges(config, next);
+        if (changes.length === 0) {
+          logInfo('La configuración no ha cambiado');
+          return;
+        }
+        changes.forEach(change => logInfo(`Configuración modificada: ${change}`));
+        
+        configureLogger(next.logging);
+        await reloadConnections(next.profiles);
+        initAuditLog(next.audit);
+        initResultLimits(next.limits);
+        server.setPolicy(next.policy);
+        server.setTimeouts(next.timeouts);
+        if (JSON.stringify(next.transport) !== JSON.stringify(config.transport)) {
+          logger.warn('Los cambios de transporte no se aplican hasta reiniciar el servidor');
+        }
+        if (JSON.stringify(next.sandbox) !== JSON.stringify(config.sandbox)) {
+          logger.warn('Los cambios del modo sandbox no se aplican hasta reiniciar el servidor');
+        }
+        config = next;
+      } catch (error) {
+        // Una configuración inválida no sustituye a la que está en uso
+        logError(error as Error, 'reload_config');
+      }
+    });
 
     // Manejar señales de terminación
     process.on('SIGINT', async () => {
       logInfo('Recibida señal SIGINT, cerrando servidor...');
       await server.stop();
+      await runtime.stop();
       process.exit(0);
     });
 
     process.on('SIGTERM', async () => {
       logInfo('Recibida señal SIGTERM, cerrando servidor...');
       await server.stop();
+      await runtime.stop();
       process.exit(0);
     });
 
@@ -0,0 +1,57 @@
+import { startSandbox, Sandbox } from '../sandbox/index.js';
+import { ProfilesConfig } from '../types/supabase.js';
+import { initConnections, closeConnections } from '../utils/connection.js';
+import { configureLogger } from '../utils/logger.js';
+import { closeAllCursors } from '../utils/pagination.js';
+import { SupabaseMCPError } from '../utils/errors.js';
+import { ToolDefinition, ToolRegistry } from '../tools/registry.js';
+
+// Campos comunes a los resultados de las herramientas; cada test declara en T el resto de lo que lee
+export type ToolResult<T = unknown> = T & {
+  success: boolean;
+  message?: string;
+  error?: SupabaseMCPError;
+  confirmationRequired?: boolean;
+  confirmationToken?: string;
+};
+
+export interface SandboxOptions {
+  // Perfiles con los que se abren las conexiones; por defecto, el del sandbox
+  profiles?: (profiles: ProfilesConfig) => ProfilesConfig;
+  // Limpieza propia del archivo de tests, antes de cerrar las conexiones
+  teardown?: () => void | Promise<void>;
+}
+
+// Arranca un sandbox para el archivo (o describe) de tests con los logs desactivados y lo para al terminar
+export const useSandbox = (options: SandboxOptions = {}): { readonly sandbox: Sandbox } => {
+  let sandbox: Sandbox | undefined;
+
+  beforeAll(async () => {
+    configureLogger({ level: 'error', sink: 'off', dir: 'logs', maxSize: 1024, maxFiles: 1 });
+    sandbox = await startSandbox();
+    await initConnections(options.profiles ? options.profiles(sandbox.profiles) : sandbox.profiles);
+  });
+
+  afterAll(async () => {
+    await closeAllCursors();
+    await options.teardown?.();
+    await closeConnections();
+    await sandbox?.stop();
+  });
+
+  return {
+    get sandbox() {
+      if (!sandbox) {
+        throw new Error('El sandbox todavía no ha arrancado');
+      }
+      return sandbox;
+    }
+  };
+};
+
+// Llama a las herramientas a través del registro, como el servidor: con validación y valores por defecto
+export const toolCaller = (definitions: ToolDefinition[]) => {
+  const registry = new ToolRegistry(definitions);
+  return <T = unknown>(name: string, args: Record<string, unknown> = {}) =>
+    registry.call(name, args) as Promise<ToolResult<T>>;
+};
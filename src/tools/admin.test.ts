@@ -0,0 +1,134 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { getConnection } from '../utils/connection.js';
+import { adminTools } from './admin.js';
+import { authTools } from './auth.js';
+
+const call = toolCaller([...adminTools, ...authTools]);
+
+const query = (text: string) => getConnection().getPool().query(text);
+
+interface Backup {
+  backupPath: string;
+}
+
+useSandbox();
+
+beforeAll(async () => {
+  await query("CREATE TABLE items (id int PRIMARY KEY, label text); INSERT INTO items VALUES (1, 'uno'), (2, 'd''os');");
+});
+
+describe('estadísticas', () => {
+  it('devuelve las estadísticas de la base de datos y del sistema', async () => {
+    const stats = await call<{ stats: { tableCount: string } }>('get_database_stats');
+    expect(stats.success).toBe(true);
+    expect(Number(stats.stats.tableCount)).toBeGreaterThanOrEqual(1);
+
+    const info = await call<{ systemInfo: { version: string } }>('get_system_info');
+    expect(info.success).toBe(true);
+    expect(info.systemInfo.version).toContain('PostgreSQL');
+  });
+
+  it('cuenta los usuarios confirmados', async () => {
+    await call('create_auth_user', { email: 'confirmado@example.com', password: 'password123', emailConfirm: true });
+    await call('create_auth_user', { email: 'pendiente@example.com', password: 'password123' });
+
+    const stats = await call<{ stats: Record<string, number> }>('get_user_stats');
+    expect(stats.stats).toMatchObject({ totalUsers: 2, confirmedUsers: 1, unconfirmedUsers: 1, recentUsers: 2 });
+  });
+});
+
+describe('backup_database / restore_database', () => {
+  it('restaura un backup SQL sin borrar las filas existentes', async () => {
+    const backup = await call<Backup>('backup_database', { tables: ['items'], format: 'sql' });
+    expect(backup.success).toBe(true);
+    expect(fs.readFileSync(backup.backupPath, 'utf8')).toContain("INSERT INTO \"items\" (\"id\", \"label\") VALUES (2, 'd''os')");
+
+    await query("DELETE FROM items; INSERT INTO items VALUES (3, 'tres');");
+
+    const restored = await call('restore_database', { backupPath: backup.backupPath });
+    expect(restored.success).toBe(true);
+    expect((await query('SELECT id FROM items ORDER BY id')).rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+  });
+
+  it('vacía las tablas de un backup SQL con dropExisting previa confirmación', async () => {
+    await query('DELETE FROM items WHERE id = 3');
+    const backup = await call<Backup>('backup_database', { tables: ['items'], format: 'sql' });
+    await query("UPDATE items SET label = 'cambiado'");
+
+    const preview = await call<{ preview: { deletedRows: unknown[] } }>('restore_database', { backupPath: backup.backupPath, dropExisting: true });
+    expect(preview).toMatchObject({ success: true, confirmationRequired: true });
+    expect(preview.preview.deletedRows).toEqual([{ table: 'items', rowsToDelete: 2 }]);
+
+    const restored = await call('restore_database', {
+      backupPath: backup.backupPath,
+      dropExisting: true,
+      confirmationToken: preview.confirmationToken
+    });
+    expect(restored.success).toBe(true);
+    expect((await query('SELECT label FROM items ORDER BY id')).rows).toEqual([{ label: 'uno' }, { label: "d'os" }]);
+  });
+
+  it('restaura un backup JSON y dryRun no modifica los datos', async () => {
+    const backup = await call<Backup>('backup_database', { tables: ['items'], format: 'json' });
+    expect(backup.backupPath).toMatch(/\.json$/);
+
+    const preview = await call('restore_database', { backupPath: backup.backupPath, dropExisting: true, dryRun: true });
+    expect(preview.success).toBe(true);
+    expect((await query('SELECT count(*)::int AS n FROM items')).rows).toEqual([{ n: 2 }]);
+
+    await query('DELETE FROM items WHERE id = 2');
+    const confirmation = await call('restore_database', { backupPath: backup.backupPath, dropExisting: true });
+    const restored = await call('restore_database', {
+      backupPath: backup.backupPath,
+      dropExisting: true,
+      confirmationToken: confirmation.confirmationToken
+    });
+    expect(restored.success).toBe(true);
+    expect((await query('SELECT count(*)::int AS n FROM items')).rows).toEqual([{ n: 2 }]);
+  });
+
+  it('entrecomilla tablas y columnas y respeta los ; de los valores', async () => {
+    await query(`CREATE TABLE "Notas" ("Texto" text); INSERT INTO "Notas" VALUES ('uno; dos');`);
+    for (const format of ['sql', 'json']) {
+      const backup = await call<Backup>('backup_database', { tables: ['Notas'], format });
+      await query('DELETE FROM "Notas"');
+
+      const restored = await call('restore_database', { backupPath: backup.backupPath });
+      expect(restored.success).toBe(true);
+      expect((await query('SELECT * FROM "Notas"')).rows).toEqual([{ Texto: 'uno; dos' }]);
+    }
+  });
+
+  it('rechaza nombres de tabla que no son identificadores', async () => {
+    const result = await call('backup_database', { tables: ['items; DROP TABLE items'] });
+    expect(result.error?.code).toBe('VALIDATION_ERROR');
+    expect((await query('SELECT count(*)::int AS n FROM items')).rows).toEqual([{ n: 2 }]);
+  });
+
+  it('pide confirmación para cualquier sentencia peligrosa del archivo y valida sus tablas', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'supafast-restore-'));
+    try {
+      const dropFile = path.join(dir, 'drop.sql');
+      fs.writeFileSync(dropFile, 'DROP TABLE items;\n');
+      const preview = await call<{ preview: { dangerousStatements: unknown[] } }>('restore_database', { backupPath: dropFile });
+      expect(preview).toMatchObject({ success: true, confirmationRequired: true });
+      expect(preview.preview.dangerousStatements).toEqual([expect.objectContaining({ command: 'DROP TABLE' })]);
+
+      const injectedFile = path.join(dir, 'injected.sql');
+      fs.writeFileSync(injectedFile, 'DELETE FROM generate_series(1,3);\n');
+      const injected = await call('restore_database', { backupPath: injectedFile, dropExisting: true });
+      expect(injected.error?.code).toBe('VALIDATION_ERROR');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    expect((await query('SELECT count(*)::int AS n FROM items')).rows).toEqual([{ n: 2 }]);
+  });
+
+  it('informa si el backup no existe', async () => {
+    const result = await call('restore_database', { backupPath: '/no/existe.sql' });
+    expect(result).toMatchObject({ success: false, error: { code: 'NOT_FOUND' } });
+  });
+});
@@ -1,75 +1,18 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { logError, logInfo } from '../utils/logger.js';
+import { EmptySchema, BackupDatabaseArgs, BackupDatabaseSchema, RestoreDatabaseArgs, RestoreDatabaseSchema } from '../types/mcp.js';
+import { logInfo } from '../utils/logger.js';
+import { toErrorResult, NotFoundError } from '../utils/errors.js';
+import {
+  AffectedObject, PlannedStatement, describeStatement, isDryRun, previewStatements, runStatement, statementText
+} from '../utils/dry-run.js';
+import { requireConfirmation } from '../utils/confirmation.js';
+import { trackProgress } from '../utils/progress.js';
+import { quoteSQLIdentifier, sanitizeSQLIdentifier } from '../utils/validation.js';
+import { ClassifiedStatement, classifyStatements, splitStatements } from '../utils/sql.js';
 import fs from 'fs';
 import path from 'path';
 
-export const adminTools: Tool[] = [
-  {
-    name: 'get_database_stats',
-    description: 'Obtener estadísticas de la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'get_user_stats',
-    description: 'Obtener estadísticas de usuarios',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'backup_database',
-    description: 'Crear backup de la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        tables: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Tablas específicas a respaldar (opcional)'
-        },
-        format: {
-          type: 'string',
-          enum: ['sql', 'json'],
-          description: 'Formato del backup',
-          default: 'sql'
-        }
-      }
-    }
-  },
-  {
-    name: 'restore_database',
-    description: 'Restaurar backup de la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        backupPath: {
-          type: 'string',
-          description: 'Ruta del archivo de backup'
-        },
-        dropExisting: {
-          type: 'boolean',
-          description: 'Eliminar datos existentes antes de restaurar',
-          default: false
-        }
-      },
-      required: ['backupPath']
-    }
-  },
-  {
-    name: 'get_system_info',
-    description: 'Obtener información del sistema',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  }
-];
-
 export const handleGetDatabaseStats = async () => {
   const connection = getConnection();
   
@@ -111,7 +54,7 @@ export const handleGetDatabaseStats = async () => {
     ];
     
     const [dbInfo, tableCount, connections, transactionStats] = await Promise.all(
-      queries.map(query => connection.getPgClient().query(query))
+      queries.map(query => connection.getPool().query(query))
     );
     
     if (!dbInfo?.rows?.[0] || !tableCount?.rows?.[0] || !connections?.rows?.[0] || !transactionStats?.rows?.[0]) {
@@ -128,11 +71,7 @@ export const handleGetDatabaseStats = async () => {
       }
     };
   } catch (error) {
-    logError(error as Error, 'get_database_stats');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'get_database_stats');
   }
 };
 
@@ -146,7 +85,7 @@ export const handleGetUserStats = async () => {
     const { data: users, error } = await supabase.auth.admin.listUsers();
     
     if (error) {
-      throw new Error(error.message);
+      throw error;
     }
     
     const totalUsers = users.users.length;
@@ -169,24 +108,17 @@ export const handleGetUserStats = async () => {
       }
     };
   } catch (error) {
-    logError(error as Error, 'get_user_stats');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'get_user_stats');
   }
 };
 
-export const handleBackupDatabase = async (args: unknown) => {
-  const { tables, format = 'sql' } = args as {
-    tables?: string[];
-    format?: 'sql' | 'json';
-  };
+export const handleBackupDatabase = async (args: BackupDatabaseArgs) => {
+  const { tables, format } = args;
   const connection = getConnection();
   
   try {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupDir = path.join(process.cwd(), 'backups');
+    const backupDir = path.resolve(connection.getConfig().backupDir);
     
     // Crear directorio de backups si no existe
     if (!fs.existsSync(backupDir)) {
@@ -195,14 +127,14 @@ export const handleBackupDatabase = async (args: unknown) => {
     
     const backupPath = path.join(backupDir, `backup_${timestamp}.${format}`);
     
-    if (format === 'sql') {
-      // Backup SQL
-      let sqlContent = `-- Backup creado el ${new Date().toISOString()}\n\n`;
-      
-      // Obtener lista de tablas
-      const tablesToBackup = tables || [];
+    // Los nombres acaban en el SQL: se validan antes de leer nada
+    const requestedTables = (tables ?? []).map(table => sanitizeSQLIdentifier(table));
+    
+    // Todas las lecturas en una transacción de sólo lectura: una instantánea coherente y ninguna escritura posible
+    await connection.withTransaction(async (client) => {
+      const tablesToBackup = requestedTables;
       if (tablesToBackup.length === 0) {
-        const tableResult = await connection.getPgClient().query(`
+        const tableResult = await client.query(`
           SELECT table_name 
           FROM information_schema.tables 
           WHERE table_schema = 'public' AND table_type = 'BASE TABLE';
@@ -210,53 +142,53 @@ export const handleBackupDatabase = async (args: unknown) => {
         tablesToBackup.push(...tableResult.rows.map(row => row.table_name));
       }
       
-      // Generar SQL para cada tabla
-      for (const table of tablesToBackup) {
-        const result = await connection.getPgClient().query(`SELECT * FROM ${table}`);
+      const progress = trackProgress('Backup', tablesToBackup.length);
+      
+      if (format === 'sql') {
+        // Backup SQL
+        let sqlContent = `-- Backup creado el ${new Date().toISOString()}\n\n`;
         
-        if (result.rows.length > 0) {
-          const columns = result.fields.map(field => field.name);
-          sqlContent += `-- Datos de la tabla ${table}\n`;
-          sqlContent += `DELETE FROM ${table};\n`;
+        // Generar SQL para cada tabla
+        for (const table of tablesToBackup) {
+          const result = await client.query(`SELECT * FROM ${quoteSQLIdentifier(table)}`);
+          progress.step(`${table}: ${result.rows.length} filas`);
           
-          for (const row of result.rows) {
-            const values = columns.map(col => {
-              const value = row[col];
-              if (value === null) return 'NULL';
-              if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
-              return String(value);
-            });
-            sqlContent += `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${values.join(', ')});\n`;
+          if (result.rows.length > 0) {
+            const columns = result.fields.map(field => quoteSQLIdentifier(field.name));
+            const quotedTable = quoteSQLIdentifier(table);
+            sqlContent += `-- Datos de la tabla ${table}\n`;
+            sqlContent += `DELETE FROM ${quotedTable};\n`;
+            
+            for (const row of result.rows) {
+              const values = result.fields.map(({ name }) => {
+                const value = row[name];
+                if (value === null) return 'NULL';
+                if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
+                return String(value);
+              });
+              sqlContent += `INSERT INTO ${quotedTable} (${columns.join(', ')}) VALUES (${values.join(', ')});\n`;
+            }
+            sqlContent += '\n';
           }
-          sqlContent += '\n';
         }
+        
+        fs.writeFileSync(backupPath, sqlContent);
+      } else {
+        // Backup JSON
+        const backupData: any = {
+          timestamp: new Date().toISOString(),
+          tables: {}
+        };
+        
+        for (const table of tablesToBackup) {
+          const result = await client.query(`SELECT * FROM ${quoteSQLIdentifier(table)}`);
+          backupData.tables[table] = result.rows;
+          progress.step(`${table}: ${result.rows.length} filas`);
+        }
+        
+        fs.writeFileSync(backupPath, JSON.stringify(backupData, null, 2));
       }
-      
-      fs.writeFileSync(backupPath, sqlContent);
-    } else {
-      // Backup JSON
-      const backupData: any = {
-        timestamp: new Date().toISOString(),
-        tables: {}
-      };
-      
-      const tablesToBackup = tables || [];
-      if (tablesToBackup.length === 0) {
-        const tableResult = await connection.getPgClient().query(`
-          SELECT table_name 
-          FROM information_schema.tables 
-          WHERE table_schema = 'public' AND table_type = 'BASE TABLE';
-        `);
-        tablesToBackup.push(...tableResult.rows.map(row => row.table_name));
-      }
-      
-      for (const table of tablesToBackup) {
-        const result = await connection.getPgClient().query(`SELECT * FROM ${table}`);
-        backupData.tables[table] = result.rows;
-      }
-      
-      fs.writeFileSync(backupPath, JSON.stringify(backupData, null, 2));
-    }
+    }, { readOnly: true });
     
     logInfo(`Backup creado exitosamente: ${backupPath}`);
     
@@ -266,63 +198,144 @@ export const handleBackupDatabase = async (args: unknown) => {
       message: `Backup creado exitosamente`
     };
   } catch (error) {
-    logError(error as Error, 'backup_database');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'backup_database');
   }
 };
 
-export const handleRestoreDatabase = async (args: unknown) => {
-  const { backupPath, dropExisting = false } = args as {
-    backupPath: string;
-    dropExisting?: boolean;
+// DELETE FROM <tabla> sin WHERE, como el que escribe backup_database antes de los datos de cada tabla
+const DELETE_ALL = /^DELETE\s+FROM\s+(?:ONLY\s+)?("(?:[^"]|"")+"|\S+)$/i;
+
+// Traduce el backup a la lista de sentencias que ejecutará la restauración
+const planRestore = (backupContent: string, format: string, dropExisting: boolean) => {
+  const statements: PlannedStatement[] = [];
+  const tables = new Set<string>();
+  
+  if (format === 'sql') {
+    // Restaurar desde SQL. splitStatements respeta los ; de las cadenas y deja fuera los comentarios
+    // que preceden a cada sentencia, como el de la tabla antes de su DELETE
+    for (const statement of splitStatements(backupContent)) {
+      // El DELETE FROM que backup_database escribe por tabla sólo se ejecuta con dropExisting
+      if (!dropExisting && DELETE_ALL.test(statement)) {
+        continue;
+      }
+      statements.push(statement);
+    }
+    // Los backups SQL generados por backup_database incluyen un comentario por tabla
+    for (const match of backupContent.matchAll(/^-- Datos de la tabla (\S+)$/gm)) {
+      tables.add(match[1] as string);
+    }
+  } else if (format === 'json') {
+    // Restaurar desde JSON
+    const backupData = JSON.parse(backupContent);
+    
+    for (const [tableName, rows] of Object.entries(backupData.tables)) {
+      tables.add(tableName);
+      
+      // Las claves del JSON acaban en el SQL: tabla y columnas van siempre entre comillas
+      const quotedTable = quoteSQLIdentifier(tableName);
+      if (dropExisting) {
+        statements.push(`DELETE FROM ${quotedTable}`);
+      }
+      
+      for (const row of rows as any[]) {
+        const columns = Object.keys(row);
+        const values = columns.map(col => row[col]);
+        const placeholders = values.map((_, i) => `$${i + 1}`);
+        
+        statements.push({
+          text: `INSERT INTO ${quotedTable} (${columns.map(quoteSQLIdentifier).join(', ')}) VALUES (${placeholders.join(', ')})`,
+          values
+        });
+      }
+    }
+  }
+  
+  const affectedObjects: AffectedObject[] = Array.from(tables).map(name => ({ type: 'table', name, action: 'write' }));
+  return { statements, affectedObjects };
+};
+
+// Sentencias de la restauración que destruyen datos (DELETE sin WHERE, DROP, TRUNCATE...), con la misma
+// clasificación que database_query
+const dangerousStatements = (statements: PlannedStatement[]): ClassifiedStatement[] => {
+  return statements
+    .flatMap(statement => classifyStatements(statementText(statement)))
+    .filter(statement => statement.kind === 'dangerous');
+};
+
+// Tabla que vacía un DELETE FROM sin WHERE. El nombre sale del archivo de backup: sin comillas se valida
+// como identificador y en ambos casos se vuelve a entrecomillar antes de usarlo en otra consulta
+const deletedTable = (statement: ClassifiedStatement): string | undefined => {
+  const name = DELETE_ALL.exec(statement.sql)?.[1];
+  if (!name) return undefined;
+  return name.startsWith('"')
+    ? name.slice(1, -1).replace(/""/g, '"')
+    : sanitizeSQLIdentifier(name).toLowerCase();
+};
+
+// Sentencias peligrosas y filas actuales de las tablas que la restauración vaciará con DELETE
+const previewRestore = async (
+  backupPath: string,
+  statementCount: number,
+  dangerous: ClassifiedStatement[],
+  affectedObjects: AffectedObject[]
+) => {
+  const connection = getConnection();
+  const deletedTables = dangerous
+    .map(deletedTable)
+    .filter((table): table is string => table !== undefined);
+  
+  const tables = [];
+  for (const table of new Set(deletedTables)) {
+    const result = await connection.getPool().query(`SELECT COUNT(*)::bigint AS count FROM ${quoteSQLIdentifier(table)};`);
+    tables.push({ table, rowsToDelete: Number(result.rows[0]?.count ?? 0) });
+  }
+  
+  return {
+    backupPath,
+    statementCount,
+    affectedTables: affectedObjects.map(object => object.name),
+    dangerousStatements: dangerous.map(({ command, reason, sql }) => ({ command, reason, sql })),
+    deletedRows: tables
   };
+};
+
+export const handleRestoreDatabase = async (args: RestoreDatabaseArgs) => {
+  const { backupPath, dropExisting, dryRun } = args;
   const connection = getConnection();
   
   try {
     if (!fs.existsSync(backupPath)) {
-      return {
-        success: false,
-        error: `Archivo de backup no encontrado: ${backupPath}`
-      };
+      throw new NotFoundError(`Archivo de backup no encontrado: ${backupPath}`);
     }
     
     const backupContent = fs.readFileSync(backupPath, 'utf8');
     const format = path.extname(backupPath).slice(1);
+    const { statements, affectedObjects } = planRestore(backupContent, format, dropExisting);
     
-    if (format === 'sql') {
-      // Restaurar desde SQL
-      const statements = backupContent.split(';').filter(stmt => stmt.trim());
-      
-      for (const statement of statements) {
-        if (statement.trim() && !statement.trim().startsWith('--')) {
-          await connection.getPgClient().query(statement);
-        }
-      }
-    } else if (format === 'json') {
-      // Restaurar desde JSON
-      const backupData = JSON.parse(backupContent);
-      
-      for (const [tableName, rows] of Object.entries(backupData.tables)) {
-        if (dropExisting) {
-          await connection.getPgClient().query(`DELETE FROM ${tableName}`);
-        }
-        
-        for (const row of rows as any[]) {
-          const columns = Object.keys(row);
-          const values = columns.map(col => row[col]);
-          const placeholders = values.map((_, i) => `$${i + 1}`);
-          
-          await connection.getPgClient().query(
-            `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders.join(', ')})`,
-            values
-          );
-        }
+    if (isDryRun(dryRun)) {
+      return previewStatements(connection, statements, affectedObjects);
+    }
+    
+    // Sólo hace falta confirmar si la restauración borra o destruye datos existentes
+    const dangerous = dangerousStatements(statements);
+    if (dangerous.length > 0) {
+      const confirmation = await requireConfirmation('restore_database', args, () => {
+        return previewRestore(backupPath, statements.length, dangerous, affectedObjects);
+      });
+      if (confirmation) {
+        return confirmation;
       }
     }
     
+    // Restaurar en una única transacción para no dejar la base a medias si algo falla
+    await connection.withTransaction(async (client) => {
+      const progress = trackProgress('Restauración', statements.length);
+      for (const statement of statements) {
+        await runStatement(client, statement);
+        progress.step(describeStatement(statement));
+      }
+    });
+    
     logInfo(`Base de datos restaurada exitosamente desde: ${backupPath}`);
     
     return {
@@ -330,11 +343,7 @@ export const handleRestoreDatabase = async (args: unknown) => {
       message: `Base de datos restaurada exitosamente`
     };
   } catch (error) {
-    logError(error as Error, 'restore_database');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'restore_database');
   }
 };
 
@@ -372,7 +381,7 @@ export const handleGetSystemInfo = async () => {
     ];
     
     const [version, serverInfo, settings] = await Promise.all(
-      queries.map(query => connection.getPgClient().query(query))
+      queries.map(query => connection.getPool().query(query))
     );
     
     if (!version?.rows?.[0] || !serverInfo?.rows?.[0] || !settings?.rows) {
@@ -389,10 +398,43 @@ export const handleGetSystemInfo = async () => {
       }
     };
   } catch (error) {
-    logError(error as Error, 'get_system_info');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'get_system_info');
   }
-};
\ No newline at end of file
+};
+
+export const adminTools = [
+  defineTool({
+    name: 'get_database_stats',
+    description: 'Obtener estadísticas de la base de datos',
+    schema: EmptySchema,
+    handler: handleGetDatabaseStats,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'get_user_stats',
+    description: 'Obtener estadísticas de usuarios',
+    schema: EmptySchema,
+    handler: handleGetUserStats,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'backup_database',
+    description: 'Crear backup de la base de datos',
+    schema: BackupDatabaseSchema,
+    handler: handleBackupDatabase,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'restore_database',
+    description: 'Restaurar backup de la base de datos',
+    schema: RestoreDatabaseSchema,
+    handler: handleRestoreDatabase
+  }),
+  defineTool({
+    name: 'get_system_info',
+    description: 'Obtener información del sistema',
+    schema: EmptySchema,
+    handler: handleGetSystemInfo,
+    readOnly: true
+  })
+];
@@ -0,0 +1,52 @@
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { authTools } from './auth.js';
+
+const call = toolCaller(authTools);
+
+useSandbox();
+
+describe('usuarios de Auth', () => {
+  let userId: string;
+
+  it('crea un usuario y lo lista', async () => {
+    const created = await call<{ user: { id: string } }>('create_auth_user', { email: 'ana@example.com', password: 'password123', emailConfirm: true });
+    expect(created).toMatchObject({ success: true, user: { email: 'ana@example.com', emailConfirmed: true } });
+    userId = created.user.id;
+
+    const listed = await call<{ users: { email: string }[] }>('list_auth_users');
+    expect(listed.success).toBe(true);
+    expect(listed.users.map(user => user.email)).toContain('ana@example.com');
+  });
+
+  it('rechaza contraseñas cortas y emails repetidos', async () => {
+    const short = await call('create_auth_user', { email: 'corta@example.com', password: '123' });
+    expect(short.success).toBe(false);
+
+    const duplicated = await call('create_auth_user', { email: 'ana@example.com', password: 'password123' });
+    expect(duplicated.success).toBe(false);
+  });
+
+  it('obtiene y actualiza el usuario', async () => {
+    const fetched = await call('get_auth_user', { userId });
+    expect(fetched).toMatchObject({ success: true, user: { id: userId, email: 'ana@example.com' } });
+
+    const updated = await call('update_auth_user', { userId, email: 'ana.b@example.com', role: 'editor' });
+    expect(updated).toMatchObject({ success: true, user: { email: 'ana.b@example.com', role: 'editor' } });
+  });
+
+  it('genera el link de recuperación de contraseña', async () => {
+    const result = await call('reset_user_password', { email: 'ana.b@example.com' });
+    expect(result.success).toBe(true);
+  });
+
+  it('pide confirmación antes de eliminar el usuario', async () => {
+    const preview = await call('delete_auth_user', { userId });
+    expect(preview).toMatchObject({ success: true, confirmationRequired: true });
+
+    const deleted = await call('delete_auth_user', { userId, confirmationToken: preview.confirmationToken });
+    expect(deleted.success).toBe(true);
+
+    const missing = await call('get_auth_user', { userId });
+    expect(missing.success).toBe(false);
+  });
+});
@@ -1,148 +1,27 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { validateInput, isValidEmail, isValidPassword } from '../utils/validation.js';
-import { CreateAuthUserArgs, CreateAuthUserSchema } from '../types/mcp.js';
-import { logError, logInfo } from '../utils/logger.js';
+import { isValidEmail, isValidPassword, quoteSQLIdentifier } from '../utils/validation.js';
+import {
+  CreateAuthUserArgs, CreateAuthUserSchema, ListAuthUsersArgs, ListAuthUsersSchema, AuthUserIdArgs, AuthUserIdSchema,
+  DeleteAuthUserArgs, DeleteAuthUserSchema,
+  UpdateAuthUserArgs, UpdateAuthUserSchema, ResetUserPasswordArgs, ResetUserPasswordSchema
+} from '../types/mcp.js';
+import { logInfo } from '../utils/logger.js';
+import { toErrorResult, ValidationError } from '../utils/errors.js';
+import { requireConfirmation } from '../utils/confirmation.js';
+import { CursorSource, paginate } from '../utils/pagination.js';
 
-export const authTools: Tool[] = [
-  {
-    name: 'create_auth_user',
-    description: 'Crear un nuevo usuario de autenticación',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: {
-          type: 'string',
-          description: 'Email del usuario'
-        },
-        password: {
-          type: 'string',
-          description: 'Contraseña del usuario'
-        },
-        emailConfirm: {
-          type: 'boolean',
-          description: 'Confirmar email automáticamente',
-          default: false
-        },
-        role: {
-          type: 'string',
-          description: 'Rol del usuario',
-          default: 'authenticated'
-        }
-      },
-      required: ['email', 'password']
-    }
-  },
-  {
-    name: 'list_auth_users',
-    description: 'Listar todos los usuarios de autenticación',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        limit: {
-          type: 'number',
-          description: 'Límite de usuarios a devolver',
-          default: 100
-        },
-        offset: {
-          type: 'number',
-          description: 'Offset para paginación',
-          default: 0
-        }
-      }
-    }
-  },
-  {
-    name: 'delete_auth_user',
-    description: 'Eliminar un usuario de autenticación',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'ID del usuario a eliminar'
-        }
-      },
-      required: ['userId']
-    }
-  },
-  {
-    name: 'update_auth_user',
-    description: 'Actualizar un usuario de autenticación',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'ID del usuario'
-        },
-        email: {
-          type: 'string',
-          description: 'Nuevo email'
-        },
-        password: {
-          type: 'string',
-          description: 'Nueva contraseña'
-        },
-        emailConfirmed: {
-          type: 'boolean',
-          description: 'Estado de confirmación de email'
-        },
-        role: {
-          type: 'string',
-          description: 'Nuevo rol'
-        }
-      },
-      required: ['userId']
-    }
-  },
-  {
-    name: 'get_auth_user',
-    description: 'Obtener información de un usuario específico',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'ID del usuario'
-        }
-      },
-      required: ['userId']
-    }
-  },
-  {
-    name: 'reset_user_password',
-    description: 'Resetear la contraseña de un usuario',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: {
-          type: 'string',
-          description: 'Email del usuario'
-        }
-      },
-      required: ['email']
-    }
-  }
-];
-
-export const handleCreateAuthUser = async (args: unknown) => {
-  const { email, password, emailConfirm, role } = validateInput(CreateAuthUserSchema, args);
+export const handleCreateAuthUser = async (args: CreateAuthUserArgs) => {
+  const { email, password, emailConfirm, role } = args;
   const connection = getConnection();
   
   try {
     if (!isValidEmail(email)) {
-      return {
-        success: false,
-        error: 'Email inválido'
-      };
+      throw new ValidationError('Email inválido');
     }
     
     if (!isValidPassword(password)) {
-      return {
-        success: false,
-        error: 'La contraseña debe tener al menos 8 caracteres'
-      };
+      throw new ValidationError('La contraseña debe tener al menos 8 caracteres');
     }
     
     const supabase = connection.getSupabaseClient();
@@ -158,11 +37,7 @@ export const handleCreateAuthUser = async (args: unknown) => {
     });
     
     if (error) {
-      logError(new Error(error.message), 'create_auth_user');
-      return {
-        success: false,
-        error: error.message
-      };
+      throw error;
     }
     
     logInfo(`Usuario creado exitosamente: ${email}`);
@@ -179,72 +54,130 @@ export const handleCreateAuthUser = async (args: unknown) => {
       message: 'Usuario creado exitosamente'
     };
   } catch (error) {
-    logError(error as Error, 'create_auth_user');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'create_auth_user');
   }
 };
 
-export const handleListAuthUsers = async (args: unknown) => {
-  const { limit = 100, offset = 0 } = args as { limit?: number; offset?: number };
+export const handleListAuthUsers = async (args: ListAuthUsersArgs) => {
+  const { limit, offset } = args;
   const connection = getConnection();
   
   try {
     const supabase = connection.getSupabaseClient();
     
-    const { data: users, error } = await supabase.auth.admin.listUsers({
-      page: Math.floor(offset / limit) + 1,
-      perPage: limit
-    });
-    
-    if (error) {
-      logError(new Error(error.message), 'list_auth_users');
-      return {
-        success: false,
-        error: error.message
-      };
-    }
+    // GoTrue pagina por número de página; fetch_more sigue pidiendo las siguientes
+    let page = Math.floor(offset / limit) + 1;
+    let total: number | null = null;
+    const source: CursorSource = {
+      fetch: async () => {
+        const { data: users, error } = await supabase.auth.admin.listUsers({ page, perPage: limit });
+        
+        if (error) {
+          throw error;
+        }
+        
+        total ??= users.total;
+        page += 1;
+        
+        const formattedUsers = users.users.map(user => ({
+          id: user.id,
+          email: user.email,
+          role: user.user_metadata?.role || 'authenticated',
+          emailConfirmed: user.email_confirmed_at !== null,
+          lastSignInAt: user.last_sign_in_at,
+          createdAt: user.created_at
+        }));
+        return { items: formattedUsers, done: !users.nextPage || formattedUsers.length < limit };
+      }
+    };
     
-    const formattedUsers = users.users.map(user => ({
-      id: user.id,
-      email: user.email,
-      role: user.user_metadata?.role || 'authenticated',
-      emailConfirmed: user.email_confirmed_at !== null,
-      lastSignInAt: user.last_sign_in_at,
-      createdAt: user.created_at
-    }));
+    const result = await paginate('list_auth_users', 'users', source, limit);
     
     return {
       success: true,
-      users: formattedUsers,
-      total: users.total || formattedUsers.length
+      users: result.items,
+      total: total || result.count,
+      truncated: result.truncated,
+      ...(result.cursor && { cursor: result.cursor })
     };
   } catch (error) {
-    logError(error as Error, 'list_auth_users');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'list_auth_users');
+  }
+};
+
+// El usuario a eliminar y las filas de otras tablas que lo referencian (claves foráneas de una
+// columna hacia auth.users), con la acción ON DELETE que Postgres aplicará a cada una
+const previewDeleteAuthUser = async (userId: string) => {
+  const connection = getConnection();
+  const supabase = connection.getSupabaseClient();
+  
+  const { data: user, error } = await supabase.auth.admin.getUserById(userId);
+  if (error) {
+    throw error;
+  }
+  
+  const referencesQuery = `
+    SELECT
+      n.nspname AS schema,
+      c.relname AS table,
+      a.attname AS column,
+      CASE con.confdeltype
+        WHEN 'c' THEN 'CASCADE'
+        WHEN 'n' THEN 'SET NULL'
+        WHEN 'd' THEN 'SET DEFAULT'
+        WHEN 'r' THEN 'RESTRICT'
+        ELSE 'NO ACTION'
+      END AS on_delete
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = con.conkey[1]
+    WHERE con.contype = 'f'
+      AND con.confrelid = 'auth.users'::regclass
+      AND array_length(con.conkey, 1) = 1;
+  `;
+  const references = await connection.getPool().query(referencesQuery);
+  
+  const referencingRows = [];
+  for (const ref of references.rows) {
+    const countResult = await connection.getPool().query(
+      `SELECT COUNT(*)::bigint AS count FROM ${quoteSQLIdentifier(ref.schema)}.${quoteSQLIdentifier(ref.table)}
+       WHERE ${quoteSQLIdentifier(ref.column)} = $1;`,
+      [userId]
+    );
+    const rows = Number(countResult.rows[0]?.count ?? 0);
+    if (rows > 0) {
+      referencingRows.push({ table: `${ref.schema}.${ref.table}`, column: ref.column, onDelete: ref.on_delete, rows });
+    }
   }
+  
+  return {
+    user: {
+      id: user.user.id,
+      email: user.user.email,
+      createdAt: user.user.created_at,
+      lastSignInAt: user.user.last_sign_in_at
+    },
+    referencingRows
+  };
 };
 
-export const handleDeleteAuthUser = async (args: unknown) => {
-  const { userId } = args as { userId: string };
+export const handleDeleteAuthUser = async (args: DeleteAuthUserArgs) => {
+  const { userId } = args;
   const connection = getConnection();
   
   try {
+    const confirmation = await requireConfirmation('delete_auth_user', args, () => previewDeleteAuthUser(userId));
+    if (confirmation) {
+      return confirmation;
+    }
+    
     const supabase = connection.getSupabaseClient();
     
     const { error } = await supabase.auth.admin.deleteUser(userId);
     
     if (error) {
-      logError(new Error(error.message), 'delete_auth_user');
-      return {
-        success: false,
-        error: error.message
-      };
+      throw error;
     }
     
     logInfo(`Usuario eliminado exitosamente: ${userId}`);
@@ -254,22 +187,12 @@ export const handleDeleteAuthUser = async (args: unknown) => {
       message: 'Usuario eliminado exitosamente'
     };
   } catch (error) {
-    logError(error as Error, 'delete_auth_user');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'delete_auth_user');
   }
 };
 
-export const handleUpdateAuthUser = async (args: unknown) => {
-  const { userId, email, password, emailConfirmed, role } = args as {
-    userId: string;
-    email?: string;
-    password?: string;
-    emailConfirmed?: boolean;
-    role?: string;
-  };
+export const handleUpdateAuthUser = async (args: UpdateAuthUserArgs) => {
+  const { userId, email, password, emailConfirmed, role } = args;
   const connection = getConnection();
   
   try {
@@ -296,11 +219,7 @@ export const handleUpdateAuthUser = async (args: unknown) => {
     const { data: user, error } = await supabase.auth.admin.updateUserById(userId, updateData);
     
     if (error) {
-      logError(new Error(error.message), 'update_auth_user');
-      return {
-        success: false,
-        error: error.message
-      };
+      throw error;
     }
     
     logInfo(`Usuario actualizado exitosamente: ${userId}`);
@@ -317,16 +236,12 @@ export const handleUpdateAuthUser = async (args: unknown) => {
       message: 'Usuario actualizado exitosamente'
     };
   } catch (error) {
-    logError(error as Error, 'update_auth_user');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'update_auth_user');
   }
 };
 
-export const handleGetAuthUser = async (args: unknown) => {
-  const { userId } = args as { userId: string };
+export const handleGetAuthUser = async (args: AuthUserIdArgs) => {
+  const { userId } = args;
   const connection = getConnection();
   
   try {
@@ -335,11 +250,7 @@ export const handleGetAuthUser = async (args: unknown) => {
     const { data: user, error } = await supabase.auth.admin.getUserById(userId);
     
     if (error) {
-      logError(new Error(error.message), 'get_auth_user');
-      return {
-        success: false,
-        error: error.message
-      };
+      throw error;
     }
     
     return {
@@ -354,24 +265,17 @@ export const handleGetAuthUser = async (args: unknown) => {
       }
     };
   } catch (error) {
-    logError(error as Error, 'get_auth_user');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'get_auth_user');
   }
 };
 
-export const handleResetUserPassword = async (args: unknown) => {
-  const { email } = args as { email: string };
+export const handleResetUserPassword = async (args: ResetUserPasswordArgs) => {
+  const { email } = args;
   const connection = getConnection();
   
   try {
     if (!isValidEmail(email)) {
-      return {
-        success: false,
-        error: 'Email inválido'
-      };
+      throw new ValidationError('Email inválido');
     }
     
     const supabase = connection.getSupabaseClient();
@@ -382,11 +286,7 @@ export const handleResetUserPassword = async (args: unknown) => {
     });
     
     if (error) {
-      logError(new Error(error.message), 'reset_user_password');
-      return {
-        success: false,
-        error: error.message
-      };
+      throw error;
     }
     
     logInfo(`Link de recuperación generado para: ${email}`);
@@ -396,10 +296,48 @@ export const handleResetUserPassword = async (args: unknown) => {
       message: 'Link de recuperación de contraseña generado exitosamente'
     };
   } catch (error) {
-    logError(error as Error, 'reset_user_password');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'reset_user_password');
   }
-};
\ No newline at end of file
+};
+
+export const authTools = [
+  defineTool({
+    name: 'create_auth_user',
+    description: 'Crear un nuevo usuario de autenticación',
+    schema: CreateAuthUserSchema,
+    handler: handleCreateAuthUser
+  }),
+  defineTool({
+    name: 'list_auth_users',
+    description: 'Listar todos los usuarios de autenticación',
+    schema: ListAuthUsersSchema,
+    handler: handleListAuthUsers,
+    resultItems: 'users',
+    readOnly: true
+  }),
+  defineTool({
+    name: 'delete_auth_user',
+    description: 'Eliminar un usuario de autenticación (requiere confirmar la vista previa)',
+    schema: DeleteAuthUserSchema,
+    handler: handleDeleteAuthUser
+  }),
+  defineTool({
+    name: 'update_auth_user',
+    description: 'Actualizar un usuario de autenticación',
+    schema: UpdateAuthUserSchema,
+    handler: handleUpdateAuthUser
+  }),
+  defineTool({
+    name: 'get_auth_user',
+    description: 'Obtener información de un usuario específico',
+    schema: AuthUserIdSchema,
+    handler: handleGetAuthUser,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'reset_user_password',
+    description: 'Resetear la contraseña de un usuario',
+    schema: ResetUserPasswordSchema,
+    handler: handleResetUserPassword
+  })
+];
@@ -0,0 +1,38 @@
+import { defineTool } from './registry.js';
+import { FetchMoreArgs, FetchMoreSchema } from '../types/mcp.js';
+import { toErrorResult } from '../utils/errors.js';
+import { fetchNextPage } from '../utils/pagination.js';
+
+// Continúa cualquier respuesta truncada (database_query, list_files, list_auth_users, logs...);
+// los elementos llegan bajo la misma clave que en la respuesta original, indicada en itemsKey
+export const handleFetchMore = async (args: FetchMoreArgs) => {
+  const { cursor } = args;
+
+  try {
+    const page = await fetchNextPage(cursor);
+
+    return {
+      success: true,
+      tool: page.tool,
+      itemsKey: page.itemsKey,
+      [page.itemsKey]: page.items,
+      ...(page.fields && { fields: page.fields }),
+      count: page.count,
+      truncated: page.truncated,
+      ...(page.cursor && { cursor: page.cursor })
+    };
+  } catch (error) {
+    return toErrorResult(error, 'fetch_more');
+  }
+};
+
+export const cursorTools = [
+  defineTool({
+    name: 'fetch_more',
+    description: 'Obtener la siguiente página de una respuesta truncada a partir de su cursor',
+    schema: FetchMoreSchema,
+    handler: handleFetchMore,
+    resultItems: result => result.itemsKey as string | undefined,
+    readOnly: true
+  })
+];
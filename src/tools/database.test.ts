@@ -0,0 +1,337 @@
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { runWithContext } from '../utils/context.js';
+import { initResultLimits } from '../utils/pagination.js';
+import { PlanAnalysis, PlanNode } from '../utils/explain.js';
+import { databaseTools } from './database.js';
+import { cursorTools } from './cursors.js';
+import { authTools } from './auth.js';
+
+const call = toolCaller([...databaseTools, ...cursorTools, ...authTools]);
+
+interface QueryResult {
+  rows: Record<string, unknown>[];
+  rowCount: number;
+  truncated: boolean;
+  cursor?: string;
+  fields?: { name: string; dataTypeID: number }[];
+  limit?: number;
+  executedAs?: Record<string, unknown>;
+  statements?: Record<string, unknown>[];
+}
+
+interface ExplainResult extends PlanAnalysis {
+  plan: PlanNode;
+  rolledBack?: boolean;
+}
+
+const listTables = () => call<{ tables: { table_name: string }[] }>('list_tables');
+
+useSandbox();
+
+describe('create_table / list_tables / describe_table', () => {
+  it('crea la tabla con RLS y la describe', async () => {
+    const created = await call('create_table', {
+      name: 'todos',
+      columns: [
+        { name: 'id', type: 'serial', isPrimaryKey: true },
+        { name: 'owner', type: 'uuid' },
+        { name: 'title', type: 'text', nullable: false }
+      ]
+    });
+    expect(created).toMatchObject({ success: true, rlsEnabled: true });
+
+    const tables = await listTables();
+    expect(tables.tables.map(table => table.table_name)).toContain('todos');
+
+    const described = await call('describe_table', { tableName: 'todos' });
+    expect(described.success).toBe(true);
+    expect(JSON.stringify(described)).toContain('title');
+  });
+
+  it('dryRun devuelve el SQL sin crear la tabla', async () => {
+    const preview = await call('create_table', {
+      name: 'not_created',
+      columns: [{ name: 'id', type: 'int' }],
+      dryRun: true
+    });
+    expect(preview.success).toBe(true);
+
+    const tables = await listTables();
+    expect(tables.tables.map(table => table.table_name)).not.toContain('not_created');
+  });
+});
+
+describe('database_query', () => {
+  it('ejecuta escrituras y lecturas con parámetros', async () => {
+    const inserted = await call('database_query', {
+      query: 'INSERT INTO todos (title) VALUES ($1), ($2) RETURNING id',
+      params: ['uno', 'dos'],
+      allowWrite: true
+    });
+    expect(inserted).toMatchObject({ success: true, rowCount: 2, command: 'INSERT' });
+
+    const selected = await call<QueryResult>('database_query', { query: 'SELECT title FROM todos ORDER BY id' });
+    expect(selected.rows).toEqual([{ title: 'uno' }, { title: 'dos' }]);
+    expect(selected.truncated).toBe(false);
+  });
+
+  it('devuelve los errores de Postgres como resultado', async () => {
+    const result = await call<QueryResult>('database_query', { query: 'SELECT * FROM no_existe' });
+    expect(result.success).toBe(false);
+  });
+
+  it('pagina resultados grandes y continúa con fetch_more', async () => {
+    initResultLimits({ maxRows: 3, maxBytes: 100000 });
+    try {
+      const first = await call<QueryResult>('database_query', { query: 'SELECT g FROM generate_series(1, 7) AS g' });
+      expect(first).toMatchObject({ truncated: true, rowCount: 3 });
+
+      const second = await call<QueryResult>('fetch_more', { cursor: first.cursor });
+      expect(second.rows).toEqual([{ g: 4 }, { g: 5 }, { g: 6 }]);
+      expect(second.fields).toEqual([{ name: 'g', dataTypeID: 23 }]);
+
+      const last = await call('fetch_more', { cursor: second.cursor });
+      expect(last).toMatchObject({ truncated: false, rows: [{ g: 7 }] });
+    } finally {
+      initResultLimits({ maxRows: 500, maxBytes: 100000 });
+    }
+  });
+
+  it('con allowWrite una lectura puede llamar a funciones que escriben', async () => {
+    await call('database_query', { query: 'CREATE SEQUENCE contador', allowWrite: true });
+
+    const readOnly = await call<QueryResult>('database_query', { query: "SELECT nextval('contador') AS n" });
+    expect(readOnly.success).toBe(false);
+
+    const written = await call<QueryResult>('database_query', { query: "SELECT nextval('contador') AS n", allowWrite: true });
+    expect(written).toMatchObject({ success: true, rows: [{ n: '1' }], truncated: false });
+  });
+
+  it('devuelve timestamp sin zona horaria sin desplazarlo a UTC', async () => {
+    const tz = process.env.TZ;
+    process.env.TZ = 'America/New_York';
+    try {
+      const result = await call<QueryResult>('database_query', {
+        query: "SELECT '2024-01-01 10:00'::timestamp AS t, ARRAY['2024-06-01 08:30:00.5'::timestamp] AS ts"
+      });
+      expect(result.rows).toEqual([{ t: '2024-01-01T10:00:00', ts: ['2024-06-01T08:30:00.5'] }]);
+    } finally {
+      if (tz === undefined) {
+        delete process.env.TZ;
+      } else {
+        process.env.TZ = tz;
+      }
+    }
+  });
+
+  it('en sólo lectura rechaza las escrituras', async () => {
+    const result = await runWithContext({ session: {}, readOnly: true }, () => {
+      return call('database_query', { query: "INSERT INTO todos (title) VALUES ('x')" });
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('aplica RLS con asRole y asUser y deshace la transacción', async () => {
+    const user = await call<{ user: { id: string } }>('create_auth_user', { email: 'rls@example.com', password: 'password123' });
+    const userId = user.user.id;
+    await call('database_query', { query: 'INSERT INTO todos (owner, title) VALUES ($1, $2)', params: [userId, 'mía'], allowWrite: true });
+    await call('database_query', {
+      query: 'CREATE POLICY own_todos ON todos FOR ALL TO authenticated USING (owner = auth.uid())',
+      allowWrite: true
+    });
+
+    const asAnon = await call<QueryResult>('database_query', { query: 'SELECT title FROM todos', asRole: 'anon' });
+    expect(asAnon).toMatchObject({ success: true, rows: [], executedAs: { role: 'anon' } });
+
+    const asUser = await call<QueryResult>('database_query', { query: 'SELECT title FROM todos', asUser: userId });
+    expect(asUser.rows).toEqual([{ title: 'mía' }]);
+    expect(asUser.executedAs).toMatchObject({ role: 'authenticated', claims: { sub: userId, email: 'rls@example.com' } });
+
+    await call('database_query', { query: "INSERT INTO todos (owner, title) VALUES (auth.uid(), 'nueva')", asUser: userId, allowWrite: true });
+    const count = await call<QueryResult>('database_query', { query: "SELECT count(*)::int AS n FROM todos WHERE title = 'nueva'" });
+    expect(count.rows).toEqual([{ n: 0 }]);
+  });
+});
+
+describe('database_query: clasificación y salvaguardas', () => {
+  it('exige allowWrite para escrituras y DDL', async () => {
+    const insert = await call('database_query', { query: "INSERT INTO todos (title) VALUES ('sin permiso')" });
+    expect(insert.error).toMatchObject({ code: 'PERMISSION_DENIED', details: { hint: expect.stringContaining('allowWrite') } });
+
+    const ddl = await call<QueryResult>('database_query', { query: 'SELECT 1; CREATE TABLE otra (id int)' });
+    expect(ddl.error?.message).toContain('CREATE TABLE');
+
+    // nextval escribe aunque la sentencia sea un SELECT: la transacción de sólo lectura lo rechaza
+    const sequence = await call<QueryResult>('database_query', { query: "SELECT nextval('todos_id_seq')" });
+    expect(sequence.error).toMatchObject({ code: 'PERMISSION_DENIED', details: { hint: expect.stringContaining('allowWrite') } });
+  });
+
+  it('añade un LIMIT a las lecturas que no lo tienen', async () => {
+    const limited = await call<QueryResult>('database_query', { query: 'SELECT g FROM generate_series(1, 50) AS g', limit: 5 });
+    expect(limited).toMatchObject({ rowCount: 5, limit: 5, truncated: false });
+
+    const own = await call<QueryResult>('database_query', { query: 'SELECT g FROM generate_series(1, 50) AS g LIMIT 8', limit: 5 });
+    expect(own.rowCount).toBe(8);
+    expect(own.limit).toBeUndefined();
+
+    // También en cada lectura de una consulta con varias sentencias
+    const several = await call<QueryResult>('database_query', {
+      query: 'SELECT g FROM generate_series(1, 50) AS g; SELECT g FROM generate_series(1, 50) AS g',
+      limit: 4
+    });
+    expect(several).toMatchObject({ rowCount: 4, limit: 4 });
+    expect(several.statements).toEqual([
+      { command: 'SELECT', kind: 'read', rowCount: 4, limit: 4 },
+      { command: 'SELECT', kind: 'read', rowCount: 4, limit: 4 }
+    ]);
+  });
+
+  it('usa schema como search_path', async () => {
+    await call('database_query', {
+      query: "CREATE SCHEMA informes; CREATE TABLE informes.ventas (total int); INSERT INTO informes.ventas VALUES (10)",
+      allowWrite: true
+    });
+    const result = await call<QueryResult>('database_query', { query: 'SELECT total FROM ventas', schema: 'informes' });
+    expect(result.rows).toEqual([{ total: 10 }]);
+
+    const path = await call<QueryResult>('database_query', { query: 'SHOW search_path', schema: 'informes' });
+    expect(path.rows).toEqual([{ search_path: 'informes, public, extensions' }]);
+  });
+
+  it('ejecuta varias sentencias en una transacción y devuelve la última', async () => {
+    const result = await call<QueryResult>('database_query', {
+      query: "INSERT INTO informes.ventas VALUES (20); SELECT sum(total)::int AS total FROM informes.ventas",
+      allowWrite: true
+    });
+    expect(result.rows).toEqual([{ total: 30 }]);
+    expect(result.statements).toEqual([
+      { command: 'INSERT', kind: 'dml', rowCount: 1 },
+      { command: 'SELECT', kind: 'read', rowCount: 1, limit: 1000 }
+    ]);
+
+    const failed = await call('database_query', {
+      query: 'INSERT INTO informes.ventas VALUES (40); SELECT * FROM no_existe',
+      allowWrite: true
+    });
+    expect(failed.success).toBe(false);
+    const total = await call<QueryResult>('database_query', { query: 'SELECT count(*)::int AS n FROM informes.ventas' });
+    expect(total.rows).toEqual([{ n: 2 }]);
+  });
+
+  it('aplica statementTimeoutMs a la transacción', async () => {
+    // PGlite no interrumpe las sentencias largas; se comprueba el ajuste
+    const result = await call<QueryResult>('database_query', { query: 'SHOW statement_timeout', statementTimeoutMs: 1500 });
+    expect(result.rows).toEqual([{ statement_timeout: '1500ms' }]);
+  });
+
+  it('rechaza el control de transacciones y los parámetros con varias sentencias', async () => {
+    const begin = await call('database_query', { query: 'BEGIN; SELECT 1; COMMIT' });
+    expect(begin.error?.code).toBe('VALIDATION_ERROR');
+
+    const params = await call<QueryResult>('database_query', { query: 'SELECT $1; SELECT 2', params: [1] });
+    expect(params.error?.message).toContain('única sentencia');
+  });
+
+  it('pide confirmación para las sentencias peligrosas', async () => {
+    const preview = await call<{ preview: { statements: unknown[] } }>('database_query', { query: 'DELETE FROM informes.ventas', allowWrite: true });
+    expect(preview).toMatchObject({ success: true, confirmationRequired: true });
+    expect(preview.preview.statements).toEqual([
+      { command: 'DELETE', reason: expect.stringContaining('sin WHERE'), sql: 'DELETE FROM informes.ventas' }
+    ]);
+
+    const deleted = await call('database_query', {
+      query: 'DELETE FROM informes.ventas',
+      allowWrite: true,
+      confirmationToken: preview.confirmationToken
+    });
+    expect(deleted).toMatchObject({ success: true, rowCount: 2, command: 'DELETE' });
+  });
+});
+
+describe('explain_query', () => {
+  beforeAll(async () => {
+    await call('database_query', {
+      query: `CREATE TABLE pedidos (id int PRIMARY KEY, estado text, cliente int, importe numeric);
+        INSERT INTO pedidos SELECT g, CASE WHEN g % 10 = 0 THEN 'pagado' ELSE 'pendiente' END, g % 500, g FROM generate_series(1, 20000) AS g;
+        ANALYZE pedidos`,
+      allowWrite: true
+    });
+  });
+
+  it('resume el plan estimado y sugiere un índice para create_index', async () => {
+    const result = await call<ExplainResult>('explain_query', { query: "SELECT * FROM pedidos WHERE estado = 'pagado' AND cliente = $1", params: [10] });
+    expect(result).toMatchObject({ success: true, command: 'SELECT', analyzed: false });
+    expect(result.plan['Node Type']).toBe('Seq Scan');
+    expect(result.plan.Output).toBeUndefined();
+    expect(result.findings[0]).toMatchObject({ type: 'seq_scan', node: 'Seq Scan on public.pedidos' });
+    expect(result.expensiveNodes[0]).toMatchObject({ node: 'Seq Scan on public.pedidos', percent: 100 });
+    expect(result.indexSuggestions).toEqual([expect.objectContaining({
+      createIndex: { schema: 'public', tableName: 'pedidos', columns: ['estado', 'cliente'] }
+    })]);
+
+    const created = await call('create_index', result.indexSuggestions[0]?.createIndex);
+    expect(created.success).toBe(true);
+    const indexed = await call<ExplainResult>('explain_query', { query: "SELECT * FROM pedidos WHERE estado = 'pagado' AND cliente = 10" });
+    expect(indexed.indexSuggestions).toEqual([]);
+  });
+
+  it('con analyze compara filas estimadas y reales y deshace las escrituras', async () => {
+    // Las dos condiciones están correlacionadas (todo pedido pagado tiene id múltiplo de 10) y el planificador no lo sabe
+    const analyzed = await call<ExplainResult>('explain_query', {
+      query: "SELECT * FROM pedidos WHERE estado = 'pagado' AND id % 10 = 0",
+      analyze: true,
+      buffers: true
+    });
+    expect(analyzed).toMatchObject({ success: true, analyzed: true, executionTimeMs: expect.any(Number) });
+    expect(analyzed.plan['Actual Rows']).toBe(2000);
+    expect(analyzed.findings).toEqual(expect.arrayContaining([
+      expect.objectContaining({ type: 'row_estimate', hint: expect.stringContaining('CREATE STATISTICS') })
+    ]));
+    expect(analyzed.rolledBack).toBeUndefined();
+
+    const deleted = await call('explain_query', { query: 'DELETE FROM pedidos WHERE cliente = 1', analyze: true });
+    expect(deleted).toMatchObject({ success: true, command: 'DELETE', rolledBack: true });
+    const count = await call<QueryResult>('database_query', { query: 'SELECT count(*)::int AS n FROM pedidos' });
+    expect(count.rows).toEqual([{ n: 20000 }]);
+  });
+
+  it('rechaza lo que no tiene plan y ANALYZE de escrituras en sólo lectura', async () => {
+    const ddl = await call('explain_query', { query: 'CREATE TABLE x (id int)' });
+    expect(ddl.error).toMatchObject({ code: 'VALIDATION_ERROR', details: { hint: expect.stringContaining('SELECT') } });
+
+    const several = await call('explain_query', { query: 'SELECT 1; SELECT 2' });
+    expect(several.error?.code).toBe('VALIDATION_ERROR');
+
+    const readOnly = await runWithContext({ session: {}, project: 'sandbox', readOnly: true }, () => {
+      return call('explain_query', { query: 'DELETE FROM pedidos WHERE id = 1', analyze: true });
+    });
+    expect(readOnly.error?.code).toBe('PERMISSION_DENIED');
+
+    const estimated = await runWithContext({ session: {}, project: 'sandbox', readOnly: true }, () => {
+      return call('explain_query', { query: 'DELETE FROM pedidos WHERE id = 1' });
+    });
+    expect(estimated).toMatchObject({ success: true, command: 'DELETE' });
+  });
+});
+
+describe('create_index / drop_table', () => {
+  it('crea un índice', async () => {
+    const result = await call('create_index', { tableName: 'todos', columns: ['title'] });
+    expect(result.success).toBe(true);
+  });
+
+  it('pide confirmación antes de eliminar la tabla', async () => {
+    const preview = await call('drop_table', { tableName: 'todos', cascade: true });
+    expect(preview).toMatchObject({ success: true, confirmationRequired: true });
+
+    const dropped = await call('drop_table', {
+      tableName: 'todos',
+      cascade: true,
+      confirmationToken: preview.confirmationToken
+    });
+    expect(dropped.success).toBe(true);
+
+    const tables = await listTables();
+    expect(tables.tables.map(table => table.table_name)).not.toContain('todos');
+  });
+});
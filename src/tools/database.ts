@@ -1,195 +1,397 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { getConnection } from '../utils/connection.js';
-import { validateInput, sanitizeSQLIdentifier } from '../utils/validation.js';
-import { DatabaseQueryArgs, DatabaseQuerySchema, CreateTableArgs, CreateTableSchema } from '../types/mcp.js';
-import { logError, logInfo } from '../utils/logger.js';
+import { defineTool } from './registry.js';
+import { FieldDef, PoolClient, QueryResult } from 'pg';
+import { getConnection, SupabaseConnection } from '../utils/connection.js';
+import { quoteSQLIdentifier, sanitizeSQLIdentifier } from '../utils/validation.js';
+import {
+  DatabaseQueryArgs, DatabaseQuerySchema, CreateTableArgs, CreateTableSchema, ListTablesArgs, ListTablesSchema,
+  DescribeTableArgs, DescribeTableSchema, DropTableArgs, DropTableSchema, CreateIndexArgs, CreateIndexSchema,
+  ExplainQueryArgs, ExplainQuerySchema
+} from '../types/mcp.js';
+import { logInfo } from '../utils/logger.js';
+import { PermissionDeniedError, toErrorResult, ValidationError } from '../utils/errors.js';
+import { isReadOnlyRequest } from '../utils/context.js';
+import { isDryRun, previewStatements } from '../utils/dry-run.js';
+import { requireConfirmation } from '../utils/confirmation.js';
+import { CursorSource, arraySource, maxOpenCursors, paginate, reserveCursorSlot } from '../utils/pagination.js';
+import { userClaims } from '../utils/jwt.js';
+import { ClassifiedStatement, classifyStatements, strongestKind, withLimit } from '../utils/sql.js';
+import { ExplainOutput, PlanNode, TableStats, analyzePlan, planRelations } from '../utils/explain.js';
 
-export const databaseTools: Tool[] = [
-  {
-    name: 'database_query',
-    description: 'Ejecutar consultas SQL en la base de datos de Supabase',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'La consulta SQL a ejecutar'
-        },
-        params: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Parámetros para la consulta SQL'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['query']
-    }
-  },
-  {
-    name: 'create_table',
-    description: 'Crear una nueva tabla en la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        },
-        columns: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              name: { type: 'string' },
-              type: { type: 'string' },
-              nullable: { type: 'boolean', default: true },
-              defaultValue: { type: 'string' },
-              isUnique: { type: 'boolean', default: false },
-              isPrimaryKey: { type: 'boolean', default: false }
-            },
-            required: ['name', 'type']
-          }
-        },
-        enableRLS: {
-          type: 'boolean',
-          description: 'Habilitar Row Level Security',
-          default: true
-        }
-      },
-      required: ['name', 'columns']
-    }
-  },
-  {
-    name: 'list_tables',
-    description: 'Listar todas las tablas en la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
+// Identidad con la que PostgREST ejecutaría la consulta: rol de base de datos y claims del JWT
+interface Impersonation {
+  role: string;
+  claims: Record<string, unknown>;
+}
+
+// Sin asRole, el rol sale del claim role como en PostgREST; sin claims, anon
+const resolveImpersonation = async (
+  connection: SupabaseConnection,
+  args: Pick<DatabaseQueryArgs, 'asRole' | 'asUser' | 'jwtClaims'>
+): Promise<Impersonation | null> => {
+  const { asRole, asUser, jwtClaims } = args;
+  if (!asRole && !asUser && !jwtClaims) {
+    return null;
+  }
+  
+  const claims = { ...(asUser ? await userClaims(connection, asUser) : {}), ...jwtClaims };
+  const role = asRole ?? (typeof claims.role === 'string' ? claims.role : 'anon');
+  return { role, claims: { ...claims, role } };
+};
+
+// Igual que PostgREST: claims en request.jwt.claims (más los ajustes heredados request.jwt.claim.*)
+// y SET LOCAL ROLE. Ambos se deshacen con la transacción
+const applyImpersonation = async (client: PoolClient, impersonation: Impersonation): Promise<void> => {
+  const { role, claims } = impersonation;
+  await client.query(
+    `SELECT set_config('request.jwt.claims', $1, true),
+            set_config('request.jwt.claim.sub', $2, true),
+            set_config('request.jwt.claim.role', $3, true);`,
+    [JSON.stringify(claims), typeof claims.sub === 'string' ? claims.sub : '', role]
+  );
+  await client.query(`SET LOCAL ROLE ${quoteSQLIdentifier(role)};`);
+};
+
+// Ajustes de la transacción de cada llamada a database_query
+interface QueryTransaction {
+  readOnly: boolean;
+  schema: string;
+  statementTimeoutMs: number;
+  impersonation: Impersonation | null;
+}
+
+// Como el search_path de Supabase: el esquema pedido y después public y extensions (uuid_generate_v4...)
+const searchPathFor = (schema: string): string => {
+  return [...new Set([schema, 'public', 'extensions'])].map(quoteSQLIdentifier).join(', ');
+};
+
+// BEGIN y los SET LOCAL de la llamada, que se deshacen solos al cerrar la transacción
+const beginQueryTransaction = async (client: PoolClient, options: QueryTransaction): Promise<void> => {
+  await client.query(options.readOnly ? 'BEGIN TRANSACTION READ ONLY' : 'BEGIN');
+  await client.query(`SET LOCAL search_path TO ${searchPathFor(options.schema)}`);
+  await client.query(`SET LOCAL statement_timeout = ${options.statementTimeoutMs}`);
+  if (options.impersonation) {
+    await applyImpersonation(client, options.impersonation);
+  }
+};
+
+interface QueryCursorSource extends CursorSource {
+  fields: FieldDef[];
+}
+
+// Cursor de Postgres en un cliente reservado: la transacción sigue abierta entre llamadas a
+// fetch_more y se cierra al leer la última fila, al caducar el cursor o cuando hay demasiados abiertos
+// sobre el mismo pool (se cierra el menos usado). La transacción es siempre READ ONLY: no deja escrituras
+// ni sus bloqueos abiertos entre llamadas. Con otra identidad termina siempre en ROLLBACK
+const openQueryCursor = async (
+  connection: SupabaseConnection,
+  query: string,
+  params: unknown[] | undefined,
+  options: QueryTransaction
+): Promise<QueryCursorSource> => {
+  const { name, pool } = connection.getConfig();
+  await reserveCursorSlot(name, maxOpenCursors(pool.max));
+  const client = await connection.checkoutClient();
+  try {
+    await connection.runCancellable(client, async () => {
+      await beginQueryTransaction(client, { ...options, readOnly: true });
+      await client.query(`DECLARE mcp_cursor NO SCROLL CURSOR FOR ${query}`, params);
+    });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    client.release();
+    throw error;
+  }
+  
+  const source: QueryCursorSource = {
+    pool: name,
+    fields: [],
+    fetch: (count) => connection.runCancellable(client, async () => {
+      const result = await client.query(`FETCH FORWARD ${count + 1} FROM mcp_cursor`);
+      source.fields = result.fields;
+      return { items: result.rows, done: result.rows.length <= count };
+    }),
+    close: async () => {
+      try {
+        // En una transacción abortada COMMIT equivale a ROLLBACK
+        await client.query(options.impersonation ? 'ROLLBACK' : 'COMMIT');
+      } finally {
+        client.release();
       }
     }
-  },
-  {
-    name: 'describe_table',
-    description: 'Obtener información detallada de una tabla',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        tableName: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['tableName']
-    }
-  },
-  {
-    name: 'drop_table',
-    description: 'Eliminar una tabla de la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        tableName: {
-          type: 'string',
-          description: 'Nombre de la tabla a eliminar'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        },
-        cascade: {
-          type: 'boolean',
-          description: 'Usar CASCADE para eliminar dependencias',
-          default: false
-        }
-      },
-      required: ['tableName']
+  };
+  return source;
+};
+
+// Todas las sentencias en una única transacción: o se aplican todas o ninguna. Las lecturas llevan
+// el mismo LIMIT que una consulta suelta, porque sus filas se cargan enteras en memoria
+const runStatements = (
+  connection: SupabaseConnection,
+  statements: ClassifiedStatement[],
+  params: unknown[] | undefined,
+  options: QueryTransaction,
+  limit: number
+): Promise<QueryResult[]> => {
+  return connection.withClient(async (client) => {
+    await beginQueryTransaction(client, options);
+    try {
+      const results: QueryResult[] = [];
+      for (const statement of statements) {
+        results.push(await client.query(withLimit(statement, limit), params));
+      }
+      // Con otra identidad ni siquiera las escrituras permitidas por RLS llegan a confirmarse
+      await client.query(options.impersonation ? 'ROLLBACK' : 'COMMIT');
+      return results;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     }
-  },
-  {
-    name: 'create_index',
-    description: 'Crear un índice en una tabla',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        tableName: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        columns: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Columnas para el índice'
-        },
-        indexName: {
-          type: 'string',
-          description: 'Nombre del índice (opcional)'
-        },
-        unique: {
-          type: 'boolean',
-          description: 'Crear índice único',
-          default: false
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['tableName', 'columns']
+  });
+};
+
+// VACUUM, CREATE INDEX CONCURRENTLY...: sin transacción, con ajustes de sesión que se restauran al terminar
+const runOutsideTransaction = (
+  connection: SupabaseConnection,
+  statement: ClassifiedStatement,
+  options: QueryTransaction
+): Promise<QueryResult[]> => {
+  return connection.withClient(async (client) => {
+    await client.query(`SET search_path TO ${searchPathFor(options.schema)}`);
+    await client.query(`SET statement_timeout = ${options.statementTimeoutMs}`);
+    try {
+      return [await client.query(statement.sql)];
+    } finally {
+      await client.query('RESET search_path; RESET statement_timeout;');
     }
+  });
+};
+
+// Comprueba lo que la llamada permite ejecutar antes de tocar la base de datos
+const checkStatements = (statements: ClassifiedStatement[], args: DatabaseQueryArgs, hasImpersonation: boolean): void => {
+  const writes = [...new Set(statements.filter(statement => statement.kind !== 'read').map(statement => statement.command))];
+  if (writes.length > 0 && isReadOnlyRequest()) {
+    throw new PermissionDeniedError(`Acceso denegado: la consulta modifica la base de datos (${writes.join(', ')}) y el modo sólo lectura está activo`);
   }
-];
+  if (writes.length > 0 && !args.allowWrite) {
+    throw new PermissionDeniedError(`La consulta modifica la base de datos (${writes.join(', ')}) y no se indicó allowWrite`, {
+      hint: 'Repite la llamada con allowWrite: true para ejecutar escrituras y DDL'
+    });
+  }
+  if (args.params && args.params.length > 0 && statements.length > 1) {
+    throw new ValidationError('Los parámetros sólo se admiten en consultas de una única sentencia');
+  }
+  const outside = statements.find(statement => !statement.transactional);
+  if (outside && (statements.length > 1 || hasImpersonation)) {
+    throw new ValidationError(`${outside.command} no puede ejecutarse dentro de una transacción`, {
+      hint: 'Envíala como única sentencia y sin asRole, asUser ni jwtClaims'
+    });
+  }
+};
 
-export const handleDatabaseQuery = async (args: unknown) => {
-  const { query, params, schema } = validateInput(DatabaseQuerySchema, args);
+export const handleDatabaseQuery = async (args: DatabaseQueryArgs) => {
+  const { query, params, schema, allowWrite, limit, statementTimeoutMs } = args;
   const connection = getConnection();
   
   try {
-    logInfo(`Ejecutando consulta en esquema ${schema}: ${query.substring(0, 100)}...`);
+    const statements = classifyStatements(query);
+    const kind = strongestKind(statements);
+    logInfo(`Ejecutando consulta (${kind}) en esquema ${schema}: ${query.substring(0, 100)}...`);
     
-    const result = await connection.getPgClient().query(query, params);
+    const impersonation = await resolveImpersonation(connection, args);
+    checkStatements(statements, args, impersonation !== null);
+    
+    // Con otra identidad todo termina en ROLLBACK, así que no hace falta confirmar
+    if (kind === 'dangerous' && !impersonation) {
+      const confirmation = await requireConfirmation('database_query', args, async () => ({
+        statements: statements
+          .filter(statement => statement.kind === 'dangerous')
+          .map(({ command, reason, sql }) => ({ command, reason, sql }))
+      }));
+      if (confirmation) {
+        return confirmation;
+      }
+    }
+    
+    // Sin allowWrite (o en modo sólo lectura) PostgreSQL rechaza cualquier escritura, aunque venga de una función
+    const options: QueryTransaction = { readOnly: isReadOnlyRequest() || !allowWrite, schema, statementTimeoutMs, impersonation };
+    const executedAs = impersonation && { executedAs: impersonation };
+    const [single] = statements;
+    
+    // Las lecturas se leen con un cursor del servidor: sólo se trae la primera página. Con allowWrite una
+    // lectura puede llamar a funciones que escriben, así que se ejecuta entera en su transacción
+    if (single && statements.length === 1 && single.cursorable && options.readOnly) {
+      const source = await openQueryCursor(connection, withLimit(single, limit), params, options);
+      const page = await paginate('database_query', 'rows', source);
+      return {
+        success: true,
+        rowCount: page.count,
+        rows: page.items,
+        command: 'SELECT',
+        fields: source.fields.map(field => ({
+          name: field.name,
+          dataTypeID: field.dataTypeID
+        })),
+        truncated: page.truncated,
+        ...(page.cursor && { cursor: page.cursor }),
+        ...(!single.hasLimit && { limit }),
+        ...executedAs
+      };
+    }
+    
+    const results = single && !single.transactional
+      ? await runOutsideTransaction(connection, single, options)
+      : await runStatements(connection, statements, params, options, limit);
+    const result = results[results.length - 1]!;
+    const limited = (statement: ClassifiedStatement) => statement.cursorable && !statement.hasLimit;
+    const last = statements[statements.length - 1]!;
+    
+    // Un INSERT ... RETURNING también puede devolver demasiadas filas para una sola respuesta
+    const page = await paginate('database_query', 'rows', arraySource(result.rows ?? []));
     
     return {
       success: true,
       rowCount: result.rowCount,
-      rows: result.rows,
+      rows: page.items,
       command: result.command,
       fields: result.fields?.map(field => ({
         name: field.name,
         dataTypeID: field.dataTypeID
-      }))
+      })),
+      truncated: page.truncated,
+      ...(page.cursor && { cursor: page.cursor }),
+      ...(limited(last) && { limit }),
+      ...(statements.length > 1 && {
+        statements: statements.map((statement, index) => ({
+          command: statement.command,
+          kind: statement.kind,
+          rowCount: results[index]?.rowCount ?? null,
+          ...(limited(statement) && { limit })
+        }))
+      }),
+      ...executedAs
     };
   } catch (error) {
-    logError(error as Error, 'database_query');
+    // Una lectura que escribe a través de una función o un SELECT ... FOR UPDATE
+    if ((error as { code?: string }).code === '25006' && !allowWrite && !isReadOnlyRequest()) {
+      return toErrorResult(new PermissionDeniedError('La consulta intentó escribir en una transacción de sólo lectura', {
+        detail: (error as Error).message,
+        hint: 'Si la escritura es intencionada, repite la llamada con allowWrite: true'
+      }), 'database_query');
+    }
+    return toErrorResult(error, 'database_query');
+  }
+};
+
+// Sentencias con plan de ejecución; el resto de EXPLAIN (CREATE TABLE AS, EXECUTE...) no se admite
+const EXPLAINABLE_COMMANDS = new Set(['SELECT', 'VALUES', 'TABLE', 'WITH', 'INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+
+const TABLE_STATS_QUERY = `
+  SELECT
+    n.nspname AS schema,
+    c.relname AS table,
+    c.reltuples::float8 AS rows,
+    ARRAY(
+      SELECT a.attname::text FROM pg_attribute a
+      WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+      ORDER BY a.attnum
+    ) AS columns,
+    COALESCE((
+      SELECT json_agg(json_build_object(
+        'name', ic.relname,
+        'columns', ARRAY(
+          SELECT a.attname::text FROM unnest(i.indkey::int2[]) WITH ORDINALITY AS k(attnum, position)
+          JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum = k.attnum
+          ORDER BY k.position
+        )
+      ))
+      FROM pg_index i JOIN pg_class ic ON ic.oid = i.indexrelid
+      WHERE i.indrelid = c.oid AND NOT 0 = ANY(i.indkey::int2[])
+    ), '[]'::json) AS indexes
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE (n.nspname, c.relname) IN (SELECT * FROM unnest($1::text[], $2::text[]))
+`;
+
+const tableStats = async (connection: SupabaseConnection, output: ExplainOutput): Promise<TableStats[]> => {
+  const relations = planRelations(output);
+  if (relations.length === 0) {
+    return [];
+  }
+  const result = await connection.getPool().query<TableStats>(TABLE_STATS_QUERY, [
+    relations.map(relation => relation.schema),
+    relations.map(relation => relation.table)
+  ]);
+  return result.rows;
+};
+
+// VERBOSE se pide por el esquema de cada tabla; la lista Output de cada nodo sólo engordaría la respuesta
+const withoutOutput = (node: PlanNode): PlanNode => {
+  const { Output: _output, Plans, ...rest } = node;
+  return { ...rest, ...(Plans && { Plans: Plans.map(withoutOutput) }) } as PlanNode;
+};
+
+export const handleExplainQuery = async (args: ExplainQueryArgs) => {
+  const { query, params, schema, analyze, buffers, statementTimeoutMs } = args;
+  const connection = getConnection();
+  
+  try {
+    const statements = classifyStatements(query);
+    if (statements.length > 1) {
+      throw new ValidationError('explain_query analiza una única sentencia');
+    }
+    const statement = statements[0]!;
+    const [first] = statement.command.split(' ');
+    if (!EXPLAINABLE_COMMANDS.has(first ?? '') || statement.command === 'SELECT INTO') {
+      throw new ValidationError(`${statement.command} no tiene un plan de ejecución que analizar`, {
+        hint: 'explain_query admite SELECT, WITH, VALUES, TABLE, INSERT, UPDATE, DELETE y MERGE'
+      });
+    }
+    
+    // EXPLAIN ANALYZE ejecuta la sentencia de verdad, aunque después se deshaga
+    const writes = statement.kind !== 'read';
+    if (analyze && writes && isReadOnlyRequest()) {
+      throw new PermissionDeniedError(`Acceso denegado: EXPLAIN ANALYZE ejecutaría ${statement.command} y el modo sólo lectura está activo`, {
+        hint: 'Sin analyze se obtiene el plan estimado sin ejecutar la sentencia'
+      });
+    }
+    
+    const impersonation = await resolveImpersonation(connection, args);
+    const options: QueryTransaction = { readOnly: !(analyze && writes), schema, statementTimeoutMs, impersonation };
+    const explainOptions = ['FORMAT JSON', 'VERBOSE', ...(analyze ? ['ANALYZE'] : []), ...(buffers ? ['BUFFERS'] : [])];
+    logInfo(`Analizando plan (${explainOptions.join(', ')}) en esquema ${schema}: ${query.substring(0, 100)}...`);
+    
+    const output = await connection.withClient(async (client) => {
+      await beginQueryTransaction(client, options);
+      try {
+        const result = await client.query(`EXPLAIN (${explainOptions.join(', ')}) ${statement.sql}`, params);
+        const plan = result.rows[0]?.['QUERY PLAN'];
+        return (typeof plan === 'string' ? JSON.parse(plan) : plan)[0] as ExplainOutput;
+      } finally {
+        // Con ANALYZE las escrituras se ejecutan, pero nunca se confirman
+        await client.query('ROLLBACK');
+      }
+    });
+    
+    const analysis = analyzePlan(output, await tableStats(connection, output), analyze);
+    
     return {
-      success: false,
-      error: (error as Error).message
+      success: true,
+      command: statement.command,
+      analyzed: analyze,
+      ...(analyze && writes && { rolledBack: true }),
+      totalCost: output.Plan['Total Cost'],
+      ...(output['Planning Time'] !== undefined && { planningTimeMs: output['Planning Time'] }),
+      ...(output['Execution Time'] !== undefined && { executionTimeMs: output['Execution Time'] }),
+      ...analysis,
+      plan: withoutOutput(output.Plan),
+      ...(impersonation && { executedAs: impersonation })
     };
+  } catch (error) {
+    return toErrorResult(error, 'explain_query');
   }
 };
 
-export const handleCreateTable = async (args: unknown) => {
-  const { name, schema, columns, enableRLS } = validateInput(CreateTableSchema, args);
+export const handleCreateTable = async (args: CreateTableArgs) => {
+  const { name, schema, columns, enableRLS, dryRun } = args;
   const connection = getConnection();
   
   try {
@@ -226,12 +428,21 @@ export const handleCreateTable = async (args: unknown) => {
       );
     `;
     
-    await connection.getPgClient().query(createTableQuery);
+    const statements = [createTableQuery];
     
     // Habilitar RLS si se especifica
     if (enableRLS) {
-      const enableRLSQuery = `ALTER TABLE ${sanitizedSchema}.${sanitizedName} ENABLE ROW LEVEL SECURITY;`;
-      await connection.getPgClient().query(enableRLSQuery);
+      statements.push(`ALTER TABLE ${sanitizedSchema}.${sanitizedName} ENABLE ROW LEVEL SECURITY;`);
+    }
+    
+    if (isDryRun(dryRun)) {
+      return previewStatements(connection, statements, [
+        { type: 'table', name: `${sanitizedSchema}.${sanitizedName}`, action: 'create' }
+      ]);
+    }
+    
+    for (const statement of statements) {
+      await connection.getPool().query(statement);
     }
     
     logInfo(`Tabla ${sanitizedSchema}.${sanitizedName} creada exitosamente`);
@@ -242,16 +453,12 @@ export const handleCreateTable = async (args: unknown) => {
       rlsEnabled: enableRLS
     };
   } catch (error) {
-    logError(error as Error, 'create_table');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'create_table');
   }
 };
 
-export const handleListTables = async (args: unknown) => {
-  const { schema = 'public' } = args as { schema?: string };
+export const handleListTables = async (args: ListTablesArgs) => {
+  const { schema } = args;
   const connection = getConnection();
   
   try {
@@ -267,23 +474,19 @@ export const handleListTables = async (args: unknown) => {
       ORDER BY table_name;
     `;
     
-    const result = await connection.getPgClient().query(query, [sanitizedSchema]);
+    const result = await connection.getPool().query(query, [sanitizedSchema]);
     
     return {
       success: true,
       tables: result.rows
     };
   } catch (error) {
-    logError(error as Error, 'list_tables');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'list_tables');
   }
 };
 
-export const handleDescribeTable = async (args: unknown) => {
-  const { tableName, schema = 'public' } = args as { tableName: string; schema?: string };
+export const handleDescribeTable = async (args: DescribeTableArgs) => {
+  const { tableName, schema } = args;
   const connection = getConnection();
   
   try {
@@ -304,27 +507,50 @@ export const handleDescribeTable = async (args: unknown) => {
       ORDER BY ordinal_position;
     `;
     
-    const result = await connection.getPgClient().query(query, [sanitizedSchema, sanitizedTable]);
+    const result = await connection.getPool().query(query, [sanitizedSchema, sanitizedTable]);
     
     return {
       success: true,
       columns: result.rows
     };
   } catch (error) {
-    logError(error as Error, 'describe_table');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'describe_table');
   }
 };
 
-export const handleDropTable = async (args: unknown) => {
-  const { tableName, schema = 'public', cascade = false } = args as { 
-    tableName: string; 
-    schema?: string; 
-    cascade?: boolean; 
+// Filas que se perderían y objetos que dependen de la tabla (los que CASCADE eliminaría o que
+// bloquean el DROP sin CASCADE: vistas, claves foráneas de otras tablas, funciones...)
+const previewDropTable = async (schema: string, table: string, cascade: boolean) => {
+  const connection = getConnection();
+  const qualifiedName = `${schema}.${table}`;
+  
+  const rowsResult = await connection.getPool().query(`SELECT COUNT(*)::bigint AS count FROM ${qualifiedName};`);
+  
+  const dependentsQuery = `
+    SELECT DISTINCT
+      pg_describe_object(d.classid, d.objid, d.objsubid) AS object,
+      d.classid::regclass AS catalog
+    FROM pg_depend d
+    WHERE d.refclassid = 'pg_class'::regclass
+      AND d.refobjid = $1::regclass
+      AND d.deptype = 'n'
+    ORDER BY object;
+  `;
+  const dependentsResult = await connection.getPool().query(dependentsQuery, [qualifiedName]);
+  
+  return {
+    table: qualifiedName,
+    rows: Number(rowsResult.rows[0]?.count ?? 0),
+    cascade,
+    dependentObjects: dependentsResult.rows,
+    ...(!cascade && dependentsResult.rows.length > 0 && {
+      warning: 'Hay objetos dependientes: sin cascade el DROP fallará'
+    })
   };
+};
+
+export const handleDropTable = async (args: DropTableArgs) => {
+  const { tableName, schema, cascade, dryRun } = args;
   const connection = getConnection();
   
   try {
@@ -333,7 +559,26 @@ export const handleDropTable = async (args: unknown) => {
     
     const query = `DROP TABLE IF EXISTS ${sanitizedSchema}.${sanitizedTable}${cascade ? ' CASCADE' : ''};`;
     
-    await connection.getPgClient().query(query);
+    if (isDryRun(dryRun)) {
+      return previewStatements(connection, [query], [
+        { type: 'table', name: `${sanitizedSchema}.${sanitizedTable}`, action: 'drop' }
+      ]);
+    }
+    
+    // Si la tabla no existe, DROP TABLE IF EXISTS no hace nada y no hay nada que confirmar
+    const exists = await connection.getPool().query('SELECT to_regclass($1) IS NOT NULL AS exists;', [
+      `${sanitizedSchema}.${sanitizedTable}`
+    ]);
+    if (exists.rows[0]?.exists) {
+      const confirmation = await requireConfirmation('drop_table', args, () => {
+        return previewDropTable(sanitizedSchema, sanitizedTable, cascade);
+      });
+      if (confirmation) {
+        return confirmation;
+      }
+    }
+    
+    await connection.getPool().query(query);
     
     logInfo(`Tabla ${sanitizedSchema}.${sanitizedTable} eliminada exitosamente`);
     
@@ -342,22 +587,12 @@ export const handleDropTable = async (args: unknown) => {
       message: `Tabla ${sanitizedSchema}.${sanitizedTable} eliminada exitosamente`
     };
   } catch (error) {
-    logError(error as Error, 'drop_table');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'drop_table');
   }
 };
 
-export const handleCreateIndex = async (args: unknown) => {
-  const { tableName, columns, indexName, unique = false, schema = 'public' } = args as {
-    tableName: string;
-    columns: string[];
-    indexName?: string;
-    unique?: boolean;
-    schema?: string;
-  };
+export const handleCreateIndex = async (args: CreateIndexArgs) => {
+  const { tableName, columns, indexName, unique, schema, dryRun } = args;
   const connection = getConnection();
   
   try {
@@ -373,7 +608,14 @@ export const handleCreateIndex = async (args: unknown) => {
       ON ${sanitizedSchema}.${sanitizedTable} (${sanitizedColumns.join(', ')});
     `;
     
-    await connection.getPgClient().query(query);
+    if (isDryRun(dryRun)) {
+      return previewStatements(connection, [query], [
+        { type: 'index', name: `${sanitizedSchema}.${sanitizedIndexName}`, action: 'create' },
+        { type: 'table', name: `${sanitizedSchema}.${sanitizedTable}`, action: 'alter' }
+      ]);
+    }
+    
+    await connection.getPool().query(query);
     
     logInfo(`Índice ${sanitizedIndexName} creado exitosamente`);
     
@@ -383,10 +625,57 @@ export const handleCreateIndex = async (args: unknown) => {
       indexName: sanitizedIndexName
     };
   } catch (error) {
-    logError(error as Error, 'create_index');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'create_index');
   }
-};
\ No newline at end of file
+};
+
+export const databaseTools = [
+  defineTool({
+    name: 'database_query',
+    description: 'Ejecutar consultas SQL en la base de datos de Supabase. Las lecturas van en una transacción de sólo lectura con LIMIT automático; INSERT, UPDATE, DDL y demás escrituras requieren allowWrite, y DROP, TRUNCATE o DELETE/UPDATE sin WHERE, además, confirmación',
+    schema: DatabaseQuerySchema,
+    handler: handleDatabaseQuery,
+    resultItems: 'rows'
+  }),
+  defineTool({
+    name: 'explain_query',
+    description: 'Obtener y analizar el plan de ejecución de una consulta (EXPLAIN FORMAT JSON, opcionalmente con ANALYZE y BUFFERS): escaneos secuenciales sobre tablas grandes, estimaciones de filas erróneas, ordenaciones que se vuelcan a disco, los nodos más caros e índices que se podrían crear con create_index. Con ANALYZE las escrituras se ejecutan en una transacción que se deshace',
+    schema: ExplainQuerySchema,
+    handler: handleExplainQuery,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'create_table',
+    description: 'Crear una nueva tabla en la base de datos',
+    schema: CreateTableSchema,
+    handler: handleCreateTable
+  }),
+  defineTool({
+    name: 'list_tables',
+    description: 'Listar todas las tablas en la base de datos',
+    schema: ListTablesSchema,
+    handler: handleListTables,
+    resultItems: 'tables',
+    readOnly: true
+  }),
+  defineTool({
+    name: 'describe_table',
+    description: 'Obtener información detallada de una tabla',
+    schema: DescribeTableSchema,
+    handler: handleDescribeTable,
+    resultItems: 'columns',
+    readOnly: true
+  }),
+  defineTool({
+    name: 'drop_table',
+    description: 'Eliminar una tabla de la base de datos',
+    schema: DropTableSchema,
+    handler: handleDropTable
+  }),
+  defineTool({
+    name: 'create_index',
+    description: 'Crear un índice en una tabla',
+    schema: CreateIndexSchema,
+    handler: handleCreateIndex
+  })
+];
@@ -0,0 +1,75 @@
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { runWithContext } from '../utils/context.js';
+import { DiagnosticCheck, diagnosticTools } from './diagnostics.js';
+
+interface Report {
+  instance: string;
+  status: string;
+  summary: { fail: number };
+  checks: DiagnosticCheck[];
+}
+
+const call = toolCaller(diagnosticTools);
+
+const checkOf = (report: Report, component: string, check: string) => {
+  return report.checks.find(entry => entry.component === component && entry.check.includes(check));
+};
+
+useSandbox({
+  profiles: profiles => {
+    const profile = profiles.profiles.sandbox!;
+    // Mismo JWT secret, pero ningún servicio escuchando y claves a punto de caducar
+    const roto = {
+      ...profile,
+      name: 'roto',
+      url: 'http://127.0.0.1:9',
+      dbUrl: 'postgresql://postgres@127.0.0.1:9/postgres',
+      anonKey: jwt.sign({ role: 'anon', exp: Math.floor(Date.now() / 1000) + 24 * 60 * 60 }, profile.jwtSecret),
+      functionsDir: path.join(profile.functionsDir, 'no-existe')
+    };
+    const sinanon = { ...profile, name: 'sinanon', anonKey: '' };
+    return { ...profiles, profiles: { ...profiles.profiles, roto, sinanon } };
+  }
+});
+
+describe('diagnose_instance', () => {
+  it('informa de cada servicio, esquema, clave y del directorio de funciones', async () => {
+    const report = await call<Report>('diagnose_instance');
+    expect(report).toMatchObject({ success: true, instance: 'sandbox' });
+
+    expect(checkOf(report, 'postgres', 'conexión')?.status).toBe('pass');
+    expect(checkOf(report, 'postgres', 'esquema auth')?.status).toBe('pass');
+    expect(checkOf(report, 'postgres', 'esquema storage')?.status).toBe('pass');
+    expect(checkOf(report, 'auth', 'health')?.status).toBe('pass');
+    expect(checkOf(report, 'storage', 'status')?.status).toBe('pass');
+    expect(checkOf(report, 'keys', 'service_role')).toMatchObject({ status: 'pass', message: 'Firma y claims válidos' });
+    expect(checkOf(report, 'keys', 'anon')?.status).toBe('pass');
+    expect(checkOf(report, 'functions', 'SUPABASE_FUNCTIONS_DIR')?.status).toBe('pass');
+
+    // El sandbox no simula PostgREST ni Realtime ni crea sus esquemas
+    expect(checkOf(report, 'rest', '/rest/v1/')?.status).toBe('warn');
+    expect(checkOf(report, 'postgres', 'esquema realtime')).toMatchObject({ status: 'fail', hint: expect.any(String) });
+    expect(report.status).toBe('fail');
+    expect(report.summary.fail).toBe(report.checks.filter(check => check.status === 'fail').length);
+  });
+
+  it('marca como fallo los servicios sin respuesta y sugiere cómo corregirlos', async () => {
+    const report = await runWithContext({ session: {}, project: 'roto' }, () => call<Report>('diagnose_instance', { timeoutMs: 2000 }));
+    expect(report).toMatchObject({ success: true, instance: 'roto', status: 'fail' });
+
+    expect(checkOf(report, 'postgres', 'conexión')).toMatchObject({ status: 'fail', hint: expect.stringContaining('SUPABASE_DB_URL') });
+    expect(checkOf(report, 'postgres', 'esquema auth')?.message).toContain('sin conexión');
+    for (const component of ['auth', 'rest', 'storage', 'realtime', 'functions']) {
+      expect(report.checks.find(check => check.component === component && check.check.startsWith('GET'))?.status).toBe('fail');
+    }
+    expect(checkOf(report, 'keys', 'anon')).toMatchObject({ status: 'warn', message: expect.stringContaining('Caduca') });
+    expect(checkOf(report, 'functions', 'SUPABASE_FUNCTIONS_DIR')?.status).toBe('fail');
+  });
+
+  it('sugiere la variable del perfil para la clave que falta', async () => {
+    const report = await runWithContext({ session: {}, project: 'sinanon' }, () => call<Report>('diagnose_instance'));
+    expect(checkOf(report, 'keys', 'anon')).toMatchObject({ status: 'warn', hint: expect.stringContaining('SUPABASE_SINANON_ANON_KEY') });
+  });
+});
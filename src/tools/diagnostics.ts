@@ -0,0 +1,274 @@
+import { defineTool } from './registry.js';
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { getConnection, SupabaseConnection } from '../utils/connection.js';
+import { getRequestSignal } from '../utils/context.js';
+import { DiagnoseInstanceArgs, DiagnoseInstanceSchema } from '../types/mcp.js';
+import { envPrefix, verifyApiKey } from '../config/env.js';
+import { logInfo } from '../utils/logger.js';
+import { toErrorResult } from '../utils/errors.js';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface DiagnosticCheck {
+  component: string;
+  check: string;
+  status: CheckStatus;
+  message: string;
+  hint?: string;
+  durationMs?: number;
+}
+
+// Esquemas que crean las imágenes de Supabase; sin ellos fallan Auth, Storage, Realtime o los webhooks
+const REQUIRED_SCHEMAS = ['auth', 'storage', 'realtime', 'supabase_functions'];
+
+// Una clave que caduca antes de este plazo se marca como aviso
+const KEY_EXPIRY_WARNING_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface ServiceProbe {
+  component: string;
+  path: string;
+  // El servicio respondió aunque no tenga una ruta de salud (p. ej. el edge runtime sin nombre de función)
+  anyResponse?: boolean;
+  hint: string;
+}
+
+// Endpoints de salud de cada servicio detrás de Kong, los mismos que usan los healthchecks del docker-compose
+const SERVICE_PROBES: ServiceProbe[] = [
+  { component: 'auth', path: '/auth/v1/health', hint: 'Revisa el contenedor auth (docker compose logs auth) y GOTRUE_DB_DATABASE_URL' },
+  { component: 'rest', path: '/rest/v1/', hint: 'Revisa el contenedor rest (docker compose logs rest) y PGRST_DB_URI' },
+  { component: 'storage', path: '/storage/v1/status', hint: 'Revisa el contenedor storage (docker compose logs storage) y su DATABASE_URL' },
+  {
+    component: 'realtime',
+    path: '/realtime/v1/api/tenants/realtime-dev/health',
+    hint: 'Revisa el contenedor realtime (docker compose logs realtime); el tenant por defecto del self-hosted es realtime-dev'
+  },
+  { component: 'functions', path: '/functions/v1/', anyResponse: true, hint: 'Revisa el contenedor functions (docker compose logs functions)' }
+];
+
+const elapsed = (startedAt: number): number => Date.now() - startedAt;
+
+// Petición con el tiempo máximo del diagnóstico; también se aborta si se cancela la llamada MCP
+const probe = async (connection: SupabaseConnection, pathname: string, timeoutMs: number) => {
+  const { url, serviceRoleKey } = connection.getConfig();
+  const requestSignal = getRequestSignal();
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const response = await fetch(`${url.replace(/\/$/, '')}${pathname}`, {
+    headers: { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}` },
+    signal: requestSignal ? AbortSignal.any([requestSignal, timeout]) : timeout
+  });
+  return { status: response.status, body: await response.text() };
+};
+
+const probeService = async (connection: SupabaseConnection, service: ServiceProbe, timeoutMs: number): Promise<DiagnosticCheck> => {
+  const startedAt = Date.now();
+  const base = { component: service.component, check: `GET ${service.path}` };
+
+  try {
+    const { status, body } = await probe(connection, service.path, timeoutMs);
+    const durationMs = elapsed(startedAt);
+
+    if (status >= 200 && status < 300) {
+      return { ...base, status: 'pass', message: `Responde (${status})`, durationMs };
+    }
+    if (status === 502 || status === 503 || status === 504) {
+      return { ...base, status: 'fail', message: `La pasarela no llega al servicio (${status})`, hint: service.hint, durationMs };
+    }
+    if (status === 401 || status === 403) {
+      return {
+        ...base, status: 'fail', message: `Rechaza la clave service_role (${status})`, durationMs,
+        hint: 'La clave no está firmada con el JWT_SECRET de la instancia; genera otra con generate_api_keys'
+      };
+    }
+    if (status === 404 && body.includes('no Route matched')) {
+      return { ...base, status: 'warn', message: 'Kong no tiene una ruta para este servicio', hint: 'Revisa volumes/api/kong.yml', durationMs };
+    }
+    if (service.anyResponse && status < 500) {
+      return { ...base, status: 'pass', message: `Responde (${status})`, durationMs };
+    }
+    if (status < 500) {
+      return { ...base, status: 'warn', message: `Respuesta inesperada (${status})`, hint: service.hint, durationMs };
+    }
+    return { ...base, status: 'fail', message: `Error del servicio (${status})`, hint: service.hint, durationMs };
+  } catch (error) {
+    const timedOut = (error as Error).name === 'TimeoutError';
+    return {
+      ...base,
+      status: 'fail',
+      message: timedOut ? `Sin respuesta en ${timeoutMs} ms` : `No se pudo conectar: ${(error as Error).message}`,
+      hint: `Comprueba que ${connection.getConfig().url} es accesible desde este equipo. ${service.hint}`,
+      durationMs: elapsed(startedAt)
+    };
+  }
+};
+
+const checkDatabase = async (connection: SupabaseConnection): Promise<DiagnosticCheck[]> => {
+  const startedAt = Date.now();
+  let version: string;
+  try {
+    version = (await connection.getPool().query('SELECT version() AS version')).rows[0]?.version ?? '';
+  } catch (error) {
+    const hint = 'Comprueba SUPABASE_DB_URL (host, puerto, usuario y contraseña) y que el contenedor db está en marcha';
+    return [
+      { component: 'postgres', check: 'conexión', status: 'fail', message: (error as Error).message, hint, durationMs: elapsed(startedAt) },
+      ...REQUIRED_SCHEMAS.map(schema => ({
+        component: 'postgres', check: `esquema ${schema}`, status: 'fail' as const, message: 'No comprobado: sin conexión a PostgreSQL'
+      }))
+    ];
+  }
+
+  const connected: DiagnosticCheck = {
+    component: 'postgres', check: 'conexión', status: 'pass', message: version.split(' on ')[0] ?? version, durationMs: elapsed(startedAt)
+  };
+  let existing: Set<string>;
+  try {
+    const result = await connection.getPool().query<{ nspname: string }>(
+      'SELECT nspname FROM pg_namespace WHERE nspname = ANY($1)',
+      [REQUIRED_SCHEMAS]
+    );
+    existing = new Set(result.rows.map(row => row.nspname));
+  } catch (error) {
+    return [
+      connected,
+      ...REQUIRED_SCHEMAS.map((schema): DiagnosticCheck => ({
+        component: 'postgres', check: `esquema ${schema}`, status: 'fail', message: `No comprobado: ${(error as Error).message}`,
+        hint: 'El usuario de la conexión necesita poder leer el catálogo pg_namespace'
+      }))
+    ];
+  }
+
+  return [
+    connected,
+    ...REQUIRED_SCHEMAS.map((schema): DiagnosticCheck => existing.has(schema)
+      ? { component: 'postgres', check: `esquema ${schema}`, status: 'pass', message: 'Existe' }
+      : {
+        component: 'postgres', check: `esquema ${schema}`, status: 'fail', message: 'No existe',
+        hint: 'Las migraciones iniciales de Supabase no se aplicaron sobre esta base de datos; revisa que SUPABASE_DB_URL apunta a la base de datos de Supabase y los logs del contenedor db'
+      })
+  ];
+};
+
+// Variable de entorno de cada clave, sin el prefijo del perfil
+const KEY_VARIABLES = { serviceRoleKey: 'SERVICE_ROLE_KEY', anonKey: 'ANON_KEY' } as const;
+
+const checkKey = (
+  field: keyof typeof KEY_VARIABLES,
+  key: string,
+  role: string,
+  jwtSecret: string,
+  prefix: string
+): DiagnosticCheck => {
+  const check = `clave ${role}`;
+  if (!key) {
+    return {
+      component: 'keys', check, status: 'warn', message: 'No configurada',
+      hint: `Define ${prefix}${KEY_VARIABLES[field]} para las herramientas que actúan como ${role}`
+    };
+  }
+
+  const errors = verifyApiKey(field, key, role, jwtSecret);
+  if (errors.length > 0) {
+    return { component: 'keys', check, status: 'fail', message: errors.join(', '), hint: 'Genera claves nuevas con generate_api_keys' };
+  }
+
+  const exp = (jwt.decode(key) as jwt.JwtPayload | null)?.exp;
+  if (exp !== undefined && exp * 1000 - Date.now() < KEY_EXPIRY_WARNING_MS) {
+    return {
+      component: 'keys', check, status: 'warn', message: `Caduca el ${new Date(exp * 1000).toISOString()}`,
+      hint: 'Rótala con generate_api_keys y envFile antes de que caduque'
+    };
+  }
+  return { component: 'keys', check, status: 'pass', message: jwtSecret ? 'Firma y claims válidos' : 'Claims válidos (firma sin comprobar)' };
+};
+
+const checkKeys = (connection: SupabaseConnection): DiagnosticCheck[] => {
+  const { name, serviceRoleKey, anonKey, jwtSecret } = connection.getConfig();
+  const prefix = envPrefix(name);
+  return [
+    jwtSecret
+      ? { component: 'keys', check: 'JWT secret', status: 'pass', message: 'Configurado' }
+      : {
+        component: 'keys', check: 'JWT secret', status: 'warn', message: 'No configurado: no se puede comprobar la firma de las claves',
+        hint: 'Define SUPABASE_JWT_SECRET con el JWT_SECRET del .env de Supabase'
+      },
+    checkKey('serviceRoleKey', serviceRoleKey, 'service_role', jwtSecret, prefix),
+    checkKey('anonKey', anonKey, 'anon', jwtSecret, prefix)
+  ];
+};
+
+// create_edge_function y delete_edge_function escriben en el directorio; el runtime sólo necesita leerlo
+const checkFunctionsDir = (connection: SupabaseConnection): DiagnosticCheck[] => {
+  const { functionsDir } = connection.getConfig();
+  const base = { component: 'functions', check: 'SUPABASE_FUNCTIONS_DIR' };
+
+  if (!functionsDir) {
+    return [{ ...base, status: 'warn', message: 'No configurado', hint: 'Define SUPABASE_FUNCTIONS_DIR con el volumen volumes/functions de Supabase' }];
+  }
+  if (!fs.existsSync(functionsDir) || !fs.statSync(functionsDir).isDirectory()) {
+    return [{ ...base, status: 'fail', message: `No existe el directorio ${functionsDir}`, hint: 'Corrige la ruta o crea el directorio' }];
+  }
+  try {
+    fs.accessSync(functionsDir, fs.constants.R_OK | fs.constants.W_OK | fs.constants.X_OK);
+  } catch {
+    return [{
+      ...base, status: 'fail', message: `Sin permisos de lectura y escritura sobre ${functionsDir}`,
+      hint: 'Da permisos de lectura y escritura al usuario que ejecuta el servidor (chown o chmod sobre el volumen)'
+    }];
+  }
+
+  const envPath = path.join(functionsDir, '.env');
+  if (fs.existsSync(envPath)) {
+    try {
+      fs.accessSync(envPath, fs.constants.R_OK);
+    } catch {
+      return [{ ...base, status: 'fail', message: `Sin permiso de lectura sobre ${envPath}`, hint: 'list_secrets necesita poder leer este archivo' }];
+    }
+  }
+
+  const functions = fs.readdirSync(functionsDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && fs.existsSync(path.join(functionsDir, entry.name, 'index.ts')));
+  return [{ ...base, status: 'pass', message: `Legible y escribible (${functions.length} funciones)` }];
+};
+
+export const handleDiagnoseInstance = async (args: DiagnoseInstanceArgs) => {
+  const { timeoutMs } = args;
+  const connection = getConnection();
+
+  try {
+    const [database, services] = await Promise.all([
+      checkDatabase(connection),
+      Promise.all(SERVICE_PROBES.map(service => probeService(connection, service, timeoutMs)))
+    ]);
+    const checks = [...database, ...services, ...checkKeys(connection), ...checkFunctionsDir(connection)];
+
+    const summary = { pass: 0, warn: 0, fail: 0 };
+    checks.forEach(check => summary[check.status] += 1);
+    const status: CheckStatus = summary.fail > 0 ? 'fail' : summary.warn > 0 ? 'warn' : 'pass';
+
+    const { name, url } = connection.getConfig();
+    logInfo(`Diagnóstico de '${name}': ${summary.pass} correctas, ${summary.warn} avisos, ${summary.fail} fallos`);
+
+    return {
+      success: true,
+      instance: name,
+      url,
+      status,
+      summary,
+      checks
+    };
+  } catch (error) {
+    return toErrorResult(error, 'diagnose_instance');
+  }
+};
+
+export const diagnosticTools = [
+  defineTool({
+    name: 'diagnose_instance',
+    description: 'Diagnosticar la instancia: PostgreSQL y sus esquemas, Auth, PostgREST, Storage, Realtime y Edge Functions, las claves de API y el directorio de funciones, con sugerencias para cada fallo',
+    schema: DiagnoseInstanceSchema,
+    handler: handleDiagnoseInstance,
+    readOnly: true,
+    resultItems: 'checks'
+  })
+];
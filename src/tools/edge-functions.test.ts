@@ -0,0 +1,60 @@
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { edgeFunctionTools } from './edge-functions.js';
+
+const call = toolCaller(edgeFunctionTools);
+
+useSandbox();
+
+describe('Edge Functions', () => {
+  it('creates a function and lists it', async () => {
+    const created = await call('create_edge_function', {
+      name: 'hello',
+      source: 'Deno.serve(() => new Response("hi"));',
+      importMap: { std: 'https://deno.land/std/' }
+    });
+    expect(created).toMatchObject({ success: true, verifyJWT: true });
+
+    const listed = await call<{ functions: unknown[] }>('list_edge_functions');
+    expect(listed.functions).toEqual([expect.objectContaining({ name: 'hello', hasIndex: true, hasImportMap: true })]);
+  });
+
+  it('invokes a function with the service_role key', async () => {
+    const invoked = await call('invoke_edge_function', { name: 'hello', payload: { to: 'world' } });
+    expect(invoked).toMatchObject({
+      success: true,
+      result: { function: 'hello', method: 'POST', payload: { to: 'world' }, role: 'service_role' }
+    });
+
+    const missing = await call('invoke_edge_function', { name: 'missing' });
+    expect(missing.success).toBe(false);
+  });
+
+  it('asks for confirmation before deleting a function', async () => {
+    const preview = await call('delete_edge_function', { name: 'hello' });
+    expect(preview).toMatchObject({ success: true, confirmationRequired: true });
+
+    const deleted = await call('delete_edge_function', { name: 'hello', confirmationToken: preview.confirmationToken });
+    expect(deleted.success).toBe(true);
+    expect((await call<{ functions: unknown[] }>('list_edge_functions')).functions).toEqual([]);
+  });
+
+  it('rejects names that would leave the functions directory', async () => {
+    for (const name of ['..', '../..', 'a/b']) {
+      const deleted = await call('delete_edge_function', { name });
+      expect(deleted.error?.code).toBe('VALIDATION_ERROR');
+    }
+    const created = await call('create_edge_function', { name: '../outside', source: 'export {};' });
+    expect(created.error?.code).toBe('VALIDATION_ERROR');
+  });
+});
+
+describe('secrets', () => {
+  it('lists no secrets without a .env file', async () => {
+    expect(await call('list_secrets')).toMatchObject({ success: true, secrets: [] });
+  });
+
+  it('refers setting and deleting secrets to the admin panel', async () => {
+    expect((await call('set_secret', { key: 'API_KEY', value: 'secret' })).success).toBe(false);
+    expect((await call('delete_secret', { key: 'API_KEY' })).success).toBe(false);
+  });
+});
@@ -1,13 +1,19 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { logError, logInfo } from '../utils/logger.js';
+import {
+  EmptySchema, CreateEdgeFunctionArgs, CreateEdgeFunctionSchema, DeleteEdgeFunctionArgs, DeleteEdgeFunctionSchema,
+  SetSecretArgs, SetSecretSchema, DeleteSecretArgs, DeleteSecretSchema, InvokeEdgeFunctionArgs, InvokeEdgeFunctionSchema
+} from '../types/mcp.js';
+import { logInfo } from '../utils/logger.js';
+import { toErrorResult, NotFoundError, ValidationError } from '../utils/errors.js';
+import { requireConfirmation } from '../utils/confirmation.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
 const getFunctionsDir = (): string => {
-  const dir = process.env.SUPABASE_FUNCTIONS_DIR;
-  if (!dir) throw new Error('SUPABASE_FUNCTIONS_DIR not set in environment');
-  if (!fs.existsSync(dir)) throw new Error(`Functions directory not found: ${dir}`);
+  const dir = getConnection().getConfig().functionsDir;
+  if (!dir) throw new Error('SUPABASE_FUNCTIONS_DIR not set for the active project');
+  if (!fs.existsSync(dir)) throw new NotFoundError(`Functions directory not found: ${dir}`);
   return dir;
 };
 
@@ -33,99 +39,28 @@ const parseEnvFile = (content: string): Map<string, string> => {
   return env;
 };
 
-export const edgeFunctionTools: Tool[] = [
-  {
-    name: 'create_edge_function',
-    description: 'Create or update a self-hosted Supabase Edge Function by writing it to the functions directory',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string', description: 'Function name (slug, e.g. hello-world)' },
-        source: { type: 'string', description: 'TypeScript source code for the function' },
-        importMap: {
-          type: 'object',
-          description: 'Optional import map (imports key → URL map)',
-          additionalProperties: { type: 'string' }
-        },
-        verifyJWT: {
-          type: 'boolean',
-          description: 'Whether to require a valid JWT (default: true)',
-          default: true
-        }
-      },
-      required: ['name', 'source']
-    }
-  },
-  {
-    name: 'list_edge_functions',
-    description: 'List all deployed Edge Functions in the self-hosted functions directory',
-    inputSchema: { type: 'object', properties: {} }
-  },
-  {
-    name: 'delete_edge_function',
-    description: 'Delete a self-hosted Edge Function by removing it from the functions directory',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string', description: 'Function name to delete' }
-      },
-      required: ['name']
-    }
-  },
-  {
-    name: 'set_secret',
-    description: 'Secrets must be managed via the admin panel for security. This tool returns instructions for the user.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        key: { type: 'string', description: 'Environment variable name (e.g. STRIPE_SECRET_KEY)' },
-        value: { type: 'string', description: 'Secret value' }
-      },
-      required: ['key', 'value']
-    }
-  },
-  {
-    name: 'delete_secret',
-    description: 'Secrets must be managed via the admin panel for security. This tool returns instructions for the user.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        key: { type: 'string', description: 'Environment variable name to remove' }
-      },
-      required: ['key']
-    }
-  },
-  {
-    name: 'list_secrets',
-    description: 'List all Edge Function secret names. Values are masked for security.',
-    inputSchema: { type: 'object', properties: {} }
-  },
-  {
-    name: 'invoke_edge_function',
-    description: 'Invoke a deployed Edge Function',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string', description: 'Function name' },
-        payload: { type: 'object', description: 'JSON payload to send', additionalProperties: true },
-        headers: { type: 'object', description: 'Additional HTTP headers', additionalProperties: { type: 'string' } }
-      },
-      required: ['name']
-    }
+// Function names are a single path segment: anything else could escape the functions directory
+const functionDir = (name: string): string => {
+  if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+    throw new ValidationError(`Invalid function name: ${name}`);
   }
-];
+  return path.join(getFunctionsDir(), name);
+};
 
-export const handleCreateEdgeFunction = async (args: unknown) => {
-  const { name, source, importMap, verifyJWT } = args as {
-    name: string;
-    source: string;
-    importMap?: Record<string, string>;
-    verifyJWT?: boolean;
-  };
+// Lectura del código de una función ya desplegada (usado por los recursos supabase://functions/...)
+export const readEdgeFunctionSource = (name: string): string => {
+  const indexPath = path.join(functionDir(name), 'index.ts');
+  if (!fs.existsSync(indexPath)) {
+    throw new NotFoundError(`Function '${name}' not found`);
+  }
+  return fs.readFileSync(indexPath, 'utf8');
+};
+
+export const handleCreateEdgeFunction = async (args: CreateEdgeFunctionArgs) => {
+  const { name, source, importMap, verifyJWT } = args;
 
   try {
-    const functionsDir = getFunctionsDir();
-    const fnDir = path.join(functionsDir, name);
+    const fnDir = functionDir(name);
 
     fs.mkdirSync(fnDir, { recursive: true });
     fs.writeFileSync(path.join(fnDir, 'index.ts'), source, 'utf8');
@@ -148,8 +83,7 @@ export const handleCreateEdgeFunction = async (args: unknown) => {
       note: 'Function is live immediately — the Edge Runtime hot-reloads on file changes'
     };
   } catch (error) {
-    logError(error as Error, 'create_edge_function');
-    return { success: false, error: (error as Error).message };
+    return toErrorResult(error, 'create_edge_function');
   }
 };
 
@@ -175,20 +109,38 @@ export const handleListEdgeFunctions = async () => {
     logInfo(`Listed ${functions.length} edge functions`);
     return { success: true, functions };
   } catch (error) {
-    logError(error as Error, 'list_edge_functions');
-    return { success: false, error: (error as Error).message };
+    return toErrorResult(error, 'list_edge_functions');
   }
 };
 
-export const handleDeleteEdgeFunction = async (args: unknown) => {
-  const { name } = args as { name: string };
+// Files under the function directory, relative to it, that the deletion would remove
+const listFunctionFiles = (fnDir: string, relative = ''): { path: string; bytes: number }[] => {
+  return fs.readdirSync(path.join(fnDir, relative), { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(relative, entry.name);
+    if (entry.isDirectory()) {
+      return listFunctionFiles(fnDir, entryPath);
+    }
+    return [{ path: entryPath, bytes: fs.statSync(path.join(fnDir, entryPath)).size }];
+  });
+};
+
+export const handleDeleteEdgeFunction = async (args: DeleteEdgeFunctionArgs) => {
+  const { name } = args;
 
   try {
-    const functionsDir = getFunctionsDir();
-    const fnDir = path.join(functionsDir, name);
+    const fnDir = functionDir(name);
 
     if (!fs.existsSync(fnDir)) {
-      return { success: false, error: `Function '${name}' not found` };
+      throw new NotFoundError(`Function '${name}' not found`);
+    }
+
+    const confirmation = await requireConfirmation('delete_edge_function', args, async () => ({
+      function: name,
+      directory: fnDir,
+      files: listFunctionFiles(fnDir)
+    }));
+    if (confirmation) {
+      return confirmation;
     }
 
     fs.rmSync(fnDir, { recursive: true, force: true });
@@ -196,13 +148,12 @@ export const handleDeleteEdgeFunction = async (args: unknown) => {
 
     return { success: true, message: `Edge Function '${name}' deleted successfully` };
   } catch (error) {
-    logError(error as Error, 'delete_edge_function');
-    return { success: false, error: (error as Error).message };
+    return toErrorResult(error, 'delete_edge_function');
   }
 };
 
-export const handleSetSecret = async (args: unknown) => {
-  const { key } = args as { key: string; value: string };
+export const handleSetSecret = async (args: SetSecretArgs) => {
+  const { key } = args;
 
   return {
     success: false,
@@ -212,8 +163,8 @@ export const handleSetSecret = async (args: unknown) => {
   };
 };
 
-export const handleDeleteSecret = async (args: unknown) => {
-  const { key } = args as { key: string };
+export const handleDeleteSecret = async (args: DeleteSecretArgs) => {
+  const { key } = args;
 
   return {
     success: false,
@@ -239,17 +190,12 @@ export const handleListSecrets = async () => {
     logInfo(`Listed ${secrets.length} secrets`);
     return { success: true, secrets };
   } catch (error) {
-    logError(error as Error, 'list_secrets');
-    return { success: false, error: (error as Error).message };
+    return toErrorResult(error, 'list_secrets');
   }
 };
 
-export const handleInvokeEdgeFunction = async (args: unknown) => {
-  const { name, payload, headers } = args as {
-    name: string;
-    payload?: any;
-    headers?: Record<string, string>;
-  };
+export const handleInvokeEdgeFunction = async (args: InvokeEdgeFunctionArgs) => {
+  const { name, payload, headers } = args;
   const connection = getConnection();
 
   try {
@@ -261,14 +207,59 @@ export const handleInvokeEdgeFunction = async (args: unknown) => {
     const { data, error } = await supabase.functions.invoke(name, invokeOptions);
 
     if (error) {
-      logError(new Error(error.message), 'invoke_edge_function');
-      return { success: false, error: error.message };
+      throw error;
     }
 
     logInfo(`Edge Function '${name}' invoked successfully`);
     return { success: true, result: data, message: `Edge Function '${name}' invoked successfully` };
   } catch (error) {
-    logError(error as Error, 'invoke_edge_function');
-    return { success: false, error: (error as Error).message };
+    return toErrorResult(error, 'invoke_edge_function');
   }
 };
+
+export const edgeFunctionTools = [
+  defineTool({
+    name: 'create_edge_function',
+    description: 'Create or update a self-hosted Supabase Edge Function by writing it to the functions directory',
+    schema: CreateEdgeFunctionSchema,
+    handler: handleCreateEdgeFunction
+  }),
+  defineTool({
+    name: 'list_edge_functions',
+    description: 'List all deployed Edge Functions in the self-hosted functions directory',
+    schema: EmptySchema,
+    handler: handleListEdgeFunctions,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'delete_edge_function',
+    description: 'Delete a self-hosted Edge Function by removing it from the functions directory (requires confirming the preview)',
+    schema: DeleteEdgeFunctionSchema,
+    handler: handleDeleteEdgeFunction
+  }),
+  defineTool({
+    name: 'set_secret',
+    description: 'Secrets must be managed via the admin panel for security. This tool returns instructions for the user.',
+    schema: SetSecretSchema,
+    handler: handleSetSecret
+  }),
+  defineTool({
+    name: 'delete_secret',
+    description: 'Secrets must be managed via the admin panel for security. This tool returns instructions for the user.',
+    schema: DeleteSecretSchema,
+    handler: handleDeleteSecret
+  }),
+  defineTool({
+    name: 'list_secrets',
+    description: 'List all Edge Function secret names. Values are masked for security.',
+    schema: EmptySchema,
+    handler: handleListSecrets,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'invoke_edge_function',
+    description: 'Invoke a deployed Edge Function',
+    schema: InvokeEdgeFunctionSchema,
+    handler: handleInvokeEdgeFunction
+  })
+];
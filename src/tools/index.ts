@@ -0,0 +1,31 @@
+import { ToolDefinition } from './registry.js';
+import { authTools } from './auth.js';
+import { keyTools } from './keys.js';
+import { databaseTools } from './database.js';
+import { migrationTools } from './migrations.js';
+import { storageTools } from './storage.js';
+import { rlsTools } from './rls.js';
+import { edgeFunctionTools } from './edge-functions.js';
+import { realtimeTools } from './realtime.js';
+import { adminTools } from './admin.js';
+import { diagnosticTools } from './diagnostics.js';
+import { logsTools } from './logs.js';
+import { projectTools } from './projects.js';
+import { cursorTools } from './cursors.js';
+
+// Todas las herramientas, en el orden en que se anuncian; las comparten el servidor MCP y la CLI
+export const allTools: ToolDefinition[] = [
+  ...authTools,
+  ...keyTools,
+  ...databaseTools,
+  ...migrationTools,
+  ...storageTools,
+  ...rlsTools,
+  ...edgeFunctionTools,
+  ...realtimeTools,
+  ...adminTools,
+  ...diagnosticTools,
+  ...logsTools,
+  ...projectTools,
+  ...cursorTools
+];
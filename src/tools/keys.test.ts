@@ -0,0 +1,152 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { runWithContext } from '../utils/context.js';
+import { keyTools } from './keys.js';
+import { authTools } from './auth.js';
+
+const call = toolCaller([...keyTools, ...authTools]);
+
+interface GeneratedKeys {
+  keys: { variable: string; key: string }[];
+  preview: { variables: unknown[] };
+}
+
+interface DecodedJwt {
+  payload: jwt.JwtPayload;
+  signatureValid: boolean;
+  verificationError?: string;
+}
+
+interface MintedJwt {
+  token: string;
+  claims: jwt.JwtPayload & { exp: number; iat: number };
+}
+
+let envDir: string;
+
+useSandbox({
+  teardown: () => {
+    fs.rmSync(envDir, { recursive: true, force: true });
+  }
+});
+
+beforeAll(async () => {
+  envDir = fs.mkdtempSync(path.join(os.tmpdir(), 'supafast-keys-'));
+});
+
+describe('generate_api_keys', () => {
+  it('genera anon y service_role firmadas con el JWT secret del perfil', async () => {
+    const result = await call<GeneratedKeys>('generate_api_keys');
+    expect(result.success).toBe(true);
+    expect(result.keys.map(key => key.variable)).toEqual(['ANON_KEY', 'SERVICE_ROLE_KEY']);
+
+    const decoded = await call<DecodedJwt>('decode_jwt', { token: result.keys[1]?.key });
+    expect(decoded).toMatchObject({ success: true, role: 'service_role', signatureValid: true, expired: false });
+    expect(decoded.payload.iss).toBe('supabase');
+  });
+
+  it('admite roles, claims y caducidad propios', async () => {
+    const result = await call<GeneratedKeys>('generate_api_keys', { roles: ['reporting'], claims: { tenant: 'acme' }, expiresIn: '30d' });
+    expect(result.keys).toHaveLength(1);
+    expect(result.keys[0]?.variable).toBe('REPORTING_KEY');
+
+    const payload = jwt.decode(result.keys[0]?.key ?? '') as jwt.JwtPayload;
+    expect(payload).toMatchObject({ role: 'reporting', tenant: 'acme' });
+    expect((payload.exp as number) - (payload.iat as number)).toBe(30 * 24 * 60 * 60);
+  });
+
+  it('rechaza duraciones inválidas y rotateSecret sin envFile', async () => {
+    await expect(call('generate_api_keys', { expiresIn: '10 años' })).rejects.toThrow(/expiresIn/);
+
+    const withoutFile = await call<GeneratedKeys>('generate_api_keys', { rotateSecret: true });
+    expect(withoutFile.error?.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('rota las claves en un archivo .env tras confirmar, sin devolverlas', async () => {
+    const envFile = path.join(envDir, '.env');
+    fs.writeFileSync(envFile, '# Supabase\nSUPABASE_URL=http://localhost:54321\nexport SUPABASE_ANON_KEY=antigua\n');
+
+    const preview = await call<GeneratedKeys>('generate_api_keys', { envFile, envPrefix: 'SUPABASE_', rotateSecret: true });
+    expect(preview).toMatchObject({ success: true, confirmationRequired: true });
+    expect(preview.preview.variables).toEqual([
+      { name: 'SUPABASE_ANON_KEY', action: 'replace' },
+      { name: 'SUPABASE_SERVICE_ROLE_KEY', action: 'add' },
+      { name: 'SUPABASE_JWT_SECRET', action: 'add' }
+    ]);
+    expect(fs.readFileSync(envFile, 'utf8')).toContain('=antigua');
+
+    const result = await call<GeneratedKeys>('generate_api_keys', { envFile, envPrefix: 'SUPABASE_', rotateSecret: true, confirmationToken: preview.confirmationToken });
+    expect(result).toMatchObject({ success: true, written: ['SUPABASE_ANON_KEY', 'SUPABASE_SERVICE_ROLE_KEY', 'SUPABASE_JWT_SECRET'] });
+    expect(JSON.stringify(result)).not.toMatch(/eyJ/);
+
+    const lines = fs.readFileSync(envFile, 'utf8').trimEnd().split('\n');
+    expect(lines.slice(0, 2)).toEqual(['# Supabase', 'SUPABASE_URL=http://localhost:54321']);
+    const values = Object.fromEntries(lines.slice(2).map(line => line.replace(/^export /, '').split('=') as [string, string]));
+    expect(lines[2]).toMatch(/^export SUPABASE_ANON_KEY=eyJ/);
+
+    // Las claves nuevas se firman con el secreto nuevo, no con el del perfil
+    const secret = values.SUPABASE_JWT_SECRET as string;
+    expect(jwt.verify(values.SUPABASE_ANON_KEY as string, secret)).toMatchObject({ role: 'anon' });
+    const decoded = await call<DecodedJwt>('decode_jwt', { token: values.SUPABASE_SERVICE_ROLE_KEY });
+    expect(decoded.signatureValid).toBe(false);
+  });
+
+  it('usa el prefijo de variables del perfil y crea el archivo con permisos 600', async () => {
+    const envFile = path.join(envDir, 'nuevo.env');
+    const preview = await call<GeneratedKeys>('generate_api_keys', { envFile, roles: ['anon'] });
+    expect(preview.preview.variables).toEqual([{ name: 'SUPABASE_SANDBOX_ANON_KEY', action: 'add' }]);
+
+    await call<GeneratedKeys>('generate_api_keys', { envFile, roles: ['anon'], confirmationToken: preview.confirmationToken });
+    expect(fs.readFileSync(envFile, 'utf8')).toMatch(/^SUPABASE_SANDBOX_ANON_KEY=eyJ[^\n]+\n$/);
+    expect(fs.statSync(envFile).mode & 0o777).toBe(0o600);
+  });
+});
+
+describe('mint_user_jwt y decode_jwt', () => {
+  it('emite un token con los claims del usuario', async () => {
+    const created = await call<{ user: { id: string } }>('create_auth_user', { email: 'jwt@example.com', password: 'password123', emailConfirm: true });
+    const userId = created.user.id;
+
+    const minted = await call<MintedJwt>('mint_user_jwt', { userId, claims: { tenant: 'acme' }, expiresIn: '15m' });
+    expect(minted.success).toBe(true);
+    expect(minted.claims).toMatchObject({ sub: userId, email: 'jwt@example.com', role: 'authenticated', tenant: 'acme' });
+    expect(minted.claims.exp - minted.claims.iat).toBe(15 * 60);
+
+    const decoded = await call<DecodedJwt>('decode_jwt', { token: minted.token });
+    expect(decoded).toMatchObject({ success: true, signatureValid: true, expired: false, role: 'authenticated' });
+  });
+
+  it('emite un token sólo con el rol y falla con usuarios inexistentes', async () => {
+    const minted = await call<MintedJwt>('mint_user_jwt', { role: 'service_role' });
+    expect(minted.claims.role).toBe('service_role');
+    expect(minted.claims.sub).toBeUndefined();
+
+    const missing = await call('mint_user_jwt', { userId: '00000000-0000-0000-0000-000000000000' });
+    expect(missing.error?.code).toBe('NOT_FOUND');
+  });
+
+  it('limita la caducidad y no emite roles que saltan RLS en modo sólo lectura', async () => {
+    const long = await call('mint_user_jwt', { role: 'authenticated', expiresIn: '10y' });
+    expect(long.error).toMatchObject({ code: 'VALIDATION_ERROR', message: expect.stringContaining('24h') });
+    expect((await call('mint_user_jwt', { expiresIn: '24h' })).success).toBe(true);
+
+    const readOnly = (args: Record<string, unknown>) => runWithContext({ session: {}, project: 'sandbox', readOnly: true }, () => call('mint_user_jwt', args));
+    expect((await readOnly({ role: 'service_role' })).error?.code).toBe('PERMISSION_DENIED');
+    expect((await readOnly({ role: 'postgres' })).error?.code).toBe('PERMISSION_DENIED');
+    expect((await readOnly({ claims: { role: 'service_role' } })).error?.code).toBe('PERMISSION_DENIED');
+    expect(await readOnly({ role: 'authenticated' })).toMatchObject({ success: true, claims: { role: 'authenticated' } });
+  });
+
+  it('detecta firmas inválidas, tokens caducados y tokens mal formados', async () => {
+    const expiredToken = jwt.sign({ role: 'anon', exp: Math.floor(Date.now() / 1000) - 60 }, 'otro-secreto');
+    const decoded = await call<DecodedJwt>('decode_jwt', { token: expiredToken });
+    expect(decoded).toMatchObject({ success: true, signatureValid: false, expired: true, role: 'anon' });
+    expect(decoded.verificationError).toBeDefined();
+
+    const malformed = await call<DecodedJwt>('decode_jwt', { token: 'no-es-un-jwt' });
+    expect(malformed.error?.code).toBe('VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,210 @@
+import { defineTool } from './registry.js';
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { getConnection, SupabaseConnection } from '../utils/connection.js';
+import {
+  GenerateApiKeysArgs, GenerateApiKeysSchema, MintUserJwtArgs, MintUserJwtSchema, DecodeJwtArgs, DecodeJwtSchema
+} from '../types/mcp.js';
+import { envPrefix } from '../config/env.js';
+import { logInfo } from '../utils/logger.js';
+import { PermissionDeniedError, toErrorResult, ValidationError } from '../utils/errors.js';
+import { isReadOnlyRequest } from '../utils/context.js';
+import { requireConfirmation } from '../utils/confirmation.js';
+import { decodeJwt, parseDuration, requireJwtSecret, signJwt, userClaims } from '../utils/jwt.js';
+
+// anon → ANON_KEY, service_role → SERVICE_ROLE_KEY, como en el .env de Supabase
+const keyVariable = (role: string): string => `${role.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_KEY`;
+
+const ENV_LINE = /^(\s*(?:export\s+)?)([A-Za-z_][A-Za-z0-9_]*)\s*=/;
+
+const envVariables = (content: string): Set<string> => {
+  return new Set(content.split('\n').map(line => ENV_LINE.exec(line)?.[2]).filter((name): name is string => !!name));
+};
+
+// Sustituye todas las líneas de cada variable (dotenv se queda con la última) y añade al final las que falten
+const updateEnvContent = (content: string, values: Record<string, string>): string => {
+  const lines = content === '' ? [] : content.replace(/\n$/, '').split('\n');
+  const updated = lines.map(line => {
+    const match = ENV_LINE.exec(line);
+    const name = match?.[2];
+    return name && name in values ? `${match?.[1]}${name}=${values[name]}` : line;
+  });
+  const existing = envVariables(content);
+  const added = Object.entries(values).filter(([name]) => !existing.has(name)).map(([name, value]) => `${name}=${value}`);
+  return `${[...updated, ...added].join('\n')}\n`;
+};
+
+// Escritura atómica conservando los permisos del archivo; uno nuevo sólo lo lee su propietario
+const writeEnvFile = (envPath: string, content: string): void => {
+  const mode = fs.existsSync(envPath) ? fs.statSync(envPath).mode & 0o777 : 0o600;
+  const tmpPath = `${envPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, content, { encoding: 'utf8', mode });
+  fs.renameSync(tmpPath, envPath);
+};
+
+export const handleGenerateApiKeys = async (args: GenerateApiKeysArgs) => {
+  const { roles, claims, expiresIn, envFile, envPrefix: prefixArg, rotateSecret } = args;
+  const connection = getConnection();
+
+  try {
+    const ttl = parseDuration(expiresIn);
+    if (rotateSecret && !envFile) {
+      throw new ValidationError('rotateSecret requiere envFile', {
+        hint: 'El secreto nuevo sólo se escribe en el archivo indicado; nunca se devuelve en la respuesta'
+      });
+    }
+
+    const secret = rotateSecret ? randomBytes(32).toString('hex') : requireJwtSecret(connection);
+    const keys = roles.map(role => ({ role, variable: keyVariable(role), ...signJwt({ iss: 'supabase', ...claims, role }, secret, ttl) }));
+
+    if (!envFile) {
+      logInfo(`Claves de API generadas para: ${roles.join(', ')}`);
+      return {
+        success: true,
+        keys: keys.map(({ role, variable, token, expiresAt }) => ({ role, variable, key: token, expiresAt })),
+        message: `${keys.length} claves generadas con el JWT secret del perfil '${connection.getConfig().name}'`
+      };
+    }
+
+    // Rotación: las claves (y el secreto) van directamente al archivo, sin pasar por la respuesta
+    const prefix = prefixArg ?? envPrefix(connection.getConfig().name);
+    const values: Record<string, string> = Object.fromEntries(keys.map(key => [`${prefix}${key.variable}`, key.token]));
+    if (rotateSecret) {
+      values[`${prefix}JWT_SECRET`] = secret;
+    }
+
+    const envPath = path.resolve(envFile);
+    const current = fs.existsSync(envPath) ? fs.readFileSync(envPath, 'utf8') : '';
+    const existing = envVariables(current);
+
+    const confirmation = await requireConfirmation('generate_api_keys', args, async () => ({
+      envFile: envPath,
+      variables: Object.keys(values).map(name => ({ name, action: existing.has(name) ? 'replace' : 'add' })),
+      ...(rotateSecret && {
+        warning: 'El JWT secret nuevo invalida todas las claves y sesiones firmadas con el anterior en cuanto la instancia lo use'
+      })
+    }));
+    if (confirmation) {
+      return confirmation;
+    }
+
+    writeEnvFile(envPath, updateEnvContent(current, values));
+    logInfo(`Claves de API rotadas en ${envPath}: ${Object.keys(values).join(', ')}`);
+
+    return {
+      success: true,
+      envFile: envPath,
+      written: Object.keys(values),
+      expiresAt: keys[0]?.expiresAt,
+      message: `Claves escritas en ${envPath}. Reinicia los servicios que lo lean y recarga la configuración del servidor (SIGHUP)`
+    };
+  } catch (error) {
+    return toErrorResult(error, 'generate_api_keys');
+  }
+};
+
+// Los tokens de usuario son para pruebas: nunca duran más de un día
+const MAX_USER_JWT_TTL_SECONDS = 24 * 60 * 60;
+
+// service_role y cualquier rol con BYPASSRLS (o superusuario) ven y modifican todo: un token así
+// daría a un cliente en modo sólo lectura más poder del que tiene
+const bypassesRls = async (connection: SupabaseConnection, role: string): Promise<boolean> => {
+  if (role === 'service_role') {
+    return true;
+  }
+  const result = await connection.getPool().query<{ bypass: boolean }>(
+    'SELECT rolbypassrls OR rolsuper AS bypass FROM pg_roles WHERE rolname = $1',
+    [role]
+  );
+  return result.rows[0]?.bypass === true;
+};
+
+export const handleMintUserJwt = async (args: MintUserJwtArgs) => {
+  const { userId, role, claims, expiresIn } = args;
+  const connection = getConnection();
+
+  try {
+    const secret = requireJwtSecret(connection);
+    const ttl = parseDuration(expiresIn);
+    if (ttl > MAX_USER_JWT_TTL_SECONDS) {
+      throw new ValidationError(`expiresIn no puede superar 24h: ${expiresIn}`, {
+        hint: 'Para claves de larga duración usa generate_api_keys'
+      });
+    }
+
+    // Con userId, los mismos claims que el access token de GoTrue; sin él, un token sólo con el rol
+    const base = userId
+      ? { ...await userClaims(connection, userId, ttl), iss: `${connection.getConfig().url}/auth/v1` }
+      : { iss: 'supabase' };
+    const merged: Record<string, unknown> = { ...base, ...claims };
+    const tokenRole = role ?? (typeof merged.role === 'string' ? merged.role : 'anon');
+    if (isReadOnlyRequest() && await bypassesRls(connection, tokenRole)) {
+      throw new PermissionDeniedError(`Acceso denegado: un token con el rol '${tokenRole}' salta RLS y el modo sólo lectura está activo`, {
+        hint: 'Emite el token para authenticated, anon u otro rol sujeto a RLS'
+      });
+    }
+    const signed = signJwt({ ...merged, role: tokenRole }, secret, ttl);
+
+    logInfo(`JWT emitido para ${userId ? `el usuario ${userId}` : `el rol ${tokenRole}`} (caduca ${signed.expiresAt})`);
+
+    return {
+      success: true,
+      token: signed.token,
+      claims: signed.claims,
+      expiresAt: signed.expiresAt,
+      message: `Token con rol '${tokenRole}' válido hasta ${signed.expiresAt}`
+    };
+  } catch (error) {
+    return toErrorResult(error, 'mint_user_jwt');
+  }
+};
+
+export const handleDecodeJwt = async (args: DecodeJwtArgs) => {
+  const { token } = args;
+  const connection = getConnection();
+
+  try {
+    const decoded = decodeJwt(token.trim(), connection.getConfig().jwtSecret);
+    const payload = typeof decoded.payload === 'object' ? decoded.payload : {};
+    const toDate = (seconds: unknown) => typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : null;
+
+    return {
+      success: true,
+      header: decoded.header,
+      payload: decoded.payload,
+      role: payload.role ?? null,
+      issuedAt: toDate(payload.iat),
+      expiresAt: toDate(payload.exp),
+      expired: typeof payload.exp === 'number' && payload.exp * 1000 <= Date.now(),
+      // null: el perfil no tiene jwtSecret con el que comprobarla
+      signatureValid: decoded.signatureValid,
+      ...(decoded.verificationError && { verificationError: decoded.verificationError })
+    };
+  } catch (error) {
+    return toErrorResult(error, 'decode_jwt');
+  }
+};
+
+export const keyTools = [
+  defineTool({
+    name: 'generate_api_keys',
+    description: 'Generar claves de API (anon, service_role o roles propios) firmadas con el JWT secret del perfil; con envFile, rotarlas en un archivo .env (requiere confirmar la vista previa)',
+    schema: GenerateApiKeysSchema,
+    handler: handleGenerateApiKeys
+  }),
+  defineTool({
+    name: 'mint_user_jwt',
+    description: 'Emitir un JWT de corta duración (24h como máximo) para un usuario o rol, para probar RLS y Edge Functions como ese usuario; en modo sólo lectura no admite service_role ni roles con BYPASSRLS',
+    schema: MintUserJwtSchema,
+    handler: handleMintUserJwt,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'decode_jwt',
+    description: 'Decodificar un JWT y comprobar su firma con el JWT secret del perfil y su caducidad',
+    schema: DecodeJwtSchema,
+    handler: handleDecodeJwt,
+    readOnly: true
+  })
+];
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { initAuditLog, recordAudit } from '../utils/audit.js';
+import { logsTools } from './logs.js';
+
+const call = toolCaller(logsTools);
+
+interface AuditLog {
+  entries: { requestId: string; args: unknown }[];
+}
+
+let auditDir: string;
+
+useSandbox({
+  teardown: () => {
+    initAuditLog({ enabled: false, file: '' });
+    fs.rmSync(auditDir, { recursive: true, force: true });
+  }
+});
+
+beforeAll(async () => {
+  auditDir = fs.mkdtempSync(path.join(os.tmpdir(), 'supafast-audit-'));
+});
+
+describe('logs de Postgres', () => {
+  it('sin pg_log devuelve información básica', async () => {
+    const logs = await call<{ note?: string }>('get_logs', { level: 'error' });
+    expect(logs).toMatchObject({ success: true, count: 2 });
+    expect(logs.note).toBeDefined();
+
+    const errors = await call<{ note?: string }>('get_error_logs');
+    expect(errors).toMatchObject({ success: true, count: 1 });
+    expect(errors.note).toBeDefined();
+  });
+
+  it('devuelve métricas del rango pedido', async () => {
+    const metrics = await call('get_metrics', { timeRange: '24h' });
+    expect(metrics.success).toBe(true);
+  });
+});
+
+describe('get_audit_log', () => {
+  it('falla si la auditoría está desactivada', async () => {
+    initAuditLog({ enabled: false, file: '' });
+    expect((await call('get_audit_log')).success).toBe(false);
+  });
+
+  it('filtra las entradas y oculta los campos sensibles', async () => {
+    initAuditLog({ enabled: true, file: path.join(auditDir, 'audit.jsonl') });
+    recordAudit({ requestId: '1', tool: 'database_query', instance: 'sandbox', args: { query: 'SELECT 1' }, durationMs: 3, status: 'success' });
+    recordAudit({ requestId: '2', tool: 'create_auth_user', instance: 'sandbox', args: { password: 'x' }, durationMs: 5, status: 'success' });
+    recordAudit({
+      requestId: '3',
+      tool: 'database_query',
+      instance: 'sandbox',
+      args: { query: 'SELECT' },
+      durationMs: 1,
+      status: 'error',
+      error: { code: 'VALIDATION_ERROR', message: 'syntax error' }
+    });
+
+    const queries = await call<AuditLog>('get_audit_log', { tool: 'database_query' });
+    expect(queries.entries.map(entry => entry.requestId)).toEqual(['3', '1']);
+
+    const failed = await call<AuditLog>('get_audit_log', { status: 'error' });
+    expect(failed.entries).toHaveLength(1);
+
+    const users = await call<AuditLog>('get_audit_log', { tool: 'create_auth_user' });
+    expect(users.entries[0]?.args).toEqual({ password: '[REDACTED]' });
+  });
+});
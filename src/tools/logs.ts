@@ -1,77 +1,16 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool } from './registry.js';
 import { getConnection } from '../utils/connection.js';
+import {
+  GetLogsArgs, GetLogsSchema, GetMetricsArgs, GetMetricsSchema, GetErrorLogsArgs, GetErrorLogsSchema,
+  GetAuditLogArgs, GetAuditLogSchema
+} from '../types/mcp.js';
 import { logError, logInfo } from '../utils/logger.js';
+import { toErrorResult } from '../utils/errors.js';
+import { queryAuditLog } from '../utils/audit.js';
+import { arraySource, offsetSource, paginate } from '../utils/pagination.js';
 
-export const logsTools: Tool[] = [
-  {
-    name: 'get_logs',
-    description: 'Obtener logs del sistema',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        level: {
-          type: 'string',
-          enum: ['error', 'warn', 'info', 'debug'],
-          description: 'Nivel de log a filtrar'
-        },
-        limit: {
-          type: 'number',
-          description: 'Límite de logs a devolver',
-          default: 100
-        },
-        startDate: {
-          type: 'string',
-          description: 'Fecha de inicio (ISO string)'
-        },
-        endDate: {
-          type: 'string',
-          description: 'Fecha de fin (ISO string)'
-        }
-      }
-    }
-  },
-  {
-    name: 'get_metrics',
-    description: 'Obtener métricas del sistema',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        timeRange: {
-          type: 'string',
-          enum: ['1h', '24h', '7d', '30d'],
-          description: 'Rango de tiempo para las métricas',
-          default: '1h'
-        }
-      }
-    }
-  },
-  {
-    name: 'get_error_logs',
-    description: 'Obtener logs de errores específicos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        limit: {
-          type: 'number',
-          description: 'Límite de logs a devolver',
-          default: 50
-        },
-        context: {
-          type: 'string',
-          description: 'Contexto específico del error'
-        }
-      }
-    }
-  }
-];
-
-export const handleGetLogs = async (args: unknown) => {
-  const { level, limit = 100, startDate, endDate } = args as {
-    level?: string;
-    limit?: number;
-    startDate?: string;
-    endDate?: string;
-  };
+export const handleGetLogs = async (args: GetLogsArgs) => {
+  const { level, limit, startDate, endDate } = args;
   const connection = getConnection();
   
   try {
@@ -107,15 +46,19 @@ export const handleGetLogs = async (args: unknown) => {
       ${startDate ? `AND log_time >= '${startDate}'` : ''}
       ${endDate ? `AND log_time <= '${endDate}'` : ''}
       ORDER BY log_time DESC
-      LIMIT $1;
+      LIMIT $1 OFFSET $2;
     `;
     
-    const result = await connection.getPgClient().query(pgLogsQuery, [limit]);
+    const page = await paginate('get_logs', 'logs', offsetSource(async (offset, count) => {
+      return (await connection.getPool().query(pgLogsQuery, [count, offset])).rows;
+    }), limit);
     
     return {
       success: true,
-      logs: result.rows,
-      count: result.rows.length
+      logs: page.items,
+      count: page.count,
+      truncated: page.truncated,
+      ...(page.cursor && { cursor: page.cursor })
     };
   } catch (error) {
     // Si no hay tabla pg_log, devolver logs básicos
@@ -139,7 +82,7 @@ export const handleGetLogs = async (args: unknown) => {
           current_user as user_name;
       `;
       
-      const result = await connection.getPgClient().query(statsQuery);
+      const result = await connection.getPool().query(statsQuery);
       
       return {
         success: true,
@@ -148,18 +91,13 @@ export const handleGetLogs = async (args: unknown) => {
         note: 'Logs detallados no disponibles, mostrando información básica'
       };
     } catch (fallbackError) {
-      return {
-        success: false,
-        error: (fallbackError as Error).message
-      };
+      return toErrorResult(fallbackError, 'get_logs');
     }
   }
 };
 
-export const handleGetMetrics = async (args: unknown) => {
-  const { timeRange = '1h' } = args as {
-    timeRange?: '1h' | '24h' | '7d' | '30d';
-  };
+export const handleGetMetrics = async (args: GetMetricsArgs) => {
+  const { timeRange } = args;
   const connection = getConnection();
   
   try {
@@ -211,7 +149,7 @@ export const handleGetMetrics = async (args: unknown) => {
     ];
     
     const [connections, database, tables] = await Promise.all(
-      queries.map(query => connection.getPgClient().query(query))
+      queries.map(query => connection.getPool().query(query))
     );
     
     if (!connections?.rows?.[0] || !database?.rows?.[0] || !tables?.rows) {
@@ -229,19 +167,12 @@ export const handleGetMetrics = async (args: unknown) => {
       }
     };
   } catch (error) {
-    logError(error as Error, 'get_metrics');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'get_metrics');
   }
 };
 
-export const handleGetErrorLogs = async (args: unknown) => {
-  const { limit = 50, context } = args as {
-    limit?: number;
-    context?: string;
-  };
+export const handleGetErrorLogs = async (args: GetErrorLogsArgs) => {
+  const { limit, context } = args;
   const connection = getConnection();
   
   try {
@@ -261,15 +192,19 @@ export const handleGetErrorLogs = async (args: unknown) => {
       WHERE error_severity IN ('ERROR', 'FATAL', 'PANIC')
       ${context ? `AND context ILIKE '%${context}%'` : ''}
       ORDER BY log_time DESC
-      LIMIT $1;
+      LIMIT $1 OFFSET $2;
     `;
     
-    const result = await connection.getPgClient().query(errorLogsQuery, [limit]);
+    const page = await paginate('get_error_logs', 'errorLogs', offsetSource(async (offset, count) => {
+      return (await connection.getPool().query(errorLogsQuery, [count, offset])).rows;
+    }), limit);
     
     return {
       success: true,
-      errorLogs: result.rows,
-      count: result.rows.length
+      errorLogs: page.items,
+      count: page.count,
+      truncated: page.truncated,
+      ...(page.cursor && { cursor: page.cursor })
     };
   } catch (error) {
     logError(error as Error, 'get_error_logs');
@@ -289,7 +224,7 @@ export const handleGetErrorLogs = async (args: unknown) => {
           'supabase-mcp-server' as application_name;
       `;
       
-      const result = await connection.getPgClient().query(fallbackQuery);
+      const result = await connection.getPool().query(fallbackQuery);
       
       return {
         success: true,
@@ -298,10 +233,59 @@ export const handleGetErrorLogs = async (args: unknown) => {
         note: 'Logs de error detallados no disponibles'
       };
     } catch (fallbackError) {
-      return {
-        success: false,
-        error: (fallbackError as Error).message
-      };
+      return toErrorResult(fallbackError, 'get_error_logs');
     }
   }
-};
\ No newline at end of file
+};
+
+export const handleGetAuditLog = async (args: GetAuditLogArgs) => {
+  try {
+    // El registro se filtra entero y se sirve por páginas de `limit` entradas
+    const entries = queryAuditLog({ ...args, limit: Number.MAX_SAFE_INTEGER });
+    const page = await paginate('get_audit_log', 'entries', arraySource(entries), args.limit);
+    
+    return {
+      success: true,
+      entries: page.items,
+      count: page.count,
+      truncated: page.truncated,
+      ...(page.cursor && { cursor: page.cursor })
+    };
+  } catch (error) {
+    return toErrorResult(error, 'get_audit_log');
+  }
+};
+
+export const logsTools = [
+  defineTool({
+    name: 'get_logs',
+    description: 'Obtener logs del sistema',
+    schema: GetLogsSchema,
+    handler: handleGetLogs,
+    resultItems: 'logs',
+    readOnly: true
+  }),
+  defineTool({
+    name: 'get_metrics',
+    description: 'Obtener métricas del sistema',
+    schema: GetMetricsSchema,
+    handler: handleGetMetrics,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'get_error_logs',
+    description: 'Obtener logs de errores específicos',
+    schema: GetErrorLogsSchema,
+    handler: handleGetErrorLogs,
+    resultItems: 'errorLogs',
+    readOnly: true
+  }),
+  defineTool({
+    name: 'get_audit_log',
+    description: 'Consultar el registro de auditoría de llamadas a herramientas',
+    schema: GetAuditLogSchema,
+    handler: handleGetAuditLog,
+    resultItems: 'entries',
+    readOnly: true
+  })
+];
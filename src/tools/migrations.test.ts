@@ -0,0 +1,71 @@
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { getConnection } from '../utils/connection.js';
+import { migrationTools } from './migrations.js';
+
+const call = toolCaller(migrationTools);
+
+const tableExists = async (table: string): Promise<boolean> => {
+  const result = await getConnection().getPool().query('SELECT to_regclass($1) IS NOT NULL AS exists', [table]);
+  return result.rows[0].exists;
+};
+
+useSandbox();
+
+describe('migraciones', () => {
+  let firstId: string;
+
+  it('crea migraciones sin aplicarlas', async () => {
+    const first = await call<{ migration: { id: string } }>('create_migration', {
+      name: 'create_posts',
+      up: 'CREATE TABLE posts (id serial PRIMARY KEY);',
+      down: 'DROP TABLE posts;'
+    });
+    expect(first.success).toBe(true);
+    firstId = first.migration.id;
+
+    await call('create_migration', {
+      name: 'create_comments',
+      up: 'CREATE TABLE comments (id serial PRIMARY KEY);',
+      down: 'DROP TABLE comments;'
+    });
+
+    const listed = await call<{ migrations: { name: string }[] }>('list_migrations');
+    expect(listed.migrations.map(migration => migration.name)).toEqual(['create_posts', 'create_comments']);
+    expect(await tableExists('posts')).toBe(false);
+  });
+
+  it('aplica una migración y no la repite', async () => {
+    expect((await call('apply_migration', { migrationId: firstId })).success).toBe(true);
+    expect(await tableExists('posts')).toBe(true);
+
+    const again = await call('apply_migration', { migrationId: firstId });
+    expect(again).toMatchObject({ success: false, error: { code: 'CONFLICT' } });
+  });
+
+  it('aplica las pendientes e informa del estado', async () => {
+    const applied = await call('apply_pending_migrations');
+    expect(applied).toMatchObject({ success: true, applied: ['create_comments'] });
+    expect(await tableExists('comments')).toBe(true);
+
+    const status = await call<{ status: unknown }>('get_migration_status');
+    expect(status.status).toMatchObject({ totalMigrations: 2, appliedMigrations: 2, pendingMigrations: 0 });
+  });
+
+  it('revierte una migración aplicada', async () => {
+    expect((await call('rollback_migration', { migrationId: firstId })).success).toBe(true);
+    expect(await tableExists('posts')).toBe(false);
+
+    const again = await call('rollback_migration', { migrationId: firstId });
+    expect(again).toMatchObject({ success: false, error: { code: 'CONFLICT' } });
+  });
+
+  it('deshace la migración entera si falla', async () => {
+    await call('create_migration', {
+      name: 'broken',
+      up: 'CREATE TABLE partial (id int); SELECT * FROM no_existe;',
+      down: 'DROP TABLE partial;'
+    });
+    expect((await call('apply_pending_migrations')).success).toBe(false);
+    expect(await tableExists('partial')).toBe(false);
+  });
+});
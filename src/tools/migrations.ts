@@ -1,79 +1,14 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { validateInput, sanitizeSQLIdentifier } from '../utils/validation.js';
-import { CreateMigrationArgs, CreateMigrationSchema } from '../types/mcp.js';
-import { logError, logInfo } from '../utils/logger.js';
+import {
+  EmptySchema, CreateMigrationArgs, CreateMigrationSchema, ApplyMigrationArgs, ApplyMigrationSchema,
+  RollbackMigrationArgs, RollbackMigrationSchema
+} from '../types/mcp.js';
+import { logInfo } from '../utils/logger.js';
+import { toErrorResult, NotFoundError, ConflictError } from '../utils/errors.js';
+import { trackProgress } from '../utils/progress.js';
 import { Migration } from '../types/supabase.js';
 
-export const migrationTools: Tool[] = [
-  {
-    name: 'create_migration',
-    description: 'Crear una nueva migración',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Nombre de la migración'
-        },
-        up: {
-          type: 'string',
-          description: 'SQL para aplicar la migración'
-        },
-        down: {
-          type: 'string',
-          description: 'SQL para revertir la migración'
-        }
-      },
-      required: ['name', 'up', 'down']
-    }
-  },
-  {
-    name: 'list_migrations',
-    description: 'Listar todas las migraciones',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'apply_migration',
-    description: 'Aplicar una migración específica',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        migrationId: {
-          type: 'string',
-          description: 'ID de la migración a aplicar'
-        }
-      },
-      required: ['migrationId']
-    }
-  },
-  {
-    name: 'rollback_migration',
-    description: 'Revertir una migración específica',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        migrationId: {
-          type: 'string',
-          description: 'ID de la migración a revertir'
-        }
-      },
-      required: ['migrationId']
-    }
-  },
-  {
-    name: 'get_migration_status',
-    description: 'Obtener el estado de las migraciones',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  }
-];
-
 // Asegurar que existe la tabla de migraciones
 const ensureMigrationTable = async () => {
   const connection = getConnection();
@@ -89,11 +24,11 @@ const ensureMigrationTable = async () => {
     );
   `;
   
-  await connection.getPgClient().query(createTableQuery);
+  await connection.getPool().query(createTableQuery);
 };
 
-export const handleCreateMigration = async (args: unknown) => {
-  const { name, up, down } = validateInput(CreateMigrationSchema, args);
+export const handleCreateMigration = async (args: CreateMigrationArgs) => {
+  const { name, up, down } = args;
   const connection = getConnection();
   
   try {
@@ -105,7 +40,7 @@ export const handleCreateMigration = async (args: unknown) => {
       RETURNING id, name, created_at;
     `;
     
-    const result = await connection.getPgClient().query(insertQuery, [name, up, down]);
+    const result = await connection.getPool().query(insertQuery, [name, up, down]);
     
     logInfo(`Migración '${name}' creada exitosamente`);
     
@@ -115,11 +50,7 @@ export const handleCreateMigration = async (args: unknown) => {
       message: `Migración '${name}' creada exitosamente`
     };
   } catch (error) {
-    logError(error as Error, 'create_migration');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'create_migration');
   }
 };
 
@@ -140,23 +71,19 @@ export const handleListMigrations = async () => {
       ORDER BY created_at ASC;
     `;
     
-    const result = await connection.getPgClient().query(query);
+    const result = await connection.getPool().query(query);
     
     return {
       success: true,
       migrations: result.rows
     };
   } catch (error) {
-    logError(error as Error, 'list_migrations');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'list_migrations');
   }
 };
 
-export const handleApplyMigration = async (args: unknown) => {
-  const { migrationId } = args as { migrationId: string };
+export const handleApplyMigration = async (args: ApplyMigrationArgs) => {
+  const { migrationId } = args;
   const connection = getConnection();
   
   try {
@@ -169,30 +96,22 @@ export const handleApplyMigration = async (args: unknown) => {
       WHERE id = $1;
     `;
     
-    const migrationResult = await connection.getPgClient().query(getMigrationQuery, [migrationId]);
+    const migrationResult = await connection.getPool().query(getMigrationQuery, [migrationId]);
     
     if (migrationResult.rows.length === 0) {
-      return {
-        success: false,
-        error: `Migración con ID '${migrationId}' no encontrada`
-      };
+      throw new NotFoundError(`Migración con ID '${migrationId}' no encontrada`);
     }
     
     const migration = migrationResult.rows[0];
     
     if (migration.applied) {
-      return {
-        success: false,
-        error: `Migración '${migration.name}' ya está aplicada`
-      };
+      throw new ConflictError(`Migración '${migration.name}' ya está aplicada`);
     }
     
-    // Ejecutar la migración en una transacción
-    await connection.getPgClient().query('BEGIN');
-    
-    try {
+    // Ejecutar la migración en una transacción con un cliente dedicado
+    await connection.withTransaction(async (client) => {
       // Ejecutar el SQL de la migración
-      await connection.getPgClient().query(migration.up_sql);
+      await client.query(migration.up_sql);
       
       // Marcar como aplicada
       const updateQuery = `
@@ -201,31 +120,72 @@ export const handleApplyMigration = async (args: unknown) => {
         WHERE id = $1;
       `;
       
-      await connection.getPgClient().query(updateQuery, [migrationId]);
-      
-      await connection.getPgClient().query('COMMIT');
-      
-      logInfo(`Migración '${migration.name}' aplicada exitosamente`);
-      
+      await client.query(updateQuery, [migrationId]);
+    });
+    
+    logInfo(`Migración '${migration.name}' aplicada exitosamente`);
+    
+    return {
+      success: true,
+      message: `Migración '${migration.name}' aplicada exitosamente`
+    };
+  } catch (error) {
+    return toErrorResult(error, 'apply_migration');
+  }
+};
+
+// Aplica todas las migraciones pendientes en orden de creación, en una única transacción:
+// si una falla no queda ninguna aplicada
+export const handleApplyPendingMigrations = async () => {
+  const connection = getConnection();
+  
+  try {
+    await ensureMigrationTable();
+    
+    const pendingQuery = `
+      SELECT id, name, up_sql
+      FROM supabase_migrations
+      WHERE applied = FALSE
+      ORDER BY created_at ASC;
+    `;
+    
+    const pending = (await connection.getPool().query(pendingQuery)).rows;
+    
+    if (pending.length === 0) {
       return {
         success: true,
-        message: `Migración '${migration.name}' aplicada exitosamente`
+        applied: [],
+        message: 'No hay migraciones pendientes'
       };
-    } catch (error) {
-      await connection.getPgClient().query('ROLLBACK');
-      throw error;
     }
-  } catch (error) {
-    logError(error as Error, 'apply_migration');
+    
+    await connection.withTransaction(async (client) => {
+      const progress = trackProgress('Migraciones', pending.length);
+      for (const migration of pending) {
+        await client.query(migration.up_sql);
+        await client.query(
+          'UPDATE supabase_migrations SET applied = TRUE, applied_at = NOW() WHERE id = $1;',
+          [migration.id]
+        );
+        progress.step(migration.name);
+      }
+    });
+    
+    const applied = pending.map(migration => migration.name);
+    logInfo(`Migraciones aplicadas exitosamente: ${applied.join(', ')}`);
+    
     return {
-      success: false,
-      error: (error as Error).message
+      success: true,
+      applied,
+      message: `${applied.length} migraciones aplicadas exitosamente`
     };
+  } catch (error) {
+    return toErrorResult(error, 'apply_pending_migrations');
   }
 };
 
-export const handleRollbackMigration = async (args: unknown) => {
-  const { migrationId } = args as { migrationId: string };
+export const handleRollbackMigration = async (args: RollbackMigrationArgs) => {
+  const { migrationId } = args;
   const connection = getConnection();
   
   try {
@@ -238,30 +198,22 @@ export const handleRollbackMigration = async (args: unknown) => {
       WHERE id = $1;
     `;
     
-    const migrationResult = await connection.getPgClient().query(getMigrationQuery, [migrationId]);
+    const migrationResult = await connection.getPool().query(getMigrationQuery, [migrationId]);
     
     if (migrationResult.rows.length === 0) {
-      return {
-        success: false,
-        error: `Migración con ID '${migrationId}' no encontrada`
-      };
+      throw new NotFoundError(`Migración con ID '${migrationId}' no encontrada`);
     }
     
     const migration = migrationResult.rows[0];
     
     if (!migration.applied) {
-      return {
-        success: false,
-        error: `Migración '${migration.name}' no está aplicada`
-      };
+      throw new ConflictError(`Migración '${migration.name}' no está aplicada`);
     }
     
-    // Ejecutar el rollback en una transacción
-    await connection.getPgClient().query('BEGIN');
-    
-    try {
+    // Ejecutar el rollback en una transacción con un cliente dedicado
+    await connection.withTransaction(async (client) => {
       // Ejecutar el SQL de rollback
-      await connection.getPgClient().query(migration.down_sql);
+      await client.query(migration.down_sql);
       
       // Marcar como no aplicada
       const updateQuery = `
@@ -270,26 +222,17 @@ export const handleRollbackMigration = async (args: unknown) => {
         WHERE id = $1;
       `;
       
-      await connection.getPgClient().query(updateQuery, [migrationId]);
-      
-      await connection.getPgClient().query('COMMIT');
-      
-      logInfo(`Migración '${migration.name}' revertida exitosamente`);
-      
-      return {
-        success: true,
-        message: `Migración '${migration.name}' revertida exitosamente`
-      };
-    } catch (error) {
-      await connection.getPgClient().query('ROLLBACK');
-      throw error;
-    }
-  } catch (error) {
-    logError(error as Error, 'rollback_migration');
+      await client.query(updateQuery, [migrationId]);
+    });
+    
+    logInfo(`Migración '${migration.name}' revertida exitosamente`);
+    
     return {
-      success: false,
-      error: (error as Error).message
+      success: true,
+      message: `Migración '${migration.name}' revertida exitosamente`
     };
+  } catch (error) {
+    return toErrorResult(error, 'rollback_migration');
   }
 };
 
@@ -308,7 +251,7 @@ export const handleGetMigrationStatus = async () => {
       FROM supabase_migrations;
     `;
     
-    const result = await connection.getPgClient().query(query);
+    const result = await connection.getPool().query(query);
     const status = result.rows[0];
     
     return {
@@ -321,10 +264,47 @@ export const handleGetMigrationStatus = async () => {
       }
     };
   } catch (error) {
-    logError(error as Error, 'get_migration_status');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'get_migration_status');
   }
-};
\ No newline at end of file
+};
+
+export const migrationTools = [
+  defineTool({
+    name: 'create_migration',
+    description: 'Crear una nueva migración',
+    schema: CreateMigrationSchema,
+    handler: handleCreateMigration
+  }),
+  defineTool({
+    name: 'list_migrations',
+    description: 'Listar todas las migraciones',
+    schema: EmptySchema,
+    handler: handleListMigrations,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'apply_migration',
+    description: 'Aplicar una migración específica',
+    schema: ApplyMigrationSchema,
+    handler: handleApplyMigration
+  }),
+  defineTool({
+    name: 'apply_pending_migrations',
+    description: 'Aplicar en orden todas las migraciones pendientes en una única transacción',
+    schema: EmptySchema,
+    handler: handleApplyPendingMigrations
+  }),
+  defineTool({
+    name: 'rollback_migration',
+    description: 'Revertir una migración específica',
+    schema: RollbackMigrationSchema,
+    handler: handleRollbackMigration
+  }),
+  defineTool({
+    name: 'get_migration_status',
+    description: 'Obtener el estado de las migraciones',
+    schema: EmptySchema,
+    handler: handleGetMigrationStatus,
+    readOnly: true
+  })
+];
@@ -0,0 +1,28 @@
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { runWithContext } from '../utils/context.js';
+import { projectTools } from './projects.js';
+
+const call = toolCaller(projectTools);
+
+const harness = useSandbox();
+
+describe('proyectos', () => {
+  it('lista el perfil del sandbox sin exponer claves', async () => {
+    const result = await call<{ projects: unknown[] }>('list_projects');
+    expect(result).toMatchObject({ success: true, activeProject: 'sandbox' });
+    expect(result.projects).toEqual([expect.objectContaining({ name: 'sandbox', active: true, default: true })]);
+    expect(JSON.stringify(result)).not.toContain(harness.sandbox.profiles.profiles.sandbox?.serviceRoleKey);
+  });
+
+  it('cambia de proyecto sólo dentro de una sesión', async () => {
+    expect((await call('switch_project', { name: 'sandbox' })).success).toBe(false);
+
+    const session = {};
+    const switched = await runWithContext({ session }, () => call('switch_project', { name: 'sandbox' }));
+    expect(switched).toMatchObject({ success: true, activeProject: 'sandbox' });
+    expect(session).toEqual({ activeProject: 'sandbox' });
+
+    const unknown = await runWithContext({ session }, () => call('switch_project', { name: 'otro' }));
+    expect(unknown.success).toBe(false);
+  });
+});
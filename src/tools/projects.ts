@@ -0,0 +1,75 @@
+import { defineTool } from './registry.js';
+import { getDefaultProfile, listConnections, resolveProjectName } from '../utils/connection.js';
+import { getRequestContext } from '../utils/context.js';
+import { EmptySchema, SwitchProjectArgs, SwitchProjectSchema } from '../types/mcp.js';
+import { logInfo } from '../utils/logger.js';
+import { toErrorResult } from '../utils/errors.js';
+
+export const handleListProjects = async () => {
+  try {
+    const activeProject = resolveProjectName();
+    const defaultProfile = getDefaultProfile();
+
+    // Nunca se exponen claves ni cadenas de conexión
+    const projects = listConnections().map(connection => {
+      const config = connection.getConfig();
+      return {
+        name: config.name,
+        url: config.url,
+        readOnly: config.readOnly,
+        functionsDir: config.functionsDir || null,
+        active: config.name === activeProject,
+        default: config.name === defaultProfile
+      };
+    });
+
+    return {
+      success: true,
+      activeProject,
+      projects
+    };
+  } catch (error) {
+    return toErrorResult(error, 'list_projects');
+  }
+};
+
+export const handleSwitchProject = async (args: SwitchProjectArgs) => {
+  const { name } = args;
+
+  try {
+    const context = getRequestContext();
+    if (!context) {
+      throw new Error('switch_project sólo puede usarse dentro de una sesión MCP');
+    }
+
+    const resolved = resolveProjectName(name);
+    context.session.activeProject = resolved;
+
+    logInfo(`Proyecto activo cambiado a '${resolved}'`);
+
+    return {
+      success: true,
+      activeProject: resolved,
+      message: `Proyecto activo cambiado a '${resolved}' para esta sesión`
+    };
+  } catch (error) {
+    return toErrorResult(error, 'switch_project');
+  }
+};
+
+export const projectTools = [
+  defineTool({
+    name: 'list_projects',
+    description: 'Listar los perfiles/proyectos de Supabase configurados',
+    schema: EmptySchema,
+    handler: handleListProjects,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'switch_project',
+    description: 'Cambiar el proyecto de Supabase activo para esta sesión',
+    schema: SwitchProjectSchema,
+    handler: handleSwitchProject,
+    readOnly: true
+  })
+];
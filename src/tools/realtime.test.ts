@@ -0,0 +1,33 @@
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { getConnection } from '../utils/connection.js';
+import { realtimeTools } from './realtime.js';
+
+const call = toolCaller(realtimeTools);
+
+useSandbox({
+  teardown: () => {
+    // El sandbox no simula Realtime: se corta el socket para que no queden reintentos pendientes
+    getConnection().getSupabaseClient().realtime.disconnect();
+  }
+});
+
+describe('suscripciones Realtime', () => {
+  it('crea, lista y elimina una suscripción', async () => {
+    const created = await call<{ subscriptionId: string }>('create_realtime_subscription', { table: 'messages', event: 'INSERT' });
+    expect(created.success).toBe(true);
+
+    const listed = await call<{ subscriptions: unknown[] }>('list_realtime_subscriptions');
+    expect(listed.subscriptions).toEqual([
+      expect.objectContaining({ id: created.subscriptionId, schema: 'public', table: 'messages', event: 'INSERT' })
+    ]);
+
+    const deleted = await call('delete_realtime_subscription', { subscriptionId: created.subscriptionId });
+    expect(deleted.success).toBe(true);
+    expect((await call<{ subscriptions: unknown[] }>('list_realtime_subscriptions')).subscriptions).toEqual([]);
+  });
+
+  it('informa si la suscripción no existe', async () => {
+    const result = await call('delete_realtime_subscription', { subscriptionId: 'no_existe' });
+    expect(result).toMatchObject({ success: false, error: { code: 'NOT_FOUND' } });
+  });
+});
@@ -1,68 +1,17 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { validateInput } from '../utils/validation.js';
-import { CreateRealtimeSubscriptionArgs, CreateRealtimeSubscriptionSchema } from '../types/mcp.js';
-import { logError, logInfo } from '../utils/logger.js';
-
-export const realtimeTools: Tool[] = [
-  {
-    name: 'create_realtime_subscription',
-    description: 'Crear una suscripción en tiempo real',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        },
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        filter: {
-          type: 'string',
-          description: 'Filtro para la suscripción'
-        },
-        event: {
-          type: 'string',
-          enum: ['INSERT', 'UPDATE', 'DELETE', '*'],
-          description: 'Tipo de evento a escuchar',
-          default: '*'
-        }
-      },
-      required: ['table']
-    }
-  },
-  {
-    name: 'list_realtime_subscriptions',
-    description: 'Listar todas las suscripciones en tiempo real',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'delete_realtime_subscription',
-    description: 'Eliminar una suscripción en tiempo real',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        subscriptionId: {
-          type: 'string',
-          description: 'ID de la suscripción'
-        }
-      },
-      required: ['subscriptionId']
-    }
-  }
-];
+import {
+  EmptySchema, CreateRealtimeSubscriptionArgs, CreateRealtimeSubscriptionSchema,
+  DeleteRealtimeSubscriptionArgs, DeleteRealtimeSubscriptionSchema
+} from '../types/mcp.js';
+import { logInfo } from '../utils/logger.js';
+import { toErrorResult, NotFoundError } from '../utils/errors.js';
 
 // Almacenar suscripciones activas
 const activeSubscriptions = new Map<string, any>();
 
-export const handleCreateRealtimeSubscription = async (args: unknown) => {
-  const { schema, table, filter, event } = validateInput(CreateRealtimeSubscriptionSchema, args);
+export const handleCreateRealtimeSubscription = async (args: CreateRealtimeSubscriptionArgs) => {
+  const { schema, table, filter, event } = args;
   const connection = getConnection();
   
   try {
@@ -117,11 +66,7 @@ export const handleCreateRealtimeSubscription = async (args: unknown) => {
       message: `Suscripción en tiempo real creada exitosamente`
     };
   } catch (error) {
-    logError(error as Error, 'create_realtime_subscription');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'create_realtime_subscription');
   }
 };
 
@@ -141,25 +86,18 @@ export const handleListRealtimeSubscriptions = async () => {
       subscriptions
     };
   } catch (error) {
-    logError(error as Error, 'list_realtime_subscriptions');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'list_realtime_subscriptions');
   }
 };
 
-export const handleDeleteRealtimeSubscription = async (args: unknown) => {
-  const { subscriptionId } = args as { subscriptionId: string };
+export const handleDeleteRealtimeSubscription = async (args: DeleteRealtimeSubscriptionArgs) => {
+  const { subscriptionId } = args;
   
   try {
     const subscription = activeSubscriptions.get(subscriptionId);
     
     if (!subscription) {
-      return {
-        success: false,
-        error: `Suscripción con ID '${subscriptionId}' no encontrada`
-      };
+      throw new NotFoundError(`Suscripción con ID '${subscriptionId}' no encontrada`);
     }
     
     // Cancelar la suscripción
@@ -175,10 +113,30 @@ export const handleDeleteRealtimeSubscription = async (args: unknown) => {
       message: `Suscripción eliminada exitosamente`
     };
   } catch (error) {
-    logError(error as Error, 'delete_realtime_subscription');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'delete_realtime_subscription');
   }
-};
\ No newline at end of file
+};
+
+export const realtimeTools = [
+  defineTool({
+    name: 'create_realtime_subscription',
+    description: 'Crear una suscripción en tiempo real',
+    schema: CreateRealtimeSubscriptionSchema,
+    handler: handleCreateRealtimeSubscription,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'list_realtime_subscriptions',
+    description: 'Listar todas las suscripciones en tiempo real',
+    schema: EmptySchema,
+    handler: handleListRealtimeSubscriptions,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'delete_realtime_subscription',
+    description: 'Eliminar una suscripción en tiempo real',
+    schema: DeleteRealtimeSubscriptionSchema,
+    handler: handleDeleteRealtimeSubscription,
+    readOnly: true
+  })
+];
@@ -0,0 +1,82 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { validateInput } from '../utils/validation.js';
+import { ProjectArgSchema } from '../types/mcp.js';
+import { NotFoundError } from '../utils/errors.js';
+
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  schema: S;
+  handler: (args: z.output<S>) => Promise<unknown>;
+  // Las herramientas que no modifican la instancia siguen disponibles en perfiles de sólo lectura
+  readOnly?: boolean;
+  // Clave del resultado con la lista de filas/elementos que admite el argumento `format`
+  resultItems?: string | ((result: Record<string, unknown>) => string | undefined);
+}
+
+// Mantiene el tipo del schema dentro de cada definición para que el handler reciba los argumentos tipados
+export const defineTool = <S extends z.AnyZodObject>(definition: ToolDefinition<S>): ToolDefinition =>
+  definition as unknown as ToolDefinition;
+
+// El inputSchema anunciado se genera desde el mismo schema zod que valida la llamada,
+// más el argumento `project` común a todas las herramientas
+const toInputSchema = (schema: z.AnyZodObject): Tool['inputSchema'] => {
+  const jsonSchema = zodToJsonSchema(schema.merge(ProjectArgSchema), { $refStrategy: 'none' }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+  return jsonSchema as Tool['inputSchema'];
+};
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(definitions: ToolDefinition[] = []) {
+    this.register(...definitions);
+  }
+
+  register(...definitions: ToolDefinition[]): void {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Herramienta duplicada: ${definition.name}`);
+      }
+      this.tools.set(definition.name, definition);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  listTools(filter: (definition: ToolDefinition) => boolean = () => true): Tool[] {
+    return Array.from(this.tools.values()).filter(filter).map(definition => ({
+      name: definition.name,
+      description: definition.description,
+      inputSchema: toInputSchema(definition.schema),
+      annotations: { readOnlyHint: definition.readOnly === true }
+    }));
+  }
+
+  // `check` recibe los argumentos ya validados (con sus valores por defecto) antes de ejecutar el handler
+  async call(
+    name: string,
+    args: unknown,
+    check?: (definition: ToolDefinition, validatedArgs: Record<string, unknown>) => void
+  ): Promise<unknown> {
+    const definition = this.tools.get(name);
+    if (!definition) {
+      throw new NotFoundError(`Herramienta desconocida: ${name}`);
+    }
+    const validatedArgs = validateInput(definition.schema, args ?? {});
+    check?.(definition, validatedArgs);
+    return definition.handler(validatedArgs);
+  }
+}
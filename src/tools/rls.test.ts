@@ -0,0 +1,59 @@
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { getConnection } from '../utils/connection.js';
+import { rlsTools } from './rls.js';
+
+const call = toolCaller(rlsTools);
+
+const rlsEnabled = async (table: string): Promise<boolean> => {
+  const result = await getConnection().getPool().query('SELECT relrowsecurity FROM pg_class WHERE relname = $1', [table]);
+  return result.rows[0].relrowsecurity;
+};
+
+useSandbox();
+
+beforeAll(async () => {
+  await getConnection().getPool().query('CREATE TABLE notes (id serial PRIMARY KEY, owner uuid, body text)');
+});
+
+describe('enable_rls / disable_rls', () => {
+  it('activa y desactiva RLS en la tabla', async () => {
+    expect((await call('enable_rls', { table: 'notes' })).success).toBe(true);
+    expect(await rlsEnabled('notes')).toBe(true);
+
+    expect((await call('disable_rls', { table: 'notes' })).success).toBe(true);
+    expect(await rlsEnabled('notes')).toBe(false);
+  });
+
+  it('dryRun no aplica el cambio', async () => {
+    const preview = await call('enable_rls', { table: 'notes', dryRun: true });
+    expect(preview.success).toBe(true);
+    expect(await rlsEnabled('notes')).toBe(false);
+  });
+});
+
+describe('políticas RLS', () => {
+  it('crea una política y la lista', async () => {
+    const created = await call('create_rls_policy', {
+      name: 'own_notes',
+      table: 'notes',
+      command: 'SELECT',
+      using: 'owner = auth.uid()'
+    });
+    expect(created.success).toBe(true);
+
+    const listed = await call<{ policies: unknown[] }>('list_rls_policies', { table: 'notes' });
+    expect(listed.policies).toEqual([
+      expect.objectContaining({ name: 'own_notes', command: 'SELECT', using_expression: '(owner = auth.uid())' })
+    ]);
+  });
+
+  it('rechaza una expresión inválida', async () => {
+    const result = await call('create_rls_policy', { name: 'broken', table: 'notes', command: 'ALL', using: 'no_existe = 1' });
+    expect(result.success).toBe(false);
+  });
+
+  it('elimina la política', async () => {
+    expect((await call('delete_rls_policy', { policyName: 'own_notes', table: 'notes' })).success).toBe(true);
+    expect((await call<{ policies: unknown[] }>('list_rls_policies', { table: 'notes' })).policies).toEqual([]);
+  });
+});
@@ -1,141 +1,16 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { validateInput, sanitizeSQLIdentifier } from '../utils/validation.js';
-import { CreateRLSPolicyArgs, CreateRLSPolicySchema } from '../types/mcp.js';
-import { logError, logInfo } from '../utils/logger.js';
+import { sanitizeSQLIdentifier } from '../utils/validation.js';
+import {
+  CreateRLSPolicyArgs, CreateRLSPolicySchema, ListRLSPoliciesArgs, ListRLSPoliciesSchema,
+  DeleteRLSPolicyArgs, DeleteRLSPolicySchema, ToggleRLSArgs, ToggleRLSSchema
+} from '../types/mcp.js';
+import { logInfo } from '../utils/logger.js';
+import { toErrorResult } from '../utils/errors.js';
+import { isDryRun, previewStatements } from '../utils/dry-run.js';
 
-export const rlsTools: Tool[] = [
-  {
-    name: 'create_rls_policy',
-    description: 'Crear una política de Row Level Security',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Nombre de la política'
-        },
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        },
-        command: {
-          type: 'string',
-          enum: ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'ALL'],
-          description: 'Comando al que aplicar la política'
-        },
-        permissive: {
-          type: 'boolean',
-          description: 'Si la política es permisiva',
-          default: true
-        },
-        roles: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Roles a los que aplicar la política',
-          default: ['authenticated']
-        },
-        using: {
-          type: 'string',
-          description: 'Expresión USING para la política'
-        },
-        withCheck: {
-          type: 'string',
-          description: 'Expresión WITH CHECK para la política'
-        }
-      },
-      required: ['name', 'table', 'command']
-    }
-  },
-  {
-    name: 'list_rls_policies',
-    description: 'Listar todas las políticas RLS de una tabla',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['table']
-    }
-  },
-  {
-    name: 'delete_rls_policy',
-    description: 'Eliminar una política RLS',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        policyName: {
-          type: 'string',
-          description: 'Nombre de la política'
-        },
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['policyName', 'table']
-    }
-  },
-  {
-    name: 'enable_rls',
-    description: 'Habilitar RLS en una tabla',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['table']
-    }
-  },
-  {
-    name: 'disable_rls',
-    description: 'Deshabilitar RLS en una tabla',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['table']
-    }
-  }
-];
-
-export const handleCreateRLSPolicy = async (args: unknown) => {
-  const { name, table, schema, command, permissive, roles, using, withCheck } = validateInput(CreateRLSPolicySchema, args);
+export const handleCreateRLSPolicy = async (args: CreateRLSPolicyArgs) => {
+  const { name, table, schema, command, permissive, roles, using, withCheck, dryRun } = args;
   const connection = getConnection();
   
   try {
@@ -166,7 +41,13 @@ export const handleCreateRLSPolicy = async (args: unknown) => {
     
     query += ';';
     
-    await connection.getPgClient().query(query);
+    if (isDryRun(dryRun)) {
+      return previewStatements(connection, [query], [
+        { type: 'policy', name: `${sanitizedName} ON ${sanitizedSchema}.${sanitizedTable}`, action: 'create' }
+      ]);
+    }
+    
+    await connection.getPool().query(query);
     
     logInfo(`Política RLS '${name}' creada exitosamente en ${sanitizedSchema}.${sanitizedTable}`);
     
@@ -175,16 +56,12 @@ export const handleCreateRLSPolicy = async (args: unknown) => {
       message: `Política RLS '${name}' creada exitosamente`
     };
   } catch (error) {
-    logError(error as Error, 'create_rls_policy');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'create_rls_policy');
   }
 };
 
-export const handleListRLSPolicies = async (args: unknown) => {
-  const { table, schema = 'public' } = args as { table: string; schema?: string };
+export const handleListRLSPolicies = async (args: ListRLSPoliciesArgs) => {
+  const { table, schema } = args;
   const connection = getConnection();
   
   try {
@@ -205,27 +82,19 @@ export const handleListRLSPolicies = async (args: unknown) => {
       WHERE p.tablename = $1 AND n.nspname = $2;
     `;
     
-    const result = await connection.getPgClient().query(query, [sanitizedTable, sanitizedSchema]);
+    const result = await connection.getPool().query(query, [sanitizedTable, sanitizedSchema]);
     
     return {
       success: true,
       policies: result.rows
     };
   } catch (error) {
-    logError(error as Error, 'list_rls_policies');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'list_rls_policies');
   }
 };
 
-export const handleDeleteRLSPolicy = async (args: unknown) => {
-  const { policyName, table, schema = 'public' } = args as {
-    policyName: string;
-    table: string;
-    schema?: string;
-  };
+export const handleDeleteRLSPolicy = async (args: DeleteRLSPolicyArgs) => {
+  const { policyName, table, schema, dryRun } = args;
   const connection = getConnection();
   
   try {
@@ -235,7 +104,13 @@ export const handleDeleteRLSPolicy = async (args: unknown) => {
     
     const query = `DROP POLICY IF EXISTS ${sanitizedPolicy} ON ${sanitizedSchema}.${sanitizedTable};`;
     
-    await connection.getPgClient().query(query);
+    if (isDryRun(dryRun)) {
+      return previewStatements(connection, [query], [
+        { type: 'policy', name: `${sanitizedPolicy} ON ${sanitizedSchema}.${sanitizedTable}`, action: 'drop' }
+      ]);
+    }
+    
+    await connection.getPool().query(query);
     
     logInfo(`Política RLS '${policyName}' eliminada exitosamente de ${sanitizedSchema}.${sanitizedTable}`);
     
@@ -244,16 +119,12 @@ export const handleDeleteRLSPolicy = async (args: unknown) => {
       message: `Política RLS '${policyName}' eliminada exitosamente`
     };
   } catch (error) {
-    logError(error as Error, 'delete_rls_policy');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'delete_rls_policy');
   }
 };
 
-export const handleEnableRLS = async (args: unknown) => {
-  const { table, schema = 'public' } = args as { table: string; schema?: string };
+export const handleEnableRLS = async (args: ToggleRLSArgs) => {
+  const { table, schema, dryRun } = args;
   const connection = getConnection();
   
   try {
@@ -262,7 +133,13 @@ export const handleEnableRLS = async (args: unknown) => {
     
     const query = `ALTER TABLE ${sanitizedSchema}.${sanitizedTable} ENABLE ROW LEVEL SECURITY;`;
     
-    await connection.getPgClient().query(query);
+    if (isDryRun(dryRun)) {
+      return previewStatements(connection, [query], [
+        { type: 'table', name: `${sanitizedSchema}.${sanitizedTable}`, action: 'alter' }
+      ]);
+    }
+    
+    await connection.getPool().query(query);
     
     logInfo(`RLS habilitado en ${sanitizedSchema}.${sanitizedTable}`);
     
@@ -271,16 +148,12 @@ export const handleEnableRLS = async (args: unknown) => {
       message: `RLS habilitado en ${sanitizedSchema}.${sanitizedTable}`
     };
   } catch (error) {
-    logError(error as Error, 'enable_rls');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'enable_rls');
   }
 };
 
-export const handleDisableRLS = async (args: unknown) => {
-  const { table, schema = 'public' } = args as { table: string; schema?: string };
+export const handleDisableRLS = async (args: ToggleRLSArgs) => {
+  const { table, schema, dryRun } = args;
   const connection = getConnection();
   
   try {
@@ -289,7 +162,13 @@ export const handleDisableRLS = async (args: unknown) => {
     
     const query = `ALTER TABLE ${sanitizedSchema}.${sanitizedTable} DISABLE ROW LEVEL SECURITY;`;
     
-    await connection.getPgClient().query(query);
+    if (isDryRun(dryRun)) {
+      return previewStatements(connection, [query], [
+        { type: 'table', name: `${sanitizedSchema}.${sanitizedTable}`, action: 'alter' }
+      ]);
+    }
+    
+    await connection.getPool().query(query);
     
     logInfo(`RLS deshabilitado en ${sanitizedSchema}.${sanitizedTable}`);
     
@@ -298,10 +177,40 @@ export const handleDisableRLS = async (args: unknown) => {
       message: `RLS deshabilitado en ${sanitizedSchema}.${sanitizedTable}`
     };
   } catch (error) {
-    logError(error as Error, 'disable_rls');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'disable_rls');
   }
-};
\ No newline at end of file
+};
+
+export const rlsTools = [
+  defineTool({
+    name: 'create_rls_policy',
+    description: 'Crear una política de Row Level Security',
+    schema: CreateRLSPolicySchema,
+    handler: handleCreateRLSPolicy
+  }),
+  defineTool({
+    name: 'list_rls_policies',
+    description: 'Listar todas las políticas RLS de una tabla',
+    schema: ListRLSPoliciesSchema,
+    handler: handleListRLSPolicies,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'delete_rls_policy',
+    description: 'Eliminar una política RLS',
+    schema: DeleteRLSPolicySchema,
+    handler: handleDeleteRLSPolicy
+  }),
+  defineTool({
+    name: 'enable_rls',
+    description: 'Habilitar RLS en una tabla',
+    schema: ToggleRLSSchema,
+    handler: handleEnableRLS
+  }),
+  defineTool({
+    name: 'disable_rls',
+    description: 'Deshabilitar RLS en una tabla',
+    schema: ToggleRLSSchema,
+    handler: handleDisableRLS
+  })
+];
@@ -0,0 +1,59 @@
+import { useSandbox, toolCaller } from '../testing/sandbox.js';
+import { storageTools } from './storage.js';
+
+const call = toolCaller(storageTools);
+
+const base64 = (text: string) => Buffer.from(text).toString('base64');
+
+useSandbox();
+
+describe('buckets', () => {
+  it('crea un bucket y lo lista', async () => {
+    const created = await call('create_storage_bucket', { name: 'avatars', public: true });
+    expect(created.success).toBe(true);
+
+    const listed = await call<{ buckets: { name: string }[] }>('list_storage_buckets');
+    expect(listed.buckets.map(bucket => bucket.name)).toContain('avatars');
+  });
+
+  it('rechaza un bucket repetido', async () => {
+    const result = await call('create_storage_bucket', { name: 'avatars' });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('archivos', () => {
+  it('sube, lista y descarga archivos', async () => {
+    const uploaded = await call('upload_file', {
+      bucketName: 'avatars',
+      fileName: 'users/ana.txt',
+      fileData: base64('hola'),
+      contentType: 'text/plain'
+    });
+    expect(uploaded.success).toBe(true);
+
+    const listed = await call<{ files: { name: string }[] }>('list_files', { bucketName: 'avatars', folder: 'users' });
+    expect(listed.files.map(file => file.name)).toEqual(['ana.txt']);
+
+    const downloaded = await call<{ fileData: string; contentType: string }>('download_file', { bucketName: 'avatars', fileName: 'users/ana.txt' });
+    expect(downloaded).toMatchObject({ success: true, fileData: base64('hola') });
+    expect(downloaded.contentType).toContain('text/plain');
+  });
+
+  it('sólo sobrescribe con upsert', async () => {
+    const args = { bucketName: 'avatars', fileName: 'users/ana.txt', fileData: base64('adiós') };
+    expect((await call('upload_file', args)).success).toBe(false);
+    expect((await call('upload_file', { ...args, upsert: true })).success).toBe(true);
+
+    const downloaded = await call<{ fileData: string; contentType: string }>('download_file', { bucketName: 'avatars', fileName: 'users/ana.txt' });
+    expect(Buffer.from(downloaded.fileData, 'base64').toString()).toBe('adiós');
+  });
+
+  it('elimina archivos', async () => {
+    const deleted = await call('delete_file', { bucketName: 'avatars', fileName: 'users/ana.txt' });
+    expect(deleted.success).toBe(true);
+
+    const missing = await call('download_file', { bucketName: 'avatars', fileName: 'users/ana.txt' });
+    expect(missing.success).toBe(false);
+  });
+});
@@ -1,146 +1,15 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { validateInput } from '../utils/validation.js';
-import { CreateStorageBucketArgs, CreateStorageBucketSchema } from '../types/mcp.js';
-import { logError, logInfo } from '../utils/logger.js';
+import {
+  EmptySchema, CreateStorageBucketArgs, CreateStorageBucketSchema, UploadFileArgs, UploadFileSchema,
+  StorageFileArgs, StorageFileSchema, ListFilesArgs, ListFilesSchema
+} from '../types/mcp.js';
+import { logInfo } from '../utils/logger.js';
+import { toErrorResult } from '../utils/errors.js';
+import { offsetSource, paginate } from '../utils/pagination.js';
 
-export const storageTools: Tool[] = [
-  {
-    name: 'create_storage_bucket',
-    description: 'Crear un nuevo bucket de almacenamiento',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Nombre del bucket'
-        },
-        public: {
-          type: 'boolean',
-          description: 'Si el bucket es público',
-          default: false
-        },
-        fileSizeLimit: {
-          type: 'number',
-          description: 'Límite de tamaño de archivo en bytes'
-        },
-        allowedMimeTypes: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Tipos MIME permitidos'
-        }
-      },
-      required: ['name']
-    }
-  },
-  {
-    name: 'list_storage_buckets',
-    description: 'Listar todos los buckets de almacenamiento',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'upload_file',
-    description: 'Subir un archivo al almacenamiento',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        bucketName: {
-          type: 'string',
-          description: 'Nombre del bucket'
-        },
-        fileName: {
-          type: 'string',
-          description: 'Nombre del archivo'
-        },
-        fileData: {
-          type: 'string',
-          description: 'Datos del archivo en base64'
-        },
-        contentType: {
-          type: 'string',
-          description: 'Tipo de contenido del archivo'
-        },
-        upsert: {
-          type: 'boolean',
-          description: 'Sobrescribir si existe',
-          default: false
-        }
-      },
-      required: ['bucketName', 'fileName', 'fileData']
-    }
-  },
-  {
-    name: 'download_file',
-    description: 'Descargar un archivo del almacenamiento',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        bucketName: {
-          type: 'string',
-          description: 'Nombre del bucket'
-        },
-        fileName: {
-          type: 'string',
-          description: 'Nombre del archivo'
-        }
-      },
-      required: ['bucketName', 'fileName']
-    }
-  },
-  {
-    name: 'delete_file',
-    description: 'Eliminar un archivo del almacenamiento',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        bucketName: {
-          type: 'string',
-          description: 'Nombre del bucket'
-        },
-        fileName: {
-          type: 'string',
-          description: 'Nombre del archivo'
-        }
-      },
-      required: ['bucketName', 'fileName']
-    }
-  },
-  {
-    name: 'list_files',
-    description: 'Listar archivos en un bucket',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        bucketName: {
-          type: 'string',
-          description: 'Nombre del bucket'
-        },
-        folder: {
-          type: 'string',
-          description: 'Carpeta específica',
-          default: ''
-        },
-        limit: {
-          type: 'number',
-          description: 'Límite de archivos a devolver',
-          default: 100
-        },
-        offset: {
-          type: 'number',
-          description: 'Offset para paginación',
-          default: 0
-        }
-      },
-      required: ['bucketName']
-    }
-  }
-];
-
-export const handleCreateBucket = async (args: unknown) => {
-  const { name, public: isPublic, fileSizeLimit, allowedMimeTypes } = validateInput(CreateStorageBucketSchema, args);
+export const handleCreateBucket = async (args: CreateStorageBucketArgs) => {
+  const { name, public: isPublic, fileSizeLimit, allowedMimeTypes } = args;
   const connection = getConnection();
   
   try {
@@ -161,11 +30,7 @@ export const handleCreateBucket = async (args: unknown) => {
     const { data, error } = await supabase.storage.createBucket(name, bucketOptions);
     
     if (error) {
-      logError(new Error(error.message), 'create_storage_bucket');
-      return {
-        success: false,
-        error: error.message
-      };
+      throw error;
     }
     
     logInfo(`Bucket '${name}' creado exitosamente`);
@@ -176,11 +41,7 @@ export const handleCreateBucket = async (args: unknown) => {
       message: `Bucket '${name}' creado exitosamente`
     };
   } catch (error) {
-    logError(error as Error, 'create_storage_bucket');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'create_storage_bucket');
   }
 };
 
@@ -193,11 +54,7 @@ export const handleListBuckets = async () => {
     const { data, error } = await supabase.storage.listBuckets();
     
     if (error) {
-      logError(new Error(error.message), 'list_storage_buckets');
-      return {
-        success: false,
-        error: error.message
-      };
+      throw error;
     }
     
     return {
@@ -205,22 +62,12 @@ export const handleListBuckets = async () => {
       buckets: data
     };
   } catch (error) {
-    logError(error as Error, 'list_storage_buckets');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'list_storage_buckets');
   }
 };
 
-export const handleUploadFile = async (args: unknown) => {
-  const { bucketName, fileName, fileData, contentType, upsert } = args as {
-    bucketName: string;
-    fileName: string;
-    fileData: string;
-    contentType?: string;
-    upsert?: boolean;
-  };
+export const handleUploadFile = async (args: UploadFileArgs) => {
+  const { bucketName, fileName, fileData, contentType, upsert } = args;
   const connection = getConnection();
   
   try {
@@ -244,11 +91,7 @@ export const handleUploadFile = async (args: unknown) => {
       .upload(fileName, buffer, uploadOptions);
     
     if (error) {
-      logError(new Error(error.message), 'upload_file');
-      return {
-        success: false,
-        error: error.message
-      };
+      throw error;
     }
     
     logInfo(`Archivo '${fileName}' subido exitosamente al bucket '${bucketName}'`);
@@ -259,19 +102,12 @@ export const handleUploadFile = async (args: unknown) => {
       message: `Archivo '${fileName}' subido exitosamente`
     };
   } catch (error) {
-    logError(error as Error, 'upload_file');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'upload_file');
   }
 };
 
-export const handleDownloadFile = async (args: unknown) => {
-  const { bucketName, fileName } = args as {
-    bucketName: string;
-    fileName: string;
-  };
+export const handleDownloadFile = async (args: StorageFileArgs) => {
+  const { bucketName, fileName } = args;
   const connection = getConnection();
   
   try {
@@ -282,11 +118,7 @@ export const handleDownloadFile = async (args: unknown) => {
       .download(fileName);
     
     if (error) {
-      logError(new Error(error.message), 'download_file');
-      return {
-        success: false,
-        error: error.message
-      };
+      throw error;
     }
     
     // Convertir a base64
@@ -301,19 +133,12 @@ export const handleDownloadFile = async (args: unknown) => {
       size: data.size
     };
   } catch (error) {
-    logError(error as Error, 'download_file');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'download_file');
   }
 };
 
-export const handleDeleteFile = async (args: unknown) => {
-  const { bucketName, fileName } = args as {
-    bucketName: string;
-    fileName: string;
-  };
+export const handleDeleteFile = async (args: StorageFileArgs) => {
+  const { bucketName, fileName } = args;
   const connection = getConnection();
   
   try {
@@ -324,11 +149,7 @@ export const handleDeleteFile = async (args: unknown) => {
       .remove([fileName]);
     
     if (error) {
-      logError(new Error(error.message), 'delete_file');
-      return {
-        success: false,
-        error: error.message
-      };
+      throw error;
     }
     
     logInfo(`Archivo '${fileName}' eliminado exitosamente del bucket '${bucketName}'`);
@@ -338,51 +159,83 @@ export const handleDeleteFile = async (args: unknown) => {
       message: `Archivo '${fileName}' eliminado exitosamente`
     };
   } catch (error) {
-    logError(error as Error, 'delete_file');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'delete_file');
   }
 };
 
-export const handleListFiles = async (args: unknown) => {
-  const { bucketName, folder = '', limit = 100, offset = 0 } = args as {
-    bucketName: string;
-    folder?: string;
-    limit?: number;
-    offset?: number;
-  };
+export const handleListFiles = async (args: ListFilesArgs) => {
+  const { bucketName, folder, limit, offset } = args;
   const connection = getConnection();
   
   try {
     const supabase = connection.getSupabaseClient();
     
-    const { data, error } = await supabase.storage
-      .from(bucketName)
-      .list(folder, {
-        limit,
-        offset
-      });
-    
-    if (error) {
-      logError(new Error(error.message), 'list_files');
-      return {
-        success: false,
-        error: error.message
-      };
-    }
+    const source = offsetSource(async (from, count) => {
+      const { data, error } = await supabase.storage
+        .from(bucketName)
+        .list(folder, {
+          limit: count,
+          offset: from
+        });
+      
+      if (error) {
+        throw error;
+      }
+      return data;
+    }, offset);
+    
+    const page = await paginate('list_files', 'files', source, limit);
     
     return {
       success: true,
-      files: data,
-      count: data.length
+      files: page.items,
+      count: page.count,
+      truncated: page.truncated,
+      ...(page.cursor && { cursor: page.cursor })
     };
   } catch (error) {
-    logError(error as Error, 'list_files');
-    return {
-      success: false,
-      error: (error as Error).message
-    };
+    return toErrorResult(error, 'list_files');
   }
-};
\ No newline at end of file
+};
+
+export const storageTools = [
+  defineTool({
+    name: 'create_storage_bucket',
+    description: 'Crear un nuevo bucket de almacenamiento',
+    schema: CreateStorageBucketSchema,
+    handler: handleCreateBucket
+  }),
+  defineTool({
+    name: 'list_storage_buckets',
+    description: 'Listar todos los buckets de almacenamiento',
+    schema: EmptySchema,
+    handler: handleListBuckets,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'upload_file',
+    description: 'Subir un archivo al almacenamiento',
+    schema: UploadFileSchema,
+    handler: handleUploadFile
+  }),
+  defineTool({
+    name: 'download_file',
+    description: 'Descargar un archivo del almacenamiento',
+    schema: StorageFileSchema,
+    handler: handleDownloadFile,
+    readOnly: true
+  }),
+  defineTool({
+    name: 'delete_file',
+    description: 'Eliminar un archivo del almacenamiento',
+    schema: StorageFileSchema,
+    handler: handleDeleteFile
+  }),
+  defineTool({
+    name: 'list_files',
+    description: 'Listar archivos en un bucket',
+    schema: ListFilesSchema,
+    handler: handleListFiles,
+    readOnly: true
+  })
+];
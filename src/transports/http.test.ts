@@ -0,0 +1,57 @@
+import { AddressInfo } from 'node:net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { HttpTransportServer } from './http.js';
+
+describe('HttpTransportServer', () => {
+  const transport = new HttpTransportServer(
+    { mode: 'http', host: '127.0.0.1', port: 0, authTokens: ['secreto', 'otro'], maxBodyBytes: 1024 },
+    () => new Server({ name: 'test', version: '0.0.0' }, { capabilities: {} })
+  );
+  let url: string;
+
+  beforeAll(async () => {
+    await transport.listen();
+    url = `http://127.0.0.1:${(transport['httpServer']!.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterAll(() => transport.close());
+
+  const post = (body: string, token = 'secreto', headers: Record<string, string> = {}) => fetch(url, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body
+  });
+
+  it('rechaza con 413 los cuerpos que superan el máximo', async () => {
+    const response = await post(JSON.stringify({ relleno: 'x'.repeat(2048) }));
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ error: { code: -32000, message: expect.stringContaining('1024 bytes') } });
+  });
+
+  it('responde al JSON mal formado con 400 y un error de parseo', async () => {
+    const response = await post('{"jsonrpc": "2.0",');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ jsonrpc: '2.0', error: { code: -32700 }, id: null });
+  });
+
+  it('sólo admite en una sesión el token que la abrió', async () => {
+    const initialized = await post(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } }
+    }));
+    await initialized.text();
+    const sessionId = initialized.headers.get('mcp-session-id')!;
+    expect(sessionId).toBeTruthy();
+
+    const notification = JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    const foreign = await post(notification, 'otro', { 'mcp-session-id': sessionId });
+    expect(foreign.status).toBe(404);
+    expect(await foreign.json()).toMatchObject({ error: { message: `Sesión no encontrada: ${sessionId}` } });
+
+    const own = await post(notification, 'secreto', { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' });
+    await own.text();
+    expect(own.status).toBe(202);
+  });
+});
@@ -0,0 +1,235 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { TransportConfig } from '../types/supabase.js';
+import { logError, logInfo } from '../utils/logger.js';
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  // Posición en authTokens del token que abrió la sesión; sólo ese token puede seguir usándola
+  token: number;
+}
+
+// Códigos de error de JSON-RPC
+const SERVER_ERROR = -32000;
+const PARSE_ERROR = -32700;
+
+const sendJsonError = (res: ServerResponse, status: number, message: string, code: number = SERVER_ERROR): void => {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }));
+};
+
+// Cuerpo que no se puede aceptar: demasiado grande (413) o JSON mal formado (400)
+class BodyError extends Error {
+  constructor(message: string, public status: number, public code: number) {
+    super(message);
+  }
+}
+
+// Lee el cuerpo como mucho hasta maxBytes; no se acumula en memoria nada que supere el límite
+const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const tooLarge = () => new BodyError(`El cuerpo de la petición supera el máximo de ${maxBytes} bytes`, 413, SERVER_ERROR);
+  if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw tooLarge();
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  try {
+    return raw ? JSON.parse(raw) : undefined;
+  } catch (error) {
+    throw new BodyError(`JSON inválido: ${(error as Error).message}`, 400, PARSE_ERROR);
+  }
+};
+
+// Servidor HTTP que expone MCP por Streamable HTTP (/mcp) y SSE legacy (/sse + /messages).
+// Cada sesión tiene su propia instancia de Server, ya que un Server sólo admite un transporte.
+export class HttpTransportServer {
+  private httpServer: HttpServer | null = null;
+  private sessions = new Map<string, Session>();
+
+  constructor(
+    private config: TransportConfig,
+    private createMcpServer: () => Server
+  ) {}
+
+  async listen(): Promise<void> {
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logError(error as Error, 'http_transport');
+        sendJsonError(res, 500, 'Error interno del servidor');
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.config.port, this.config.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    logInfo(`Transporte HTTP escuchando en http://${this.config.host}:${this.config.port}`);
+  }
+
+  async close(): Promise<void> {
+    for (const [sessionId, session] of this.sessions) {
+      try {
+        await session.server.close();
+      } catch (error) {
+        logError(error as Error, `http_session_${sessionId}`);
+      }
+    }
+    this.sessions.clear();
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+      logInfo('Transporte HTTP cerrado');
+    }
+  }
+
+  // Posición en authTokens del token de la petición, o undefined si no es ninguno de ellos
+  private authorizedToken(req: IncomingMessage): number | undefined {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith('Bearer ')) {
+      return undefined;
+    }
+
+    const provided = Buffer.from(header.slice('Bearer '.length).trim());
+    const index = this.config.authTokens.findIndex(token => {
+      const expected = Buffer.from(token);
+      return expected.length === provided.length && timingSafeEqual(expected, provided);
+    });
+    return index === -1 ? undefined : index;
+  }
+
+  // Sesión abierta con el mismo token; la de otro token se trata como inexistente
+  private findSession(sessionId: string | null | undefined, token: number): Session | undefined {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    return session?.token === token ? session : undefined;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    const token = this.authorizedToken(req);
+    if (token === undefined) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonError(res, 401, 'No autorizado');
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await this.handleStreamableRequest(req, res, token);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await this.handleSSEConnect(res, token);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      await this.handleSSEMessage(req, res, url.searchParams.get('sessionId'), token);
+    } else {
+      sendJsonError(res, 404, 'Ruta no encontrada');
+    }
+  }
+
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse, token: number): Promise<void> {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+    let body: unknown;
+    try {
+      body = req.method === 'POST' ? await readJsonBody(req, this.config.maxBodyBytes) : undefined;
+    } catch (error) {
+      if (error instanceof BodyError) {
+        // Con el cuerpo a medio leer, la conexión no puede reutilizarse
+        if (error.status === 413) res.setHeader('Connection', 'close');
+        sendJsonError(res, error.status, error.message, error.code);
+        return;
+      }
+      throw error;
+    }
+
+    if (sessionId) {
+      const session = this.findSession(sessionId, token);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonError(res, 404, `Sesión no encontrada: ${sessionId}`);
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonError(res, 400, 'Se requiere mcp-session-id o una petición initialize');
+      return;
+    }
+
+    const server = this.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        this.sessions.set(newSessionId, { server, transport, token });
+        logInfo(`Sesión HTTP iniciada: ${newSessionId}`);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        logInfo(`Sesión HTTP cerrada: ${transport.sessionId}`);
+      }
+    };
+
+    // El getter/setter opcional de onclose choca con exactOptionalPropertyTypes
+    await server.connect(transport as Transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleSSEConnect(res: ServerResponse, token: number): Promise<void> {
+    const server = this.createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, { server, transport, token });
+    transport.onclose = () => {
+      if (this.sessions.delete(sessionId)) {
+        logInfo(`Sesión SSE cerrada: ${sessionId}`);
+      }
+    };
+
+    logInfo(`Sesión SSE iniciada: ${sessionId}`);
+    await server.connect(transport);
+  }
+
+  private async handleSSEMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null, token: number): Promise<void> {
+    const session = this.findSession(sessionId, token);
+
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonError(res, 404, `Sesión no encontrada: ${sessionId ?? ''}`);
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res);
+  }
+}
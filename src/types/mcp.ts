@@ -1,14 +1,54 @@
 import { z } from 'zod';
 
+// Herramientas sin argumentos
+export const EmptySchema = z.object({});
+
+// Argumento común a todas las herramientas para elegir la instancia de Supabase
+export const ProjectArgSchema = z.object({
+  project: z.string().optional().describe('Perfil/proyecto de Supabase sobre el que actuar (por defecto, el activo)')
+});
+
+// Herramientas que modifican la base de datos: devolver el SQL sin aplicarlo
+const DryRunArg = z.boolean().optional().default(false)
+  .describe('Devolver el SQL y los objetos afectados sin aplicar cambios (se valida en una transacción que se deshace)');
+
+// Herramientas destructivas: la primera llamada devuelve una vista previa y el token para confirmarla
+const ConfirmationTokenArg = z.string().optional()
+  .describe('Token devuelto por la vista previa; necesario para ejecutar la operación');
+
+// Herramientas con resultado tabular: formato del texto devuelto al cliente
+const FormatArg = z.enum(['json', 'markdown', 'csv', 'ndjson']).optional()
+  .describe('Formato del resultado: json (por defecto), markdown, csv o ndjson');
+
+// Proyectos
+export const SwitchProjectSchema = z.object({
+  name: z.string().describe('Nombre del perfil a activar para esta sesión')
+});
+
+// Base de datos
 export const DatabaseQuerySchema = z.object({
-  query: z.string(),
-  params: z.array(z.any()).optional(),
-  schema: z.string().optional().default('public')
+  query: z.string().describe('La consulta SQL a ejecutar'),
+  params: z.array(z.any()).optional().describe('Parámetros para la consulta SQL'),
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos (primero en search_path)'),
+  allowWrite: z.boolean().optional().default(false)
+    .describe('Permitir sentencias que modifican datos o esquema (INSERT, UPDATE, CREATE...); sin él sólo se admiten lecturas'),
+  limit: z.number().int().min(1).optional().default(1000)
+    .describe('LIMIT que se añade a las lecturas que no tienen uno propio'),
+  statementTimeoutMs: z.number().int().min(0).optional().default(30000)
+    .describe('statement_timeout de cada sentencia en milisegundos (0 = sin límite)'),
+  asRole: z.string().optional()
+    .describe('Ejecutar con este rol de base de datos (anon, authenticated o uno propio) para probar RLS'),
+  asUser: z.string().uuid().optional()
+    .describe('Ejecutar como este usuario de auth.users, con los claims que tendría su JWT'),
+  jwtClaims: z.record(z.any()).optional()
+    .describe('Claims del JWT (request.jwt.claims); se combinan con los de asUser'),
+  confirmationToken: ConfirmationTokenArg,
+  format: FormatArg
 });
 
 export const CreateTableSchema = z.object({
-  name: z.string(),
-  schema: z.string().optional().default('public'),
+  name: z.string().describe('Nombre de la tabla'),
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos'),
   columns: z.array(z.object({
     name: z.string(),
     type: z.string(),
@@ -17,59 +57,325 @@ export const CreateTableSchema = z.object({
     isUnique: z.boolean().optional().default(false),
     isPrimaryKey: z.boolean().optional().default(false)
   })),
-  enableRLS: z.boolean().optional().default(true)
+  enableRLS: z.boolean().optional().default(true).describe('Habilitar Row Level Security'),
+  dryRun: DryRunArg
+});
+
+export const ListTablesSchema = z.object({
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos'),
+  format: FormatArg
 });
 
+export const DescribeTableSchema = z.object({
+  tableName: z.string().describe('Nombre de la tabla'),
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos'),
+  format: FormatArg
+});
+
+export const DropTableSchema = z.object({
+  tableName: z.string().describe('Nombre de la tabla a eliminar'),
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos'),
+  cascade: z.boolean().optional().default(false).describe('Usar CASCADE para eliminar dependencias'),
+  dryRun: DryRunArg,
+  confirmationToken: ConfirmationTokenArg
+});
+
+export const CreateIndexSchema = z.object({
+  tableName: z.string().describe('Nombre de la tabla'),
+  columns: z.array(z.string()).describe('Columnas para el índice'),
+  indexName: z.string().optional().describe('Nombre del índice (opcional)'),
+  unique: z.boolean().optional().default(false).describe('Crear índice único'),
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos'),
+  dryRun: DryRunArg
+});
+
+export const ExplainQuerySchema = z.object({
+  query: z.string().describe('Sentencia SQL a analizar (SELECT, WITH, VALUES, TABLE, INSERT, UPDATE, DELETE o MERGE)'),
+  params: z.array(z.any()).optional().describe('Parámetros para la consulta SQL'),
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos (primero en search_path)'),
+  analyze: z.boolean().optional().default(false)
+    .describe('Ejecutar la sentencia (EXPLAIN ANALYZE) para obtener tiempos y filas reales; las escrituras se deshacen'),
+  buffers: z.boolean().optional().default(false).describe('Incluir los bloques leídos y escritos de cada nodo (BUFFERS)'),
+  statementTimeoutMs: z.number().int().min(0).optional().default(30000)
+    .describe('statement_timeout en milisegundos (0 = sin límite)'),
+  asRole: z.string().optional()
+    .describe('Planificar con este rol de base de datos, con sus políticas RLS'),
+  asUser: z.string().uuid().optional()
+    .describe('Planificar como este usuario de auth.users, con los claims que tendría su JWT'),
+  jwtClaims: z.record(z.any()).optional()
+    .describe('Claims del JWT (request.jwt.claims); se combinan con los de asUser')
+});
+
+// Migraciones
 export const CreateMigrationSchema = z.object({
-  name: z.string(),
-  up: z.string(),
-  down: z.string()
+  name: z.string().describe('Nombre de la migración'),
+  up: z.string().describe('SQL para aplicar la migración'),
+  down: z.string().describe('SQL para revertir la migración')
+});
+
+export const ApplyMigrationSchema = z.object({
+  migrationId: z.string().describe('ID de la migración a aplicar')
 });
 
+export const RollbackMigrationSchema = z.object({
+  migrationId: z.string().describe('ID de la migración a revertir')
+});
+
+// Edge Functions
 export const CreateEdgeFunctionSchema = z.object({
-  name: z.string(),
-  source: z.string(),
-  importMap: z.record(z.string()).optional(),
-  verifyJWT: z.boolean().optional().default(true)
+  name: z.string().describe('Function name (slug, e.g. hello-world)'),
+  source: z.string().describe('TypeScript source code for the function'),
+  importMap: z.record(z.string()).optional().describe('Optional import map (imports key → URL map)'),
+  verifyJWT: z.boolean().optional().default(true).describe('Whether to require a valid JWT (default: true)')
+});
+
+export const DeleteEdgeFunctionSchema = z.object({
+  name: z.string().describe('Function name to delete'),
+  confirmationToken: ConfirmationTokenArg
+});
+
+export const SetSecretSchema = z.object({
+  key: z.string().describe('Environment variable name (e.g. STRIPE_SECRET_KEY)'),
+  value: z.string().describe('Secret value')
+});
+
+export const DeleteSecretSchema = z.object({
+  key: z.string().describe('Environment variable name to remove')
+});
+
+export const InvokeEdgeFunctionSchema = z.object({
+  name: z.string().describe('Function name'),
+  payload: z.record(z.any()).optional().describe('JSON payload to send'),
+  headers: z.record(z.string()).optional().describe('Additional HTTP headers')
 });
 
+// RLS
 export const CreateRLSPolicySchema = z.object({
-  name: z.string(),
-  table: z.string(),
-  schema: z.string().optional().default('public'),
-  command: z.enum(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'ALL']),
-  permissive: z.boolean().optional().default(true),
-  roles: z.array(z.string()).optional().default(['authenticated']),
-  using: z.string().optional(),
-  withCheck: z.string().optional()
+  name: z.string().describe('Nombre de la política'),
+  table: z.string().describe('Nombre de la tabla'),
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos'),
+  command: z.enum(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'ALL']).describe('Comando al que aplicar la política'),
+  permissive: z.boolean().optional().default(true).describe('Si la política es permisiva'),
+  roles: z.array(z.string()).optional().default(['authenticated']).describe('Roles a los que aplicar la política'),
+  using: z.string().optional().describe('Expresión USING para la política'),
+  withCheck: z.string().optional().describe('Expresión WITH CHECK para la política'),
+  dryRun: DryRunArg
 });
 
+export const ListRLSPoliciesSchema = z.object({
+  table: z.string().describe('Nombre de la tabla'),
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos')
+});
+
+export const DeleteRLSPolicySchema = z.object({
+  policyName: z.string().describe('Nombre de la política'),
+  table: z.string().describe('Nombre de la tabla'),
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos'),
+  dryRun: DryRunArg
+});
+
+export const ToggleRLSSchema = z.object({
+  table: z.string().describe('Nombre de la tabla'),
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos'),
+  dryRun: DryRunArg
+});
+
+// Storage
 export const CreateStorageBucketSchema = z.object({
-  name: z.string(),
-  public: z.boolean().optional().default(false),
-  fileSizeLimit: z.number().optional(),
-  allowedMimeTypes: z.array(z.string()).optional()
+  name: z.string().describe('Nombre del bucket'),
+  public: z.boolean().optional().default(false).describe('Si el bucket es público'),
+  fileSizeLimit: z.number().optional().describe('Límite de tamaño de archivo en bytes'),
+  allowedMimeTypes: z.array(z.string()).optional().describe('Tipos MIME permitidos')
+});
+
+export const UploadFileSchema = z.object({
+  bucketName: z.string().describe('Nombre del bucket'),
+  fileName: z.string().describe('Nombre del archivo'),
+  fileData: z.string().describe('Datos del archivo en base64'),
+  contentType: z.string().optional().describe('Tipo de contenido del archivo'),
+  upsert: z.boolean().optional().default(false).describe('Sobrescribir si existe')
 });
 
+export const StorageFileSchema = z.object({
+  bucketName: z.string().describe('Nombre del bucket'),
+  fileName: z.string().describe('Nombre del archivo')
+});
+
+export const ListFilesSchema = z.object({
+  bucketName: z.string().describe('Nombre del bucket'),
+  folder: z.string().optional().default('').describe('Carpeta específica'),
+  limit: z.number().optional().default(100).describe('Archivos por página (el resto, con fetch_more)'),
+  offset: z.number().optional().default(0).describe('Offset para paginación')
+});
+
+// Autenticación
 export const CreateAuthUserSchema = z.object({
-  email: z.string().email(),
-  password: z.string(),
-  emailConfirm: z.boolean().optional().default(false),
-  role: z.string().optional().default('authenticated')
+  email: z.string().email().describe('Email del usuario'),
+  password: z.string().describe('Contraseña del usuario'),
+  emailConfirm: z.boolean().optional().default(false).describe('Confirmar email automáticamente'),
+  role: z.string().optional().default('authenticated').describe('Rol del usuario')
+});
+
+export const ListAuthUsersSchema = z.object({
+  limit: z.number().optional().default(100).describe('Usuarios por página (el resto, con fetch_more)'),
+  offset: z.number().optional().default(0).describe('Offset para paginación'),
+  format: FormatArg
 });
 
+export const AuthUserIdSchema = z.object({
+  userId: z.string().describe('ID del usuario')
+});
+
+export const DeleteAuthUserSchema = z.object({
+  userId: z.string().describe('ID del usuario'),
+  confirmationToken: ConfirmationTokenArg
+});
+
+export const UpdateAuthUserSchema = z.object({
+  userId: z.string().describe('ID del usuario'),
+  email: z.string().optional().describe('Nuevo email'),
+  password: z.string().optional().describe('Nueva contraseña'),
+  emailConfirmed: z.boolean().optional().describe('Estado de confirmación de email'),
+  role: z.string().optional().describe('Nuevo rol')
+});
+
+export const ResetUserPasswordSchema = z.object({
+  email: z.string().describe('Email del usuario')
+});
+
+// Realtime
 export const CreateRealtimeSubscriptionSchema = z.object({
-  schema: z.string().optional().default('public'),
-  table: z.string(),
-  filter: z.string().optional(),
-  event: z.enum(['INSERT', 'UPDATE', 'DELETE', '*']).optional().default('*')
+  schema: z.string().optional().default('public').describe('Esquema de la base de datos'),
+  table: z.string().describe('Nombre de la tabla'),
+  filter: z.string().optional().describe('Filtro para la suscripción'),
+  event: z.enum(['INSERT', 'UPDATE', 'DELETE', '*']).optional().default('*').describe('Tipo de evento a escuchar')
+});
+
+export const DeleteRealtimeSubscriptionSchema = z.object({
+  subscriptionId: z.string().describe('ID de la suscripción')
+});
+
+// Administración
+export const BackupDatabaseSchema = z.object({
+  tables: z.array(z.string()).optional().describe('Tablas específicas a respaldar (opcional)'),
+  format: z.enum(['sql', 'json']).optional().default('sql').describe('Formato del backup')
+});
+
+export const RestoreDatabaseSchema = z.object({
+  backupPath: z.string().describe('Ruta del archivo de backup'),
+  dropExisting: z.boolean().optional().default(false).describe('Eliminar datos existentes antes de restaurar'),
+  dryRun: DryRunArg,
+  confirmationToken: ConfirmationTokenArg
+});
+
+// Logs
+export const GetLogsSchema = z.object({
+  level: z.enum(['error', 'warn', 'info', 'debug']).optional().describe('Nivel de log a filtrar'),
+  limit: z.number().optional().default(100).describe('Logs por página (el resto, con fetch_more)'),
+  startDate: z.string().optional().describe('Fecha de inicio (ISO string)'),
+  endDate: z.string().optional().describe('Fecha de fin (ISO string)'),
+  format: FormatArg
+});
+
+export const GetMetricsSchema = z.object({
+  timeRange: z.enum(['1h', '24h', '7d', '30d']).optional().default('1h').describe('Rango de tiempo para las métricas')
+});
+
+export const GetErrorLogsSchema = z.object({
+  limit: z.number().optional().default(50).describe('Logs por página (el resto, con fetch_more)'),
+  context: z.string().optional().describe('Contexto específico del error'),
+  format: FormatArg
+});
+
+export const GetAuditLogSchema = z.object({
+  tool: z.string().optional().describe('Filtrar por nombre de herramienta'),
+  instance: z.string().optional().describe('Filtrar por perfil/proyecto sobre el que se ejecutó'),
+  status: z.enum(['success', 'error']).optional().describe('Filtrar por resultado de la llamada'),
+  startDate: z.string().optional().describe('Fecha de inicio (ISO string)'),
+  endDate: z.string().optional().describe('Fecha de fin (ISO string)'),
+  limit: z.number().optional().default(100).describe('Entradas por página (el resto, con fetch_more)'),
+  format: FormatArg
+});
+
+// Claves de API y JWT
+const ExpiresInArg = z.string().regex(/^\d+[smhdwy]$/, 'usa un número y una unidad: s, m, h, d, w o y (p. ej. 1h, 30d, 10y)');
+
+export const GenerateApiKeysSchema = z.object({
+  roles: z.array(z.string().min(1)).min(1).optional().default(['anon', 'service_role'])
+    .describe('Roles para los que generar una clave'),
+  claims: z.record(z.any()).optional().describe('Claims adicionales para todas las claves'),
+  expiresIn: ExpiresInArg.optional().default('10y').describe('Validez de las claves (p. ej. 1y, 10y)'),
+  envFile: z.string().optional()
+    .describe('Rotación: archivo .env en el que escribir las claves nuevas; las claves no se devuelven'),
+  envPrefix: z.string().optional()
+    .describe('Prefijo de las variables en envFile (por defecto el del perfil, p. ej. SUPABASE_; "" para el .env de Supabase)'),
+  rotateSecret: z.boolean().optional().default(false)
+    .describe('Generar también un JWT secret nuevo, que invalida las claves y sesiones anteriores (requiere envFile)'),
+  confirmationToken: ConfirmationTokenArg
+});
+
+export const MintUserJwtSchema = z.object({
+  userId: z.string().uuid().optional().describe('Usuario de auth.users cuyos claims llevará el token'),
+  role: z.string().optional().describe('Rol del token (por defecto, el del usuario o anon)'),
+  claims: z.record(z.any()).optional().describe('Claims adicionales; se combinan con los del usuario'),
+  expiresIn: ExpiresInArg.optional().default('1h').describe('Validez del token (p. ej. 15m, 1h; como máximo 24h)')
+});
+
+export const DecodeJwtSchema = z.object({
+  token: z.string().describe('JWT a decodificar (clave de API o access token)')
+});
+
+// Diagnóstico
+export const DiagnoseInstanceSchema = z.object({
+  timeoutMs: z.number().int().min(100).optional().default(5000)
+    .describe('Tiempo máximo de cada comprobación HTTP en milisegundos')
+});
+
+export const FetchMoreSchema = z.object({
+  cursor: z.string().describe('Token cursor devuelto por una respuesta con truncated: true'),
+  format: FormatArg
 });
 
+export type SwitchProjectArgs = z.infer<typeof SwitchProjectSchema>;
 export type DatabaseQueryArgs = z.infer<typeof DatabaseQuerySchema>;
 export type CreateTableArgs = z.infer<typeof CreateTableSchema>;
+export type ListTablesArgs = z.infer<typeof ListTablesSchema>;
+export type DescribeTableArgs = z.infer<typeof DescribeTableSchema>;
+export type DropTableArgs = z.infer<typeof DropTableSchema>;
+export type CreateIndexArgs = z.infer<typeof CreateIndexSchema>;
+export type ExplainQueryArgs = z.infer<typeof ExplainQuerySchema>;
 export type CreateMigrationArgs = z.infer<typeof CreateMigrationSchema>;
+export type ApplyMigrationArgs = z.infer<typeof ApplyMigrationSchema>;
+export type RollbackMigrationArgs = z.infer<typeof RollbackMigrationSchema>;
 export type CreateEdgeFunctionArgs = z.infer<typeof CreateEdgeFunctionSchema>;
+export type DeleteEdgeFunctionArgs = z.infer<typeof DeleteEdgeFunctionSchema>;
+export type SetSecretArgs = z.infer<typeof SetSecretSchema>;
+export type DeleteSecretArgs = z.infer<typeof DeleteSecretSchema>;
+export type InvokeEdgeFunctionArgs = z.infer<typeof InvokeEdgeFunctionSchema>;
 export type CreateRLSPolicyArgs = z.infer<typeof CreateRLSPolicySchema>;
+export type ListRLSPoliciesArgs = z.infer<typeof ListRLSPoliciesSchema>;
+export type DeleteRLSPolicyArgs = z.infer<typeof DeleteRLSPolicySchema>;
+export type ToggleRLSArgs = z.infer<typeof ToggleRLSSchema>;
 export type CreateStorageBucketArgs = z.infer<typeof CreateStorageBucketSchema>;
+export type UploadFileArgs = z.infer<typeof UploadFileSchema>;
+export type StorageFileArgs = z.infer<typeof StorageFileSchema>;
+export type ListFilesArgs = z.infer<typeof ListFilesSchema>;
 export type CreateAuthUserArgs = z.infer<typeof CreateAuthUserSchema>;
-export type CreateRealtimeSubscriptionArgs = z.infer<typeof CreateRealtimeSubscriptionSchema>;
\ No newline at end of file
+export type ListAuthUsersArgs = z.infer<typeof ListAuthUsersSchema>;
+export type AuthUserIdArgs = z.infer<typeof AuthUserIdSchema>;
+export type DeleteAuthUserArgs = z.infer<typeof DeleteAuthUserSchema>;
+export type UpdateAuthUserArgs = z.infer<typeof UpdateAuthUserSchema>;
+export type ResetUserPasswordArgs = z.infer<typeof ResetUserPasswordSchema>;
+export type CreateRealtimeSubscriptionArgs = z.infer<typeof CreateRealtimeSubscriptionSchema>;
+export type DeleteRealtimeSubscriptionArgs = z.infer<typeof DeleteRealtimeSubscriptionSchema>;
+export type BackupDatabaseArgs = z.infer<typeof BackupDatabaseSchema>;
+export type RestoreDatabaseArgs = z.infer<typeof RestoreDatabaseSchema>;
+export type GetLogsArgs = z.infer<typeof GetLogsSchema>;
+export type GetMetricsArgs = z.infer<typeof GetMetricsSchema>;
+export type GetErrorLogsArgs = z.infer<typeof GetErrorLogsSchema>;
+export type GetAuditLogArgs = z.infer<typeof GetAuditLogSchema>;
+export type FetchMoreArgs = z.infer<typeof FetchMoreSchema>;
+export type GenerateApiKeysArgs = z.infer<typeof GenerateApiKeysSchema>;
+export type MintUserJwtArgs = z.infer<typeof MintUserJwtSchema>;
+export type DecodeJwtArgs = z.infer<typeof DecodeJwtSchema>;
+export type DiagnoseInstanceArgs = z.infer<typeof DiagnoseInstanceSchema>;
@@ -1,9 +1,25 @@
 export interface SupabaseConfig {
+  name: string;
   url: string;
   serviceRoleKey: string;
   dbUrl: string;
   jwtSecret: string;
   anonKey: string;
+  functionsDir: string;
+  backupDir: string;
+  readOnly: boolean;
+  pool: PoolConfig;
+}
+
+export interface ProfilesConfig {
+  defaultProfile: string;
+  profiles: Record<string, SupabaseConfig>;
+}
+
+export interface PoolConfig {
+  max: number;
+  idleTimeoutMillis: number;
+  connectionTimeoutMillis: number;
 }
 
 export interface DatabaseTable {
@@ -80,4 +96,69 @@ export interface RealtimeSubscription {
   table: string;
   filter?: string;
   event: 'INSERT' | 'UPDATE' | 'DELETE' | '*';
-}
\ No newline at end of file
+}
+
+export interface TransportConfig {
+  mode: 'stdio' | 'http';
+  host: string;
+  port: number;
+  authTokens: string[];
+  // Tamaño máximo del cuerpo de una petición HTTP
+  maxBodyBytes: number;
+}
+
+export interface AccessPolicyConfig {
+  readOnly: boolean;
+  dryRun: boolean;
+  confirmDestructive: boolean;
+  allowedTools: string[];
+  deniedTools: string[];
+  allowedSchemas: string[];
+}
+
+export interface AuditConfig {
+  enabled: boolean;
+  file: string;
+}
+
+// Tiempo máximo por llamada en milisegundos (0 = sin límite); tools sobrescribe el valor por herramienta
+export interface ToolTimeoutConfig {
+  defaultMs: number;
+  tools: Record<string, number>;
+}
+
+// Tamaño máximo de cada respuesta; lo que no cabe se continúa con fetch_more
+export interface ResultLimitsConfig {
+  maxRows: number;
+  maxBytes: number;
+}
+
+// Destino de los logs: stderr (nunca stdout, que en stdio es el canal JSON-RPC), archivos rotados o ninguno
+export interface LoggingConfig {
+  level: 'error' | 'warn' | 'info' | 'debug';
+  sink: 'stderr' | 'file' | 'off';
+  dir: string;
+  maxSize: number;
+  maxFiles: number;
+}
+
+// Instancia local para pruebas sin Supabase: Postgres embebido (o dbUrl, si se indica) y servicios
+// Auth/Storage/Functions simulados. dataDir conserva los datos entre ejecuciones; vacío, todo es temporal
+export interface SandboxConfig {
+  enabled: boolean;
+  dbUrl: string;
+  dataDir: string;
+}
+
+// Configuración completa del servidor: archivo supafast.config.* más variables de entorno
+export interface ServerConfig {
+  configFile: string | null;
+  profiles: ProfilesConfig;
+  transport: TransportConfig;
+  policy: AccessPolicyConfig;
+  audit: AuditConfig;
+  logging: LoggingConfig;
+  timeouts: ToolTimeoutConfig;
+  limits: ResultLimitsConfig;
+  sandbox: SandboxConfig;
+}
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import { AuditConfig } from '../types/supabase.js';
+import { ErrorCode } from './errors.js';
+import { logError } from './logger.js';
+
+export type AuditStatus = 'success' | 'error';
+
+export interface AuditEntry {
+  timestamp: string;
+  requestId: string | null;
+  tool: string;
+  instance: string | null;
+  args: unknown;
+  durationMs: number;
+  status: AuditStatus;
+  error?: { code: ErrorCode; message: string };
+}
+
+export interface AuditFilter {
+  tool?: string | undefined;
+  instance?: string | undefined;
+  status?: AuditStatus | undefined;
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+  limit: number;
+}
+
+const REDACTED = '[REDACTED]';
+
+// Campos que nunca se escriben en el registro, sea cual sea la herramienta
+const SENSITIVE_KEYS = /password|secret|token|authorization|apikey|fileData/i;
+
+// Campos sensibles sólo en herramientas concretas (en set_secret, "key" es el nombre y "value" el secreto)
+const TOOL_SENSITIVE_FIELDS: Record<string, string[]> = {
+  set_secret: ['value']
+};
+
+let config: AuditConfig = { enabled: false, file: '' };
+
+export const initAuditLog = (auditConfig: AuditConfig): void => {
+  config = auditConfig;
+};
+
+const redactValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, SENSITIVE_KEYS.test(key) ? REDACTED : redactValue(nested)])
+    );
+  }
+  return value;
+};
+
+export const redactArgs = (tool: string, args: unknown): unknown => {
+  const redacted = redactValue(args ?? {}) as Record<string, unknown>;
+  for (const field of TOOL_SENSITIVE_FIELDS[tool] ?? []) {
+    if (field in redacted) {
+      redacted[field] = REDACTED;
+    }
+  }
+  return redacted;
+};
+
+// Se escribe de forma síncrona para que el orden del archivo sea el de las llamadas; un fallo
+// al escribir se registra pero no hace fallar la herramienta
+export const recordAudit = (entry: Omit<AuditEntry, 'timestamp'>): void => {
+  if (!config.enabled) {
+    return;
+  }
+  try {
+    const line: AuditEntry = { timestamp: new Date().toISOString(), ...entry, args: redactArgs(entry.tool, entry.args) };
+    fs.appendFileSync(config.file, `${JSON.stringify(line)}\n`, 'utf8');
+  } catch (error) {
+    logError(error as Error, 'audit');
+  }
+};
+
+// Devuelve las entradas más recientes primero
+export const queryAuditLog = (filter: AuditFilter): AuditEntry[] => {
+  if (!config.enabled) {
+    throw new Error('El registro de auditoría está desactivado (MCP_AUDIT_ENABLED=false)');
+  }
+  if (!fs.existsSync(config.file)) {
+    return [];
+  }
+
+  const start = filter.startDate ? new Date(filter.startDate).getTime() : -Infinity;
+  const end = filter.endDate ? new Date(filter.endDate).getTime() : Infinity;
+
+  const entries: AuditEntry[] = [];
+  const lines = fs.readFileSync(config.file, 'utf8').split('\n');
+  for (let i = lines.length - 1; i >= 0 && entries.length < filter.limit; i--) {
+    const line = lines[i];
+    if (!line) continue;
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    const time = new Date(entry.timestamp).getTime();
+    if (filter.tool && entry.tool !== filter.tool) continue;
+    if (filter.instance && entry.instance !== filter.instance) continue;
+    if (filter.status && entry.status !== filter.status) continue;
+    if (time < start || time > end) continue;
+
+    entries.push(entry);
+  }
+  return entries;
+};
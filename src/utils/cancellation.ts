@@ -0,0 +1,49 @@
+import { CancelledError, TimeoutError } from './errors.js';
+
+export interface CallSignal {
+  signal: AbortSignal;
+  dispose: () => void;
+}
+
+// Une la cancelación del cliente (notifications/cancelled) con el tiempo máximo de la herramienta.
+// El motivo del aborto es el error que recibirá el cliente: CANCELLED o TIMEOUT
+export const createCallSignal = (tool: string, cancelled: AbortSignal, timeoutMs: number): CallSignal => {
+  const controller = new AbortController();
+
+  const onCancel = () => controller.abort(new CancelledError(`El cliente canceló la llamada a ${tool}`));
+  if (cancelled.aborted) {
+    onCancel();
+  } else {
+    cancelled.addEventListener('abort', onCancel, { once: true });
+  }
+
+  const timer = timeoutMs > 0
+    ? setTimeout(() => controller.abort(new TimeoutError(
+      `${tool} superó el tiempo máximo de ${timeoutMs} ms`,
+      { hint: 'Ajusta MCP_TOOL_TIMEOUT_MS o MCP_TOOL_TIMEOUTS para esta herramienta' }
+    )), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      cancelled.removeEventListener('abort', onCancel);
+    }
+  };
+};
+
+// La respuesta no espera a un handler que no atienda la señal (trabajo en memoria, disco...);
+// las consultas y peticiones HTTP en curso se cancelan por su cuenta
+export const raceSignal = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
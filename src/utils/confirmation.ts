@@ -0,0 +1,80 @@
+import { createHash, randomBytes } from 'crypto';
+import { isConfirmationRequired } from './context.js';
+import { resolveProjectName } from './connection.js';
+import { ValidationError } from './errors.js';
+
+const TOKEN_TTL_MS = 5 * 60 * 1000;
+
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+const pending = new Map<string, PendingConfirmation>();
+
+// JSON con las claves ordenadas, para que el orden de los argumentos no cambie la huella
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, nested]) => `${JSON.stringify(key)}:${stableStringify(nested)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// El token sólo vale para la misma herramienta, con los mismos argumentos y sobre la misma instancia
+const fingerprint = (tool: string, args: Record<string, unknown>): string => {
+  const { confirmationToken: _token, ...rest } = args;
+  return createHash('sha256').update(`${tool}:${resolveProjectName()}:${stableStringify(rest)}`).digest('hex');
+};
+
+const purgeExpired = (now: number): void => {
+  for (const [token, entry] of pending) {
+    if (entry.expiresAt <= now) {
+      pending.delete(token);
+    }
+  }
+};
+
+// Primera fase: si la llamada no trae token, devuelve la vista previa junto con un token de un solo uso.
+// Segunda fase: si lo trae y coincide, lo consume y devuelve null para que el handler ejecute la operación
+export const requireConfirmation = async (
+  tool: string,
+  args: Record<string, unknown> & { confirmationToken?: string | undefined },
+  buildPreview: () => Promise<Record<string, unknown>>
+) => {
+  if (!isConfirmationRequired()) {
+    return null;
+  }
+
+  const now = Date.now();
+  purgeExpired(now);
+
+  if (args.confirmationToken) {
+    const entry = pending.get(args.confirmationToken);
+    if (!entry || entry.fingerprint !== fingerprint(tool, args)) {
+      throw new ValidationError(
+        'Token de confirmación inválido o caducado, o los argumentos no coinciden con los de la vista previa',
+        { hint: `Llama de nuevo a ${tool} sin confirmationToken para obtener una vista previa actualizada` }
+      );
+    }
+    pending.delete(args.confirmationToken);
+    return null;
+  }
+
+  const preview = await buildPreview();
+  const confirmationToken = randomBytes(12).toString('base64url');
+  const expiresAt = now + TOKEN_TTL_MS;
+  pending.set(confirmationToken, { fingerprint: fingerprint(tool, args), expiresAt });
+
+  return {
+    success: true,
+    confirmationRequired: true,
+    preview,
+    confirmationToken,
+    expiresAt: new Date(expiresAt).toISOString(),
+    message: `Operación destructiva: revisa la vista previa y vuelve a llamar a ${tool} con los mismos argumentos y confirmationToken para ejecutarla`
+  };
+};
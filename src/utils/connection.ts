@@ -1,12 +1,58 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { Client as PgClient } from 'pg';
-import { SupabaseConfig } from '../types/supabase.js';
+import { Client, CustomTypesConfig, Pool, PoolClient, QueryResult, QueryResultRow, types } from 'pg';
+import { SupabaseConfig, ProfilesConfig } from '../types/supabase.js';
 import { logger } from './logger.js';
+import { getRequestContext, getRequestSignal } from './context.js';
+import { NotFoundError } from './errors.js';
+
+// Consultas sueltas sobre el pool; cada una se cancela si se aborta la petición MCP en curso
+export interface Queryable {
+  query<R extends QueryResultRow = any>(text: string, values?: unknown[]): Promise<QueryResult<R>>;
+}
+
+// supabase-js (Auth, Storage, Functions) hace todas sus peticiones con este fetch, así que una
+// subida o una invocación en curso se abortan junto con la llamada MCP
+const cancellableFetch: typeof fetch = (input, init) => {
+  const signal = getRequestSignal();
+  if (!signal) {
+    return fetch(input, init);
+  }
+  return fetch(input, { ...init, signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal });
+};
+
+// timestamp (sin zona horaria) se devuelve como texto ISO sin desplazamiento: el parser de pg crearía un
+// Date en la zona horaria del proceso y, al pasarlo a UTC, la hora cambiaría según dónde corra el servidor
+const TIMESTAMP_OID = 1114;
+const TIMESTAMP_ARRAY_OID = 1115;
+const TEXT_ARRAY_OID = 1009;
+
+const timestampText = (value: string): string => /^\d{4,}-\d\d-\d\d \d/.test(value) ? value.replace(' ', 'T') : value;
+
+const mapTimestamps = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(mapTimestamps);
+  return typeof value === 'string' ? timestampText(value) : value;
+};
+
+const typeParsers: CustomTypesConfig = {
+  getTypeParser: ((oid: number, format?: 'text' | 'binary') => {
+    if (oid === TIMESTAMP_OID && format !== 'binary') {
+      return timestampText;
+    }
+    if (oid === TIMESTAMP_ARRAY_OID && format !== 'binary') {
+      const parseTextArray = types.getTypeParser(TEXT_ARRAY_OID as Parameters<typeof types.getTypeParser>[0]) as (value: string) => unknown;
+      return (value: string) => mapTimestamps(parseTextArray(value));
+    }
+    return types.getTypeParser(oid, format);
+  }) as CustomTypesConfig['getTypeParser']
+};
 
 export class SupabaseConnection {
   private supabaseClient: SupabaseClient;
-  private pgClient: PgClient;
+  private pool: Pool;
   private config: SupabaseConfig;
+  private queryable: Queryable = {
+    query: (text, values) => this.withClient(client => client.query(text, values))
+  };
 
   constructor(config: SupabaseConfig) {
     this.config = config;
@@ -19,6 +65,7 @@ export class SupabaseConnection {
         persistSession: false
       },
       global: {
+        fetch: cancellableFetch,
         headers: {
           'apikey': config.serviceRoleKey,
           'Authorization': `Bearer ${config.serviceRoleKey}`
@@ -26,15 +73,26 @@ export class SupabaseConnection {
       }
     });
     
-    this.pgClient = new PgClient({
-      connectionString: config.dbUrl
+    this.pool = new Pool({
+      connectionString: config.dbUrl,
+      max: config.pool.max,
+      idleTimeoutMillis: config.pool.idleTimeoutMillis,
+      connectionTimeoutMillis: config.pool.connectionTimeoutMillis,
+      types: typeParsers
+    });
+    
+    // Un cliente inactivo que pierde la conexión no debe tumbar el proceso
+    this.pool.on('error', (error) => {
+      logger.error('Error en cliente inactivo del pool de PostgreSQL', error);
     });
   }
 
   async connect(): Promise<void> {
     try {
-      await this.pgClient.connect();
-      logger.info('Conexión a PostgreSQL establecida');
+      // Verificar que el pool puede abrir conexiones antes de aceptar peticiones
+      const client = await this.pool.connect();
+      client.release();
+      logger.info(`Pool de PostgreSQL listo para '${this.config.name}' (máximo ${this.config.pool.max} conexiones)`);
     } catch (error) {
       logger.error('Error conectando a PostgreSQL', error);
       throw error;
@@ -43,24 +101,112 @@ export class SupabaseConnection {
 
   async disconnect(): Promise<void> {
     try {
-      await this.pgClient.end();
-      logger.info('Conexión a PostgreSQL cerrada');
+      await this.pool.end();
+      logger.info(`Pool de PostgreSQL cerrado para '${this.config.name}'`);
     } catch (error) {
       logger.error('Error cerrando conexión a PostgreSQL', error);
     }
   }
 
+  getConfig(): SupabaseConfig {
+    return this.config;
+  }
+
   getSupabaseClient(): SupabaseClient {
     return this.supabaseClient;
   }
 
-  getPgClient(): PgClient {
-    return this.pgClient;
+  // Para consultas sueltas: cada llamada toma y devuelve un cliente del pool
+  getPool(): Queryable {
+    return this.queryable;
+  }
+
+  // Reserva un cliente dedicado durante toda la función (necesario para SET, cursores, etc.)
+  async withClient<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      return await this.runCancellable(client, fn);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Cliente que sobrevive a la petición (cursores entre llamadas); quien lo pide debe liberarlo con release()
+  async checkoutClient(): Promise<PoolClient> {
+    return this.pool.connect();
+  }
+
+  // Si la petición MCP se aborta mientras fn usa el cliente, se cancela en el servidor la consulta en curso
+  async runCancellable<T>(client: PoolClient, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const signal = getRequestSignal();
+    let cancelling: Promise<void> | null = null;
+    const onAbort = () => {
+      cancelling = this.cancelBackend(client);
+    };
+    
+    try {
+      signal?.throwIfAborted();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      return await fn(client);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      // El cliente no se libera hasta que la cancelación termina: no debe alcanzar a otra petición
+      if (cancelling) {
+        await cancelling;
+      }
+    }
+  }
+
+  // pg_cancel_backend desde una conexión aparte: con el pool agotado no habría cliente libre para cancelar
+  private async cancelBackend(client: PoolClient): Promise<void> {
+    // processID lo rellena pg al conectar, pero @types/pg no lo declara
+    const pid = (client as PoolClient & { processID: number | null }).processID;
+    if (pid === null) {
+      return;
+    }
+    
+    const canceller = new Client({ connectionString: this.config.dbUrl });
+    try {
+      await canceller.connect();
+      await canceller.query('SELECT pg_cancel_backend($1)', [pid]);
+      logger.info(`Consulta cancelada en el backend ${pid} de '${this.config.name}'`);
+    } catch (error) {
+      logger.error(`Error cancelando la consulta del backend ${pid}`, error);
+    } finally {
+      await canceller.end().catch(() => undefined);
+    }
+  }
+
+  // Ejecuta la función dentro de BEGIN/COMMIT en un cliente dedicado, con ROLLBACK si falla
+  async withTransaction<T>(fn: (client: PoolClient) => Promise<T>, options: { readOnly?: boolean } = {}): Promise<T> {
+    return this.withClient(async (client) => {
+      await client.query(options.readOnly ? 'BEGIN TRANSACTION READ ONLY' : 'BEGIN');
+      try {
+        const result = await fn(client);
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  // Ejecuta la función en una transacción que siempre se deshace (validaciones sin efectos)
+  async withRollback<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    return this.withClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        return await fn(client);
+      } finally {
+        await client.query('ROLLBACK');
+      }
+    });
   }
 
   async testConnection(): Promise<boolean> {
     try {
-      const result = await this.pgClient.query('SELECT 1');
+      const result = await this.pool.query('SELECT 1');
       return result.rows.length > 0;
     } catch (error) {
       logger.error('Error en test de conexión', error);
@@ -70,7 +216,7 @@ export class SupabaseConnection {
 
   async getVersion(): Promise<string> {
     try {
-      const result = await this.pgClient.query('SELECT version()');
+      const result = await this.pool.query('SELECT version()');
       return result.rows[0]?.version || 'Desconocida';
     } catch (error) {
       logger.error('Error obteniendo versión', error);
@@ -79,24 +225,79 @@ export class SupabaseConnection {
   }
 }
 
-let connection: SupabaseConnection | null = null;
+const connections = new Map<string, SupabaseConnection>();
+let defaultProfile: string | null = null;
 
-export const getConnection = (): SupabaseConnection => {
-  if (!connection) {
-    throw new Error('Conexión no inicializada. Llama a initConnection() primero.');
+// Perfil efectivo: el argumento `project` de la llamada, luego el elegido con switch_project
+// en la sesión y por último el perfil por defecto
+export const resolveProjectName = (project?: string): string => {
+  const context = getRequestContext();
+  const name = project ?? context?.project ?? context?.session.activeProject ?? defaultProfile;
+  
+  if (!name) {
+    throw new Error('Conexión no inicializada. Llama a initConnections() primero.');
+  }
+  if (!connections.has(name)) {
+    throw new NotFoundError(`Proyecto desconocido: ${name}. Disponibles: ${Array.from(connections.keys()).join(', ')}`);
   }
-  return connection;
+  return name;
+};
+
+export const getConnection = (project?: string): SupabaseConnection => {
+  return connections.get(resolveProjectName(project))!;
 };
 
-export const initConnection = async (config: SupabaseConfig): Promise<SupabaseConnection> => {
-  connection = new SupabaseConnection(config);
-  await connection.connect();
-  return connection;
+export const listConnections = (): SupabaseConnection[] => {
+  return Array.from(connections.values());
 };
 
-export const closeConnection = async (): Promise<void> => {
-  if (connection) {
+export const getDefaultProfile = (): string | null => {
+  return defaultProfile;
+};
+
+// Sólo se verifica el perfil por defecto; el resto de pools abren conexiones al primer uso
+export const initConnections = async (profiles: ProfilesConfig): Promise<void> => {
+  for (const [name, config] of Object.entries(profiles.profiles)) {
+    connections.set(name, new SupabaseConnection(config));
+  }
+  defaultProfile = profiles.defaultProfile;
+  await connections.get(profiles.defaultProfile)!.connect();
+};
+
+// Aplica una nueva configuración de perfiles sin cortar las sesiones MCP: los perfiles sin cambios
+// conservan su pool, los modificados estrenan uno nuevo y los pools retirados se cierran al final
+export const reloadConnections = async (profiles: ProfilesConfig): Promise<void> => {
+  const retired: SupabaseConnection[] = [];
+  
+  for (const [name, connection] of connections) {
+    if (!profiles.profiles[name]) {
+      connections.delete(name);
+      retired.push(connection);
+    }
+  }
+  
+  for (const [name, config] of Object.entries(profiles.profiles)) {
+    const current = connections.get(name);
+    if (current && JSON.stringify(current.getConfig()) === JSON.stringify(config)) {
+      continue;
+    }
+    connections.set(name, new SupabaseConnection(config));
+    if (current) {
+      retired.push(current);
+    }
+  }
+  
+  defaultProfile = profiles.defaultProfile;
+  
+  for (const connection of retired) {
     await connection.disconnect();
-    connection = null;
   }
-};
\ No newline at end of file
+};
+
+export const closeConnections = async (): Promise<void> => {
+  for (const connection of connections.values()) {
+    await connection.disconnect();
+  }
+  connections.clear();
+  defaultProfile = null;
+};
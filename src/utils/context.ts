@@ -0,0 +1,52 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import type { ProgressSender } from './progress.js';
+
+// Estado propio de cada sesión MCP (en stdio hay una sola; en HTTP, una por cliente)
+export interface SessionState {
+  activeProject?: string | undefined;
+  // Nivel pedido por el cliente con logging/setLevel; sin él no se le envían logs
+  logLevel?: LoggingLevel | undefined;
+}
+
+export interface RequestContext {
+  // ID de correlación: se añade a cada línea de log y a la entrada de auditoría de la petición
+  requestId?: string;
+  // Se aborta si el cliente cancela la llamada o vence el tiempo máximo de la herramienta
+  signal?: AbortSignal | undefined;
+  // Sólo existe si el cliente pidió notificaciones de progreso (progressToken)
+  sendProgress?: ProgressSender | undefined;
+  session: SessionState;
+  project?: string | undefined;
+  readOnly?: boolean;
+  dryRun?: boolean;
+  confirmDestructive?: boolean;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Ejecuta fn con el contexto de la petición disponible para todo el código que llame
+export const runWithContext = <T>(context: RequestContext, fn: () => Promise<T>): Promise<T> => {
+  return storage.run(context, fn);
+};
+
+export const getRequestContext = (): RequestContext | undefined => {
+  return storage.getStore();
+};
+
+export const isReadOnlyRequest = (): boolean => {
+  return storage.getStore()?.readOnly === true;
+};
+
+export const isDryRunRequest = (): boolean => {
+  return storage.getStore()?.dryRun === true;
+};
+
+// Salvo que se desactive expresamente, las operaciones destructivas requieren confirmación
+export const isConfirmationRequired = (): boolean => {
+  return storage.getStore()?.confirmDestructive !== false;
+};
+
+export const getRequestSignal = (): AbortSignal | undefined => {
+  return storage.getStore()?.signal;
+};
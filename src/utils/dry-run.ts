@@ -0,0 +1,62 @@
+import { PoolClient, QueryResult } from 'pg';
+import { SupabaseConnection } from './connection.js';
+import { isDryRunRequest } from './context.js';
+import { toMCPError } from './errors.js';
+
+// Sentencia tal y como se ejecutaría; las parametrizadas llevan sus valores aparte
+export type PlannedStatement = string | { text: string; values: unknown[] };
+
+export interface AffectedObject {
+  type: 'table' | 'index' | 'policy';
+  name: string;
+  action: 'create' | 'drop' | 'alter' | 'write';
+}
+
+export const statementText = (statement: PlannedStatement): string => {
+  return typeof statement === 'string' ? statement : statement.text;
+};
+
+// Comienzo de la sentencia (p. ej. "INSERT INTO orders"), sin los datos que pueda llevar
+export const describeStatement = (statement: PlannedStatement): string => {
+  return statementText(statement).trim().split(/[\s(;]+/).slice(0, 3).join(' ');
+};
+
+// Dry-run por llamada (argumento dryRun) o global (MCP_DRY_RUN)
+export const isDryRun = (dryRun: boolean | undefined): boolean => {
+  return dryRun === true || isDryRunRequest();
+};
+
+// Sirve tanto para el pool como para un cliente dedicado
+export const runStatement = (client: Pick<PoolClient, 'query'>, statement: PlannedStatement): Promise<QueryResult> => {
+  return typeof statement === 'string' ? client.query(statement) : client.query(statement.text, statement.values);
+};
+
+// Devuelve lo que haría la herramienta sin aplicarlo. Las sentencias se validan ejecutándolas
+// dentro de una transacción que se deshace: Postgres comprueba sintaxis, tipos, permisos y
+// restricciones, pero ningún cambio llega a confirmarse
+export const previewStatements = async (
+  connection: SupabaseConnection,
+  statements: PlannedStatement[],
+  affectedObjects: AffectedObject[]
+) => {
+  let validation;
+  try {
+    await connection.withRollback(async (client) => {
+      for (const statement of statements) {
+        await runStatement(client, statement);
+      }
+    });
+    validation = { valid: true };
+  } catch (error) {
+    validation = { valid: false, error: toMCPError(error) };
+  }
+
+  return {
+    success: true,
+    dryRun: true,
+    statements,
+    affectedObjects,
+    validation,
+    message: 'Dry-run: no se ha aplicado ningún cambio'
+  };
+};
@@ -0,0 +1,199 @@
+import { DatabaseError } from 'pg';
+import { FunctionsHttpError, isAuthError } from '@supabase/supabase-js';
+import { logError } from './logger.js';
+
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'NOT_FOUND'
+  | 'PERMISSION_DENIED'
+  | 'CONFLICT'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'INTERNAL_ERROR';
+
+export interface ErrorDetails {
+  detail?: string | undefined;
+  hint?: string | undefined;
+  position?: string | undefined;
+  sqlState?: string | undefined;
+  status?: number | undefined;
+}
+
+// Error base de todas las herramientas: código estable para los clientes MCP más los datos
+// que aporte el origen (SQLSTATE, detalle y sugerencia de Postgres, estado HTTP de Supabase)
+export class SupabaseMCPError extends Error {
+  constructor(public readonly code: ErrorCode, message: string, public readonly details: ErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toJSON() {
+    const details = Object.fromEntries(Object.entries(this.details).filter(([, value]) => value !== undefined));
+    return { code: this.code, message: this.message, ...details };
+  }
+}
+
+export class ValidationError extends SupabaseMCPError {
+  constructor(message: string, details?: ErrorDetails) {
+    super('VALIDATION_ERROR', message, details);
+  }
+}
+
+export class NotFoundError extends SupabaseMCPError {
+  constructor(message: string, details?: ErrorDetails) {
+    super('NOT_FOUND', message, details);
+  }
+}
+
+export class PermissionDeniedError extends SupabaseMCPError {
+  constructor(message: string, details?: ErrorDetails) {
+    super('PERMISSION_DENIED', message, details);
+  }
+}
+
+export class ConflictError extends SupabaseMCPError {
+  constructor(message: string, details?: ErrorDetails) {
+    super('CONFLICT', message, details);
+  }
+}
+
+export class TimeoutError extends SupabaseMCPError {
+  constructor(message: string, details?: ErrorDetails) {
+    super('TIMEOUT', message, details);
+  }
+}
+
+export class CancelledError extends SupabaseMCPError {
+  constructor(message: string, details?: ErrorDetails) {
+    super('CANCELLED', message, details);
+  }
+}
+
+// SQLSTATE concretos; el resto se resuelve por clase (los dos primeros caracteres)
+const SQLSTATE_CODES: Record<string, ErrorCode> = {
+  '42P01': 'NOT_FOUND',         // undefined_table
+  '42703': 'NOT_FOUND',         // undefined_column
+  '42883': 'NOT_FOUND',         // undefined_function
+  '42704': 'NOT_FOUND',         // undefined_object
+  '3F000': 'NOT_FOUND',         // invalid_schema_name
+  '3D000': 'NOT_FOUND',         // invalid_catalog_name
+  '42501': 'PERMISSION_DENIED', // insufficient_privilege
+  '25006': 'PERMISSION_DENIED', // read_only_sql_transaction
+  '42P06': 'CONFLICT',          // duplicate_schema
+  '42P07': 'CONFLICT',          // duplicate_table
+  '42701': 'CONFLICT',          // duplicate_column
+  '42710': 'CONFLICT',          // duplicate_object
+  '42723': 'CONFLICT',          // duplicate_function
+  '2BP01': 'CONFLICT',          // dependent_objects_still_exist
+  '57014': 'TIMEOUT',           // query_canceled (statement_timeout)
+  '55P03': 'TIMEOUT'            // lock_not_available (lock_timeout)
+};
+
+const SQLSTATE_CLASSES: Record<string, ErrorCode> = {
+  '22': 'VALIDATION_ERROR',  // data_exception
+  '23': 'CONFLICT',          // integrity_constraint_violation
+  '28': 'PERMISSION_DENIED', // invalid_authorization_specification
+  '40': 'CONFLICT',          // transaction_rollback (serialización, deadlock)
+  '42': 'VALIDATION_ERROR'   // syntax_error_or_access_rule_violation
+};
+
+// 23502 (not_null_violation) y 23514 (check_violation) son datos inválidos, no un conflicto
+const SQLSTATE_VALIDATION = new Set(['23502', '23514']);
+
+const fromSqlState = (sqlState: string): ErrorCode => {
+  if (SQLSTATE_VALIDATION.has(sqlState)) return 'VALIDATION_ERROR';
+  return SQLSTATE_CODES[sqlState] ?? SQLSTATE_CLASSES[sqlState.slice(0, 2)] ?? 'INTERNAL_ERROR';
+};
+
+const fromHttpStatus = (status: number | undefined): ErrorCode => {
+  switch (status) {
+    case 400:
+    case 422:
+      return 'VALIDATION_ERROR';
+    case 401:
+    case 403:
+      return 'PERMISSION_DENIED';
+    case 404:
+      return 'NOT_FOUND';
+    case 409:
+      return 'CONFLICT';
+    case 408:
+    case 504:
+      return 'TIMEOUT';
+    default:
+      return 'INTERNAL_ERROR';
+  }
+};
+
+const FS_CODES: Record<string, ErrorCode> = {
+  ENOENT: 'NOT_FOUND',
+  EACCES: 'PERMISSION_DENIED',
+  EPERM: 'PERMISSION_DENIED',
+  EEXIST: 'CONFLICT'
+};
+
+// storage-js no se re-exporta desde supabase-js; sus errores se reconocen por su marca interna
+const isStorageError = (error: unknown): error is Error & { status?: number } => {
+  return typeof error === 'object' && error !== null && '__isStorageError' in error;
+};
+
+// Convierte cualquier error (pg, supabase-js, fs o genérico) en un SupabaseMCPError
+export const toMCPError = (error: unknown): SupabaseMCPError => {
+  if (error instanceof SupabaseMCPError) {
+    return error;
+  }
+
+  if (error instanceof DatabaseError) {
+    const sqlState = error.code ?? '';
+    return new SupabaseMCPError(fromSqlState(sqlState), error.message, {
+      detail: error.detail,
+      hint: error.hint,
+      position: error.position,
+      sqlState: error.code
+    });
+  }
+
+  if (isAuthError(error) || isStorageError(error)) {
+    return new SupabaseMCPError(fromHttpStatus(error.status), error.message, { status: error.status });
+  }
+
+  // La respuesta HTTP de la función invocada viaja en context
+  if (error instanceof FunctionsHttpError) {
+    const status: number | undefined = error.context?.status;
+    return new SupabaseMCPError(fromHttpStatus(status), error.message, { status });
+  }
+
+  if (error instanceof Error) {
+    const fsCode = (error as NodeJS.ErrnoException).code;
+    return new SupabaseMCPError((fsCode && FS_CODES[fsCode]) || 'INTERNAL_ERROR', error.message);
+  }
+
+  return new SupabaseMCPError('INTERNAL_ERROR', String(error));
+};
+
+export interface ErrorResult {
+  success: false;
+  error: SupabaseMCPError;
+}
+
+// Resultado de error de un handler: registra el fallo y lo devuelve ya normalizado
+export const toErrorResult = (error: unknown, context: string): ErrorResult => {
+  const mcpError = toMCPError(error);
+  logError(mcpError, context);
+  return { success: false, error: mcpError };
+};
+
+export const isErrorResult = (result: unknown): result is ErrorResult => {
+  return typeof result === 'object' && result !== null
+    && (result as { success?: unknown }).success === false
+    && (result as { error?: unknown }).error instanceof SupabaseMCPError;
+};
+
+// Los handlers devuelven el error en lugar de lanzarlo; quien los reutiliza (recursos, prompts)
+// recupera la excepción con su código original
+export const unwrap = <T extends { success: boolean }>(result: T | ErrorResult): T => {
+  if (isErrorResult(result)) {
+    throw result.error;
+  }
+  return result as T;
+};
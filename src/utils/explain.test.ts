@@ -0,0 +1,95 @@
+import { ExplainOutput, PlanNode, TableStats, analyzePlan, planRelations } from './explain.js';
+
+const node = (type: string, extra: Partial<PlanNode> = {}): PlanNode => ({
+  'Node Type': type,
+  'Total Cost': 0,
+  'Plan Rows': 0,
+  ...extra
+});
+
+const ventas: TableStats = {
+  schema: 'public',
+  table: 'ventas',
+  rows: 50000,
+  columns: ['id', 'estado', 'cliente', 'importe'],
+  indexes: [{ name: 'ventas_pkey', columns: ['id'] }]
+};
+
+const seqScan = (filter: string, extra: Partial<PlanNode> = {}) => node('Seq Scan', {
+  'Relation Name': 'ventas',
+  Schema: 'public',
+  Alias: 'v',
+  'Total Cost': 1000,
+  'Plan Rows': 40,
+  Filter: filter,
+  ...extra
+});
+
+describe('analyzePlan', () => {
+  it('sugiere un índice con las igualdades del filtro antes que el rango', () => {
+    const output: ExplainOutput = { Plan: seqScan("((v.importe > '100'::numeric) AND ((v.estado)::text = 'pagado'::text) AND (v.cliente = 3))") };
+    expect(planRelations(output)).toEqual([{ schema: 'public', table: 'ventas' }]);
+
+    const analysis = analyzePlan(output, [ventas], false);
+    expect(analysis.findings).toEqual([expect.objectContaining({ type: 'seq_scan', node: 'Seq Scan on public.ventas' })]);
+    expect(analysis.indexSuggestions).toEqual([{
+      table: 'public.ventas',
+      columns: ['estado', 'cliente', 'importe'],
+      reason: expect.stringContaining('~50000 filas'),
+      createIndex: { schema: 'public', tableName: 'ventas', columns: ['estado', 'cliente', 'importe'] }
+    }]);
+  });
+
+  it('no sugiere índices para filtros poco selectivos, con OR o ya cubiertos', () => {
+    const wide = analyzePlan({ Plan: seqScan('(v.importe > 1)', { 'Plan Rows': 45000 }) }, [ventas], false);
+    expect(wide.findings).toHaveLength(1);
+    expect(wide.indexSuggestions).toEqual([]);
+
+    const withOr = analyzePlan({ Plan: seqScan('((v.cliente = 3) OR (v.estado = \'x\'::text))') }, [ventas], false);
+    expect(withOr.indexSuggestions).toEqual([]);
+
+    const indexed = { ...ventas, indexes: [{ name: 'ventas_cliente_idx', columns: ['cliente', 'id'] }] };
+    const covered = analyzePlan({ Plan: seqScan('(v.cliente = 3)') }, [indexed], false);
+    expect(covered.indexSuggestions).toEqual([]);
+    expect(covered.findings[0]?.hint).toContain('ventas_cliente_idx');
+
+    const small = analyzePlan({ Plan: seqScan('(v.cliente = 3)') }, [{ ...ventas, rows: 500 }], false);
+    expect(small.findings).toEqual([]);
+  });
+
+  it('detecta estimaciones erróneas y volcados a disco con ANALYZE', () => {
+    const output: ExplainOutput = {
+      Plan: node('Sort', {
+        'Total Cost': 900, 'Plan Rows': 20000, 'Actual Total Time': 50, 'Actual Rows': 20000, 'Actual Loops': 1,
+        'Sort Key': ['v.estado'], 'Sort Method': 'external merge', 'Sort Space Used': 720, 'Sort Space Type': 'Disk',
+        Plans: [
+          node('Hash Join', {
+            'Total Cost': 800, 'Plan Rows': 50, 'Actual Total Time': 30, 'Actual Rows': 20000, 'Actual Loops': 1,
+            Plans: [
+              node('Index Scan', { 'Index Name': 'ventas_pkey', 'Relation Name': 'ventas', Schema: 'public', 'Actual Total Time': 5, 'Actual Rows': 20000, 'Plan Rows': 20000, 'Actual Loops': 1 }),
+              node('Hash', { 'Actual Total Time': 4, 'Actual Rows': 10, 'Plan Rows': 10, 'Actual Loops': 1, 'Hash Batches': 4, 'Peak Memory Usage': 4096 })
+            ]
+          })
+        ]
+      }),
+      'Execution Time': 51
+    };
+
+    const analysis = analyzePlan(output, [], true);
+    expect(analysis.findings.map(finding => finding.type)).toEqual(['spill', 'row_estimate', 'spill']);
+    expect(analysis.findings[0]).toMatchObject({ node: 'Sort', hint: expect.stringContaining('720 kB') });
+    expect(analysis.findings[1]).toMatchObject({ node: 'Hash Join', message: 'Estimaba 50 filas y obtuvo 20000 (x400)' });
+
+    // Tiempo propio de cada nodo: el Sort 50 - 30, el Hash Join 30 - 5 - 4
+    expect(analysis.expensiveNodes.slice(0, 2)).toEqual([
+      { node: 'Hash Join', selfTimeMs: 21, percent: 42 },
+      { node: 'Sort', selfTimeMs: 20, percent: 40 }
+    ]);
+    expect(analysis.expensiveNodes[2]).toMatchObject({ node: 'Index Scan using ventas_pkey on public.ventas' });
+  });
+
+  it('ignora los nodos que no llegaron a ejecutarse', () => {
+    const never = seqScan('(v.cliente = 3)', { 'Actual Rows': 0, 'Actual Loops': 0, 'Plan Rows': 5000 });
+    expect(analyzePlan({ Plan: never }, [ventas], true).findings).toEqual([]);
+  });
+});
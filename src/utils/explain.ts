@@ -0,0 +1,291 @@
+// Análisis de la salida de EXPLAIN (FORMAT JSON, VERBOSE): escaneos secuenciales sobre tablas grandes,
+// estimaciones de filas muy desviadas, ordenaciones y hashes que se vuelcan a disco y los nodos más caros
+
+// Nodo del plan tal y como lo devuelve Postgres (claves con espacios; sólo las que se analizan)
+export interface PlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  Schema?: string;
+  Alias?: string;
+  'Index Name'?: string;
+  'Total Cost': number;
+  'Plan Rows': number;
+  'Actual Total Time'?: number;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  Filter?: string;
+  'Rows Removed by Filter'?: number;
+  'Sort Key'?: string[];
+  'Sort Method'?: string;
+  'Sort Space Used'?: number;
+  'Sort Space Type'?: string;
+  'Hash Batches'?: number;
+  'Peak Memory Usage'?: number;
+  'HashAgg Batches'?: number;
+  'Disk Usage'?: number;
+  Plans?: PlanNode[];
+  [key: string]: unknown;
+}
+
+export interface ExplainOutput {
+  Plan: PlanNode;
+  'Planning Time'?: number;
+  'Execution Time'?: number;
+  [key: string]: unknown;
+}
+
+// Lo que el análisis necesita saber de cada tabla escaneada (pg_class, pg_attribute y pg_index)
+export interface TableStats {
+  schema: string;
+  table: string;
+  rows: number;
+  columns: string[];
+  indexes: { name: string; columns: string[] }[];
+}
+
+export interface PlanFinding {
+  type: 'seq_scan' | 'row_estimate' | 'spill';
+  node: string;
+  message: string;
+  hint: string;
+}
+
+export interface ExpensiveNode {
+  node: string;
+  // Tiempo (con ANALYZE) o coste estimado del propio nodo, sin contar el de sus hijos
+  selfTimeMs?: number;
+  selfCost?: number;
+  percent: number;
+}
+
+// Argumentos listos para create_index
+export interface IndexSuggestion {
+  table: string;
+  columns: string[];
+  reason: string;
+  createIndex: { schema: string; tableName: string; columns: string[] };
+}
+
+export interface PlanAnalysis {
+  findings: PlanFinding[];
+  expensiveNodes: ExpensiveNode[];
+  indexSuggestions: IndexSuggestion[];
+}
+
+// A partir de este tamaño un Seq Scan deja de ser barato
+const LARGE_TABLE_ROWS = 10000;
+
+// Una estimación que se equivoca en este factor (y en al menos ESTIMATE_MIN_ROWS filas) lleva a malos planes
+const ESTIMATE_ERROR_FACTOR = 10;
+const ESTIMATE_MIN_ROWS = 100;
+
+// Un índice sólo compensa si el filtro descarta la mayor parte de la tabla
+const SELECTIVE_FILTER_RATIO = 0.1;
+
+const EXPENSIVE_NODES = 5;
+
+const EQUALITY_OPERATORS = new Set(['=']);
+const RANGE_OPERATORS = new Set(['<', '<=', '>', '>=']);
+
+// Recorre el plan en preorden
+const walk = (node: PlanNode, visit: (node: PlanNode) => void): void => {
+  visit(node);
+  node.Plans?.forEach(child => walk(child, visit));
+};
+
+const qualifiedName = (node: PlanNode): string | undefined => {
+  const relation = node['Relation Name'];
+  if (!relation) return undefined;
+  return node.Schema ? `${node.Schema}.${relation}` : relation;
+};
+
+const describeNode = (node: PlanNode): string => {
+  const relation = qualifiedName(node);
+  const index = node['Index Name'] ? ` using ${node['Index Name']}` : '';
+  return relation ? `${node['Node Type']}${index} on ${relation}` : `${node['Node Type']}${index}`;
+};
+
+// Filas por bucle multiplicadas por los bucles: lo que el nodo produjo en total
+const actualRows = (node: PlanNode): number => (node['Actual Rows'] ?? 0) * (node['Actual Loops'] ?? 1);
+
+const isExecuted = (node: PlanNode): boolean => node['Actual Loops'] === undefined || node['Actual Loops'] > 0;
+
+// Tablas que aparecen en el plan, para consultar sus estadísticas antes de analizarlo
+export const planRelations = (output: ExplainOutput): { schema: string; table: string }[] => {
+  const relations = new Map<string, { schema: string; table: string }>();
+  walk(output.Plan, node => {
+    const table = node['Relation Name'];
+    if (table && node.Schema) {
+      relations.set(`${node.Schema}.${table}`, { schema: node.Schema, table });
+    }
+  });
+  return [...relations.values()];
+};
+
+// Columnas comparadas con un valor en el Filter de un escaneo: "((v.estado = 'x'::text) AND (v.total > 10))".
+// Con un OR de por medio un índice compuesto no sirve, así que no se devuelve ninguna
+const filterColumns = (filter: string): { column: string; equality: boolean }[] => {
+  if (/\sOR\s/.test(filter)) return [];
+
+  const comparison = /\(\(?(?:(?:"[^"]+"|\w+)\.)?("[^"]+"|\w+)(?:\)::[\w ]+?)?\s(=|<>|<=|>=|<|>)\s/g;
+  const columns: { column: string; equality: boolean }[] = [];
+  for (const [, rawColumn, operator] of filter.matchAll(comparison)) {
+    const column = rawColumn!.replace(/^"(.*)"$/, '$1');
+    if (EQUALITY_OPERATORS.has(operator!) || RANGE_OPERATORS.has(operator!)) {
+      columns.push({ column, equality: EQUALITY_OPERATORS.has(operator!) });
+    }
+  }
+  return columns;
+};
+
+// Igualdades primero y, detrás, una única columna de rango: el orden en que un btree las aprovecha
+const indexColumns = (filter: string, stats: TableStats): string[] => {
+  const compared = filterColumns(filter).filter(({ column }) => stats.columns.includes(column));
+  const equalities = [...new Set(compared.filter(({ equality }) => equality).map(({ column }) => column))];
+  const range = compared.find(({ column, equality }) => !equality && !equalities.includes(column));
+  return range ? [...equalities, range.column] : equalities;
+};
+
+// Un índice existente que empieza por las mismas columnas ya cubriría el filtro
+const coveringIndex = (stats: TableStats, columns: string[]): string | undefined => {
+  return stats.indexes.find(index => {
+    const leading = index.columns.slice(0, columns.length);
+    return leading.length === columns.length && columns.every(column => leading.includes(column));
+  })?.name;
+};
+
+const analyzeSeqScan = (node: PlanNode, stats: TableStats | undefined, analyzed: boolean) => {
+  const relation = qualifiedName(node) ?? node['Relation Name'] ?? '?';
+  const returned = analyzed ? actualRows(node) : node['Plan Rows'];
+  const removed = (node['Rows Removed by Filter'] ?? 0) * (node['Actual Loops'] ?? 1);
+  // reltuples es -1 (o 0) en tablas que nunca se analizaron: se completa con lo que vio el propio plan
+  const tableRows = Math.max(stats?.rows ?? 0, returned + removed, analyzed ? 0 : node['Plan Rows']);
+  if (tableRows < LARGE_TABLE_ROWS) {
+    return {};
+  }
+
+  const finding: PlanFinding = {
+    type: 'seq_scan',
+    node: describeNode(node),
+    message: node.Filter
+      ? `Recorre las ~${tableRows} filas de ${relation} para quedarse con ${returned} (${node.Filter})`
+      : `Recorre las ~${tableRows} filas de ${relation} sin filtro`,
+    hint: node.Filter
+      ? 'Un índice sobre las columnas del filtro evitaría leer la tabla entera'
+      : 'Si la consulta no necesita todas las filas, añade un WHERE o un LIMIT'
+  };
+
+  const columns = node.Filter && stats ? indexColumns(node.Filter, stats) : [];
+  if (!stats || columns.length === 0 || returned > tableRows * SELECTIVE_FILTER_RATIO) {
+    return { finding };
+  }
+
+  const existing = coveringIndex(stats, columns);
+  if (existing) {
+    finding.hint = `El índice ${existing} ya cubre el filtro pero el planificador no lo usa; ejecuta ANALYZE ${relation} para actualizar las estadísticas`;
+    return { finding };
+  }
+
+  const suggestion: IndexSuggestion = {
+    table: `${stats.schema}.${stats.table}`,
+    columns,
+    reason: `El Seq Scan descarta ${Math.max(tableRows - returned, 0)} de ~${tableRows} filas con ${node.Filter}`,
+    createIndex: { schema: stats.schema, tableName: stats.table, columns }
+  };
+  return { finding, suggestion };
+};
+
+const analyzeEstimate = (node: PlanNode): PlanFinding | undefined => {
+  if (node['Actual Rows'] === undefined || !isExecuted(node)) return undefined;
+
+  const estimated = node['Plan Rows'];
+  const actual = node['Actual Rows'];
+  const factor = Math.max(estimated, actual) / Math.max(Math.min(estimated, actual), 1);
+  if (factor < ESTIMATE_ERROR_FACTOR || Math.max(estimated, actual) < ESTIMATE_MIN_ROWS) return undefined;
+
+  const relation = qualifiedName(node);
+  return {
+    type: 'row_estimate',
+    node: describeNode(node),
+    message: `Estimaba ${estimated} filas y obtuvo ${actual} (x${Math.round(factor)})`,
+    hint: relation
+      ? `Ejecuta ANALYZE ${relation}; si las columnas del filtro están correlacionadas, prueba CREATE STATISTICS sobre ellas`
+      : 'Ejecuta ANALYZE sobre las tablas de la consulta para que el planificador estime mejor'
+  };
+};
+
+const analyzeSpill = (node: PlanNode): PlanFinding | undefined => {
+  if (node['Sort Space Type'] === 'Disk') {
+    return {
+      type: 'spill',
+      node: describeNode(node),
+      message: `La ordenación (${node['Sort Method'] ?? 'external'}) usó ${node['Sort Space Used'] ?? '?'} kB de disco`,
+      hint: `Sube work_mem por encima de ${node['Sort Space Used'] ?? '?'} kB (SET LOCAL work_mem en database_query) o crea un índice sobre ${(node['Sort Key'] ?? []).join(', ') || 'la clave de ordenación'}`
+    };
+  }
+  if ((node['Hash Batches'] ?? 1) > 1) {
+    return {
+      type: 'spill',
+      node: describeNode(node),
+      message: `La tabla hash se dividió en ${node['Hash Batches']} lotes en disco (${node['Peak Memory Usage'] ?? '?'} kB en memoria)`,
+      hint: 'Sube work_mem para que la tabla hash quepa en memoria'
+    };
+  }
+  if ((node['HashAgg Batches'] ?? 1) > 1 || (node['Disk Usage'] ?? 0) > 0) {
+    return {
+      type: 'spill',
+      node: describeNode(node),
+      message: `La agregación usó ${node['Disk Usage'] ?? '?'} kB de disco`,
+      hint: 'Sube work_mem (o hash_mem_multiplier) para que la agregación quepa en memoria'
+    };
+  }
+  return undefined;
+};
+
+// Coste o tiempo de cada nodo menos el de sus hijos: dónde se va realmente la consulta
+const expensiveNodes = (output: ExplainOutput, analyzed: boolean): ExpensiveNode[] => {
+  const total = (node: PlanNode): number => analyzed
+    ? (node['Actual Total Time'] ?? 0) * (node['Actual Loops'] ?? 1)
+    : node['Total Cost'];
+
+  const nodes: { node: PlanNode; self: number }[] = [];
+  walk(output.Plan, node => {
+    const children = (node.Plans ?? []).reduce((sum, child) => sum + total(child), 0);
+    nodes.push({ node, self: Math.max(total(node) - children, 0) });
+  });
+
+  const overall = nodes.reduce((sum, { self }) => sum + self, 0);
+  return nodes
+    .filter(({ self }) => self > 0)
+    .sort((a, b) => b.self - a.self)
+    .slice(0, EXPENSIVE_NODES)
+    .map(({ node, self }) => ({
+      node: describeNode(node),
+      ...(analyzed ? { selfTimeMs: Math.round(self * 1000) / 1000 } : { selfCost: Math.round(self * 100) / 100 }),
+      percent: overall > 0 ? Math.round((self / overall) * 1000) / 10 : 0
+    }));
+};
+
+export const analyzePlan = (output: ExplainOutput, stats: TableStats[], analyzed: boolean): PlanAnalysis => {
+  const findings: PlanFinding[] = [];
+  const suggestions = new Map<string, IndexSuggestion>();
+
+  walk(output.Plan, node => {
+    if (node['Node Type'] === 'Seq Scan' && isExecuted(node)) {
+      const relationStats = stats.find(entry => entry.table === node['Relation Name'] && entry.schema === node.Schema);
+      const { finding, suggestion } = analyzeSeqScan(node, relationStats, analyzed);
+      if (finding) findings.push(finding);
+      if (suggestion) suggestions.set(`${suggestion.table}(${suggestion.columns.join(',')})`, suggestion);
+    }
+    const estimate = analyzeEstimate(node);
+    if (estimate) findings.push(estimate);
+    const spill = analyzeSpill(node);
+    if (spill) findings.push(spill);
+  });
+
+  return {
+    findings,
+    expensiveNodes: expensiveNodes(output, analyzed),
+    indexSuggestions: [...suggestions.values()]
+  };
+};
@@ -0,0 +1,61 @@
+import { normalizeValue, toToolContent } from './format.js';
+
+const fields = [{ name: 'id', dataTypeID: 20 }, { name: 'nota', dataTypeID: 25 }, { name: 'datos', dataTypeID: 3802 }];
+const rows = [
+  { id: '1', nota: 'hola, "mundo"', datos: { a: 1 } },
+  { id: '2', nota: 'a|b\nc', datos: null }
+];
+const result = { success: true, rowCount: 2, rows, fields, truncated: false };
+
+const texts = (format: 'json' | 'markdown' | 'csv' | 'ndjson') => toToolContent(result, 'rows', format).map(content => content.text);
+
+describe('normalizeValue', () => {
+  it('convierte bigint, numeric, bytea y fechas a texto', () => {
+    expect(normalizeValue(12, 20)).toBe('12');
+    expect(normalizeValue(1.5, 1700)).toBe('1.5');
+    expect(normalizeValue(Buffer.from([0xde, 0xad]))).toBe('\\xdead');
+    expect(normalizeValue(new Date(2024, 0, 31), 1082)).toBe('2024-01-31');
+    expect(normalizeValue(new Date('2024-01-01T10:00:00Z'), 1184)).toBe('2024-01-01T10:00:00.000Z');
+    // timestamp sin zona horaria: el texto que devuelve la conexión, sin desplazar
+    expect(normalizeValue('2024-01-01T10:00:00', 1114)).toBe('2024-01-01T10:00:00');
+    expect(normalizeValue(undefined)).toBeNull();
+  });
+});
+
+describe('toToolContent', () => {
+  it('json: un único bloque con los valores normalizados', () => {
+    const [text, ...rest] = texts('json');
+    expect(rest).toEqual([]);
+    expect(JSON.parse(text!)).toMatchObject({ rowCount: 2, rows: [{ id: '1' }, { id: '2' }] });
+  });
+
+  it('markdown: tabla con las columnas de fields y celdas escapadas', () => {
+    const [table, metadata] = texts('markdown');
+    expect(table).toBe([
+      '| id | nota | datos |',
+      '| --- | --- | --- |',
+      '| 1 | hola, "mundo" | {"a":1} |',
+      '| 2 | a\\|b<br>c | NULL |'
+    ].join('\n'));
+    expect(JSON.parse(metadata!)).toEqual({ success: true, rowCount: 2, fields, truncated: false, format: 'markdown' });
+
+    expect(toToolContent({ rows: [] }, 'rows', 'markdown')[0]!.text).toBe('_Sin resultados_');
+  });
+
+  it('csv: RFC 4180 con cabecera, comillas y NULL vacío', () => {
+    const [csv, metadata] = texts('csv');
+    expect(csv).toBe('id,nota,datos\r\n1,"hola, ""mundo""","{""a"":1}"\r\n2,"a|b\nc",');
+    expect(JSON.parse(metadata!).format).toBe('csv');
+  });
+
+  it('ndjson: un objeto por línea y columnas deducidas sin fields', () => {
+    const [ndjson] = texts('ndjson');
+    expect(ndjson!.split('\n').map(line => JSON.parse(line))).toEqual([
+      { id: '1', nota: 'hola, "mundo"', datos: { a: 1 } },
+      { id: '2', nota: 'a|b\nc', datos: null }
+    ]);
+
+    const [csv] = toToolContent({ files: [{ name: 'a.txt', size: 3 }, { name: 'b.txt', extra: true }] }, 'files', 'csv');
+    expect(csv!.text).toBe('name,size,extra\r\na.txt,3,\r\nb.txt,,true');
+  });
+});
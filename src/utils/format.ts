@@ -0,0 +1,145 @@
+export type ResultFormat = 'json' | 'markdown' | 'csv' | 'ndjson';
+
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+// Columna tal y como la devuelve pg en result.fields (database_query); el resto de herramientas no la tienen
+interface FieldInfo {
+  name: string;
+  dataTypeID?: number;
+}
+
+// OIDs de pg_type con tratamiento propio
+const INT8_OID = 20;
+const NUMERIC_OID = 1700;
+const DATE_OID = 1082;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// bigint y numeric como texto (no caben en un número de JS sin perder precisión), bytea en hex
+// con el prefijo de Postgres y fechas en ISO. Las columnas date se parsean a medianoche local,
+// así que se escriben con sus componentes locales para no cambiar de día al pasar a UTC; las
+// timestamp sin zona horaria ya llegan como texto (ver los parsers de tipos de connection.ts)
+export const normalizeValue = (value: unknown, dataTypeID?: number): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      return String(value);
+    }
+    if (dataTypeID === DATE_OID) {
+      return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    }
+    return value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return `\\x${value.toString('hex')}`;
+  }
+  if (typeof value === 'bigint' || dataTypeID === INT8_OID || dataTypeID === NUMERIC_OID) {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => normalizeValue(item));
+  }
+  return value;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Columnas en el orden de result.fields o, sin ellos, en el orden en que aparecen en los elementos
+const columnsOf = (items: unknown[], fields: FieldInfo[] | undefined): FieldInfo[] => {
+  if (fields && fields.length > 0) {
+    return fields;
+  }
+  const names = new Set<string>();
+  for (const item of items) {
+    if (isRecord(item)) {
+      Object.keys(item).forEach(key => names.add(key));
+    }
+  }
+  return Array.from(names, name => ({ name }));
+};
+
+const normalizeItems = (items: unknown[], columns: FieldInfo[]): unknown[] => {
+  return items.map(item => {
+    if (!isRecord(item)) {
+      return normalizeValue(item);
+    }
+    const types = new Map(columns.map(column => [column.name, column.dataTypeID]));
+    return Object.fromEntries(Object.entries(item).map(([key, value]) => [key, normalizeValue(value, types.get(key))]));
+  });
+};
+
+// Texto de una celda: JSON para objetos (columnas json/jsonb, arrays)
+const cellText = (value: unknown): string | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const toMarkdown = (items: unknown[], columns: FieldInfo[]): string => {
+  if (items.length === 0) {
+    return '_Sin resultados_';
+  }
+  const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  const header = `| ${columns.map(column => escape(column.name)).join(' | ')} |`;
+  const separator = `| ${columns.map(() => '---').join(' | ')} |`;
+  const rows = items.map(item => {
+    const record = isRecord(item) ? item : { value: item };
+    return `| ${columns.map(column => escape(cellText(record[column.name]) ?? 'NULL')).join(' | ')} |`;
+  });
+  return [header, separator, ...rows].join('\n');
+};
+
+// RFC 4180: comillas dobles si el valor lleva separador, comillas o saltos de línea; NULL es un campo vacío
+const toCsv = (items: unknown[], columns: FieldInfo[]): string => {
+  const quote = (text: string | null) => {
+    if (text === null) return '';
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = items.map(item => {
+    const record = isRecord(item) ? item : { value: item };
+    return columns.map(column => quote(cellText(record[column.name]))).join(',');
+  });
+  return [columns.map(column => quote(column.name)).join(','), ...rows].join('\r\n');
+};
+
+// Contenido MCP de una herramienta con resultado tabular. En json todo va en un único bloque, como
+// el resto de herramientas; en los demás formatos el primer bloque son los datos y el segundo, el
+// resto del resultado (truncated, cursor, rowCount...) en JSON
+export const toToolContent = (
+  result: Record<string, unknown>,
+  itemsKey: string,
+  format: ResultFormat = 'json'
+): TextContent[] => {
+  const items = result[itemsKey];
+  if (!Array.isArray(items)) {
+    return [{ type: 'text', text: JSON.stringify(result) }];
+  }
+
+  const fields = Array.isArray(result.fields) ? result.fields as FieldInfo[] : undefined;
+  const columns = columnsOf(items, fields);
+  const normalized = normalizeItems(items, columns);
+
+  if (format === 'json') {
+    return [{ type: 'text', text: JSON.stringify({ ...result, [itemsKey]: normalized }) }];
+  }
+
+  const { [itemsKey]: _items, ...metadata } = result;
+  const text = format === 'markdown'
+    ? toMarkdown(normalized, columns)
+    : format === 'csv'
+      ? toCsv(normalized, columns)
+      : normalized.map(item => JSON.stringify(item)).join('\n');
+
+  return [
+    { type: 'text', text },
+    { type: 'text', text: JSON.stringify({ ...metadata, format }) }
+  ];
+};
@@ -0,0 +1,111 @@
+import jwt from 'jsonwebtoken';
+import { SupabaseConnection } from './connection.js';
+import { NotFoundError, ValidationError } from './errors.js';
+
+// Algoritmos con los que GoTrue y PostgREST firman y aceptan tokens con el secreto compartido
+const JWT_ALGORITHMS: jwt.Algorithm[] = ['HS256', 'HS384', 'HS512'];
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+  y: 365 * 24 * 60 * 60
+};
+
+export const DURATION_PATTERN = /^(\d+)([smhdwy])$/;
+
+// "15m", "1h", "30d", "10y" → segundos
+export const parseDuration = (value: string): number => {
+  const match = DURATION_PATTERN.exec(value);
+  if (!match) {
+    throw new ValidationError(`Duración inválida: ${value}`, { hint: 'Usa un número y una unidad: s, m, h, d, w o y (p. ej. 1h, 30d, 10y)' });
+  }
+  return Number(match[1]) * (DURATION_UNITS[match[2] as string] as number);
+};
+
+export const requireJwtSecret = (connection: SupabaseConnection): string => {
+  const { jwtSecret, name } = connection.getConfig();
+  if (!jwtSecret) {
+    throw new ValidationError(`El perfil '${name}' no tiene jwtSecret`, {
+      hint: 'Configura SUPABASE_JWT_SECRET (o jwtSecret en el perfil del archivo de configuración)'
+    });
+  }
+  return jwtSecret;
+};
+
+export interface SignedJwt {
+  token: string;
+  claims: Record<string, unknown>;
+  expiresAt: string;
+}
+
+// iat y exp se calculan aquí y sustituyen a los que traigan los claims
+export const signJwt = (claims: Record<string, unknown>, secret: string, ttlSeconds: number): SignedJwt => {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload = { ...claims, iat, exp: iat + ttlSeconds };
+  return {
+    token: jwt.sign(payload, secret, { algorithm: 'HS256' }),
+    claims: payload,
+    expiresAt: new Date(payload.exp * 1000).toISOString()
+  };
+};
+
+export interface DecodedJwt {
+  header: jwt.JwtHeader;
+  payload: jwt.JwtPayload | string;
+  // null si no hay secreto con el que comprobar la firma
+  signatureValid: boolean | null;
+  verificationError?: string;
+}
+
+// Decodifica siempre; la firma sólo se comprueba si hay secreto. La caducidad se informa aparte
+export const decodeJwt = (token: string, secret: string): DecodedJwt => {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded) {
+    throw new ValidationError('El token no es un JWT válido');
+  }
+  if (!secret) {
+    return { header: decoded.header, payload: decoded.payload, signatureValid: null };
+  }
+  try {
+    jwt.verify(token, secret, { algorithms: JWT_ALGORITHMS, ignoreExpiration: true });
+    return { header: decoded.header, payload: decoded.payload, signatureValid: true };
+  } catch (error) {
+    return { header: decoded.header, payload: decoded.payload, signatureValid: false, verificationError: (error as Error).message };
+  }
+};
+
+// Claims que GoTrue pondría en el access token del usuario, leídos de auth.users
+export const userClaims = async (
+  connection: SupabaseConnection,
+  userId: string,
+  ttlSeconds: number = 3600
+): Promise<Record<string, unknown>> => {
+  const result = await connection.getPool().query(`
+    SELECT id, aud, role, email, phone, raw_app_meta_data, raw_user_meta_data, is_anonymous
+    FROM auth.users
+    WHERE id = $1;
+  `, [userId]);
+
+  const user = result.rows[0];
+  if (!user) {
+    throw new NotFoundError(`Usuario no encontrado: ${userId}`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    aud: user.aud || 'authenticated',
+    exp: now + ttlSeconds,
+    iat: now,
+    sub: user.id,
+    email: user.email ?? '',
+    phone: user.phone ?? '',
+    app_metadata: user.raw_app_meta_data ?? {},
+    user_metadata: user.raw_user_meta_data ?? {},
+    role: user.role || 'authenticated',
+    aal: 'aal1',
+    is_anonymous: user.is_anonymous ?? false
+  };
+};
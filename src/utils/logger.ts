@@ -1,25 +1,121 @@
+import path from 'path';
 import winston from 'winston';
+import Transport from 'winston-transport';
+import { LoggingConfig } from '../types/supabase.js';
+import { getRequestContext, SessionState } from './context.js';
 
+export type LogLevel = LoggingConfig['level'];
+
+// Entrada de log tal y como la reciben los suscriptores (p. ej. las sesiones MCP con logging activado)
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  requestId?: string | undefined;
+  session?: SessionState | undefined;
+}
+
+export type LogListener = (entry: LogEntry) => void;
+
+// La sesión viaja en una clave Symbol: el formato JSON de winston no la serializa
+const SESSION = Symbol('session');
+
+const listeners = new Set<LogListener>();
+
+// Añade el ID de correlación de la petición en curso. Se evalúa al llamar a logger.*,
+// así que el contexto (AsyncLocalStorage) es todavía el de la petición
+const requestContext = winston.format((info) => {
+  const context = getRequestContext();
+  if (context?.requestId) {
+    info.requestId = context.requestId;
+    (info as Record<symbol, unknown>)[SESSION] = context.session;
+  }
+  return info;
+});
+
+// Reenvía cada entrada a los suscriptores; un suscriptor que falla no debe afectar al resto
+class ListenerTransport extends Transport {
+  override log(info: winston.Logform.TransformableInfo, next: () => void): void {
+    const entry: LogEntry = {
+      level: info.level as LogLevel,
+      message: String(info.message),
+      requestId: info.requestId as string | undefined,
+      session: (info as Record<symbol, unknown>)[SESSION] as SessionState | undefined
+    };
+    for (const listener of listeners) {
+      try {
+        listener(entry);
+      } catch {
+        // Ignorado: registrar el fallo volvería a pasar por aquí
+      }
+    }
+    next();
+  }
+}
+
+// El logger deja pasar todos los niveles; cada destino filtra con el suyo
 export const logger = winston.createLogger({
-  level: 'info',
+  level: 'debug',
   format: winston.format.combine(
+    requestContext(),
     winston.format.timestamp(),
     winston.format.errors({ stack: true }),
     winston.format.json()
   ),
-  defaultMeta: { service: 'supabase-mcp-server' },
-  transports: [
-    new winston.transports.File({ filename: 'error.log', level: 'error' }),
-    new winston.transports.File({ filename: 'combined.log' }),
-    new winston.transports.Console({
-      format: winston.format.combine(
-        winston.format.colorize(),
-        winston.format.simple()
-      )
-    })
-  ]
+  defaultMeta: { service: 'supabase-mcp-server' }
 });
 
+// En stdio, stdout es el canal JSON-RPC: la consola escribe siempre en stderr
+const createSinkTransports = (config: LoggingConfig): Transport[] => {
+  switch (config.sink) {
+    case 'off':
+      return [];
+    case 'file':
+      return [
+        new winston.transports.File({
+          filename: path.join(config.dir, 'error.log'),
+          level: 'error',
+          maxsize: config.maxSize,
+          maxFiles: config.maxFiles,
+          tailable: true
+        }),
+        new winston.transports.File({
+          filename: path.join(config.dir, 'combined.log'),
+          level: config.level,
+          maxsize: config.maxSize,
+          maxFiles: config.maxFiles,
+          tailable: true
+        })
+      ];
+    case 'stderr':
+      return [
+        new winston.transports.Console({
+          level: config.level,
+          stderrLevels: Object.keys(winston.config.npm.levels),
+          format: process.stderr.isTTY
+            ? winston.format.combine(winston.format.colorize(), winston.format.simple())
+            : winston.format.simple()
+        })
+      ];
+  }
+};
+
+// Sustituye los destinos del log; se llama al arrancar y al recargar la configuración
+export const configureLogger = (config: LoggingConfig): void => {
+  logger.clear();
+  logger.add(new ListenerTransport({ level: 'debug' }));
+  createSinkTransports(config).forEach(transport => logger.add(transport));
+};
+
+configureLogger({ level: 'info', sink: 'stderr', dir: 'logs', maxSize: 10 * 1024 * 1024, maxFiles: 5 });
+
+// Devuelve la función que cancela la suscripción
+export const addLogListener = (listener: LogListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
 export const logError = (error: Error, context?: string) => {
   logger.error(`${context ? `[${context}] ` : ''}${error.message}`, {
     stack: error.stack,
@@ -33,4 +129,4 @@ export const logInfo = (message: string, context?: string) => {
 
 export const logDebug = (message: string, data?: any) => {
   logger.debug(message, data);
-};
\ No newline at end of file
+};
@@ -0,0 +1,89 @@
+import { runWithContext } from './context.js';
+import { CursorSource, closeAllCursors, fetchNextPage, initResultLimits, maxOpenCursors, paginate, reserveCursorSlot } from './pagination.js';
+
+// Origen de números del 1 al total que anota cuándo se cierra
+const numbers = (total: number, pool?: string) => {
+  let next = 1;
+  const source: CursorSource & { closed: boolean } = {
+    closed: false,
+    ...(pool && { pool }),
+    fields: [{ name: 'n', dataTypeID: 23 }],
+    fetch: async (count) => {
+      const items = Array.from({ length: Math.min(count, total - next + 1) }, () => ({ n: next++ }));
+      return { items, done: next > total };
+    },
+    close: async () => {
+      source.closed = true;
+    }
+  };
+  return source;
+};
+
+const session = {};
+const inSession = <T>(fn: () => Promise<T>) => runWithContext({ session, project: 'sandbox' }, fn);
+
+beforeAll(() => {
+  initResultLimits({ maxRows: 2, maxBytes: 100000 });
+});
+
+afterAll(async () => {
+  await closeAllCursors();
+  initResultLimits({ maxRows: 500, maxBytes: 100000 });
+});
+
+describe('paginate / fetchNextPage', () => {
+  it('continúa el cursor con las columnas del resultado y lo cierra al terminar', async () => {
+    const source = numbers(3);
+    const first = await inSession(() => paginate('database_query', 'rows', source));
+    expect(first).toMatchObject({ items: [{ n: 1 }, { n: 2 }], truncated: true });
+
+    const last = await inSession(() => fetchNextPage(first.cursor!));
+    expect(last).toMatchObject({ items: [{ n: 3 }], truncated: false, fields: [{ name: 'n', dataTypeID: 23 }] });
+    expect(source.closed).toBe(true);
+  });
+
+  it('limita los cursores abiertos sobre un mismo pool cerrando el menos usado', async () => {
+    expect(maxOpenCursors(10)).toBe(5);
+    expect(maxOpenCursors(1)).toBe(1);
+
+    const sources = [numbers(10, 'a'), numbers(10, 'a'), numbers(10, 'b')];
+    const pages: Awaited<ReturnType<typeof paginate>>[] = [];
+    for (const source of sources) {
+      pages.push(await inSession(() => paginate('database_query', 'rows', source)));
+    }
+    // Leer del primero lo convierte en el más reciente
+    await inSession(() => fetchNextPage(pages[0]!.cursor!));
+
+    await reserveCursorSlot('a', 2);
+    expect(sources.map(source => source.closed)).toEqual([false, true, false]);
+    await expect(inSession(() => fetchNextPage(pages[1]!.cursor!))).rejects.toThrow('Cursor desconocido');
+
+    await reserveCursorSlot('a', 1);
+    expect(sources[0]!.closed).toBe(true);
+    expect(sources[2]!.closed).toBe(false);
+  });
+
+  it('atiende una detrás de otra las lecturas simultáneas de un mismo cursor', async () => {
+    const source = numbers(5);
+    const fetch = source.fetch;
+    let reading = 0;
+    let overlapped = false;
+    source.fetch = async (count) => {
+      overlapped ||= reading > 0;
+      reading++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      reading--;
+      return fetch(count);
+    };
+
+    const first = await inSession(() => paginate('database_query', 'rows', source));
+    const pages = await Promise.allSettled([1, 2, 3].map(() => inSession(() => fetchNextPage(first.cursor!))));
+
+    expect(overlapped).toBe(false);
+    expect(pages[0]).toMatchObject({ status: 'fulfilled', value: { items: [{ n: 3 }, { n: 4 }], truncated: true } });
+    expect(pages[1]).toMatchObject({ status: 'fulfilled', value: { items: [{ n: 5 }], truncated: false } });
+    // La segunda lectura agotó el cursor y lo cerró: la tercera ya no lo encuentra
+    expect(pages[2]).toMatchObject({ status: 'rejected', reason: { message: 'Cursor desconocido o caducado' } });
+    expect(source.closed).toBe(true);
+  });
+});
@@ -0,0 +1,226 @@
+import { randomBytes } from 'crypto';
+import { ResultLimitsConfig } from '../types/supabase.js';
+import { getRequestContext, SessionState } from './context.js';
+import { NotFoundError } from './errors.js';
+import { logError, logInfo } from './logger.js';
+
+const CURSOR_TTL_MS = 5 * 60 * 1000;
+
+// Origen de los elementos de un cursor. fetch(count) devuelve el siguiente lote (puede traer más
+// de count) y done=true cuando ya no queda nada; close libera lo que retenga (p. ej. un cliente del pool)
+export interface CursorSource {
+  fetch(count: number): Promise<{ items: unknown[]; done: boolean }>;
+  close?(): Promise<void>;
+  // Pool (nombre del perfil) del que el origen retiene un cliente mientras siga abierto
+  pool?: string;
+  // Columnas del resultado, para que cada página de fetch_more las repita
+  fields?: { name: string; dataTypeID: number }[];
+}
+
+interface OpenCursor {
+  tool: string;
+  itemsKey: string;
+  pageSize: number;
+  session: SessionState | undefined;
+  source: CursorSource;
+  buffer: unknown[];
+  exhausted: boolean;
+  timer: NodeJS.Timeout;
+  // Última operación sobre el origen: las lecturas y el cierre se encadenan, nunca van a la vez sobre el mismo cliente
+  queue: Promise<unknown>;
+}
+
+export interface Page {
+  items: unknown[];
+  count: number;
+  truncated: boolean;
+  cursor?: string;
+}
+
+let limits: ResultLimitsConfig = { maxRows: 500, maxBytes: 100_000 };
+
+const cursors = new Map<string, OpenCursor>();
+
+export const initResultLimits = (config: ResultLimitsConfig): void => {
+  limits = config;
+};
+
+const enqueue = <T>(cursor: OpenCursor, operation: () => Promise<T>): Promise<T> => {
+  const next = cursor.queue.then(operation);
+  cursor.queue = next.catch(() => undefined);
+  return next;
+};
+
+const closeSource = async (cursor: OpenCursor): Promise<void> => {
+  try {
+    await cursor.source.close?.();
+  } catch (error) {
+    logError(error as Error, `cursor_${cursor.tool}`);
+  }
+};
+
+// El cursor deja de estar disponible en el acto; su origen se cierra cuando acabe la lectura en curso
+const closeCursor = async (token: string): Promise<void> => {
+  const cursor = cursors.get(token);
+  if (!cursor) {
+    return;
+  }
+  cursors.delete(token);
+  clearTimeout(cursor.timer);
+  await enqueue(cursor, () => closeSource(cursor));
+};
+
+// Un cursor abandonado no puede retener indefinidamente un cliente del pool
+const scheduleExpiry = (token: string): NodeJS.Timeout => {
+  const timer = setTimeout(() => {
+    void closeCursor(token);
+  }, CURSOR_TTL_MS);
+  timer.unref();
+  return timer;
+};
+
+// Cursores que pueden retener a la vez clientes de un mismo pool: la otra mitad queda para el resto de herramientas
+export const maxOpenCursors = (poolMax: number): number => Math.max(1, Math.floor(poolMax / 2));
+
+// Se llama antes de reservar el cliente de un cursor nuevo: cierra los cursores del mismo pool usados hace
+// más tiempo hasta dejarle sitio, para que unas cuantas consultas truncadas no agoten el pool
+export const reserveCursorSlot = async (pool: string, maxOpen: number): Promise<void> => {
+  const open = Array.from(cursors.entries()).filter(([, cursor]) => cursor.source.pool === pool);
+  for (const [token, cursor] of open.slice(0, Math.max(0, open.length - maxOpen + 1))) {
+    logInfo(`Cerrando el cursor de ${cursor.tool} menos usado: hay ${open.length} cursores abiertos sobre '${pool}' (máximo ${maxOpen})`);
+    await closeCursor(token);
+  }
+};
+
+// Toma del buffer como máximo pageSize elementos y maxBytes de JSON; siempre al menos uno para avanzar
+const takePage = (buffer: unknown[], pageSize: number): unknown[] => {
+  let bytes = 0;
+  let taken = 0;
+  while (taken < buffer.length && taken < pageSize) {
+    const size = Buffer.byteLength(JSON.stringify(buffer[taken]) ?? '');
+    if (taken > 0 && bytes + size > limits.maxBytes) {
+      break;
+    }
+    bytes += size;
+    taken += 1;
+  }
+  return buffer.splice(0, taken);
+};
+
+const readPage = async (cursor: Omit<OpenCursor, 'timer' | 'queue'>): Promise<unknown[]> => {
+  while (!cursor.exhausted && cursor.buffer.length < cursor.pageSize) {
+    const batch = await cursor.source.fetch(cursor.pageSize - cursor.buffer.length);
+    cursor.buffer.push(...batch.items);
+    cursor.exhausted = batch.done;
+  }
+  return takePage(cursor.buffer, cursor.pageSize);
+};
+
+// Primera página de un resultado. Si queda algo por leer, el cursor sigue abierto y su token
+// se devuelve para continuar con fetch_more; si no, el origen se cierra en el acto
+export const paginate = async (
+  tool: string,
+  itemsKey: string,
+  source: CursorSource,
+  requestedPageSize: number = limits.maxRows
+): Promise<Page> => {
+  const pending = {
+    tool,
+    itemsKey,
+    pageSize: Math.max(1, Math.min(requestedPageSize, limits.maxRows)),
+    session: getRequestContext()?.session,
+    source,
+    buffer: [] as unknown[],
+    exhausted: false
+  };
+
+  let items: unknown[];
+  try {
+    items = await readPage(pending);
+  } catch (error) {
+    await source.close?.();
+    throw error;
+  }
+
+  if (pending.exhausted && pending.buffer.length === 0) {
+    await source.close?.();
+    return { items, count: items.length, truncated: false };
+  }
+
+  const token = randomBytes(12).toString('base64url');
+  cursors.set(token, { ...pending, timer: scheduleExpiry(token), queue: Promise.resolve() });
+  return { items, count: items.length, truncated: true, cursor: token };
+};
+
+const unknownCursor = () => new NotFoundError('Cursor desconocido o caducado', {
+  hint: 'Los cursores caducan tras 5 minutos sin uso y se cierran al leer la última página'
+});
+
+// Siguiente página de un cursor. Sólo la sesión que lo abrió puede seguir leyéndolo. Las llamadas
+// simultáneas con el mismo token se atienden una detrás de otra
+export const fetchNextPage = async (token: string): Promise<Page & { tool: string; itemsKey: string; fields?: CursorSource['fields'] }> => {
+  const cursor = cursors.get(token);
+  if (!cursor || cursor.session !== getRequestContext()?.session) {
+    throw unknownCursor();
+  }
+
+  return enqueue(cursor, async () => {
+    // La lectura anterior pudo llegar al final, fallar o coincidir con el cierre del cursor
+    if (cursors.get(token) !== cursor) {
+      throw unknownCursor();
+    }
+
+    clearTimeout(cursor.timer);
+    let items: unknown[];
+    try {
+      items = await readPage(cursor);
+    } catch (error) {
+      cursors.delete(token);
+      await closeSource(cursor);
+      throw error;
+    }
+
+    const { tool, itemsKey } = cursor;
+    const fields = cursor.source.fields?.map(({ name, dataTypeID }) => ({ name, dataTypeID }));
+    const described = { tool, itemsKey, ...(fields && { fields }) };
+    if (cursor.exhausted && cursor.buffer.length === 0) {
+      cursors.delete(token);
+      await closeSource(cursor);
+      return { ...described, items, count: items.length, truncated: false };
+    }
+
+    // Al final del mapa: el orden de inserción es el de uso para reserveCursorSlot
+    cursors.delete(token);
+    cursors.set(token, cursor);
+    cursor.timer = scheduleExpiry(token);
+    return { ...described, items, count: items.length, truncated: true, cursor: token };
+  });
+};
+
+// Origen para resultados que ya están en memoria (filas de un INSERT ... RETURNING, registro de auditoría...)
+export const arraySource = (items: unknown[]): CursorSource => {
+  return {
+    fetch: async () => ({ items: items.splice(0), done: true })
+  };
+};
+
+// Origen para APIs con offset: fetch(count) pide count + 1 elementos para saber si queda alguno
+export const offsetSource = (
+  fetchRange: (offset: number, limit: number) => Promise<unknown[]>,
+  initialOffset: number = 0
+): CursorSource => {
+  let offset = initialOffset;
+  return {
+    fetch: async (count) => {
+      const items = await fetchRange(offset, count + 1);
+      offset += items.length;
+      return { items, done: items.length <= count };
+    }
+  };
+};
+
+export const closeAllCursors = async (): Promise<void> => {
+  for (const token of Array.from(cursors.keys())) {
+    await closeCursor(token);
+  }
+};
@@ -0,0 +1,80 @@
+import { AccessPolicyConfig } from '../types/supabase.js';
+import { ToolDefinition } from '../tools/registry.js';
+import { PermissionDeniedError } from './errors.js';
+
+// Comprueba si la política permite usar una herramienta (con esos argumentos) en la petición actual;
+// lo usan recursos y prompts, que leen datos a través de los handlers de las herramientas
+export type AccessGuard = (toolName: string, args?: Record<string, unknown>) => boolean;
+
+// Herramientas que modifican datos en general pero que en modo sólo lectura siguen permitidas,
+// porque su SQL se ejecuta dentro de una transacción READ ONLY
+const READ_ONLY_TRANSACTION_TOOLS = new Set(['database_query']);
+
+// Admite comodines simples: "list_*" coincide con list_tables, list_files, etc.
+const toMatcher = (pattern: string): RegExp => {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+};
+
+export class AccessPolicy {
+  private allowedTools: RegExp[];
+  private deniedTools: RegExp[];
+
+  constructor(private config: AccessPolicyConfig) {
+    this.allowedTools = config.allowedTools.map(toMatcher);
+    this.deniedTools = config.deniedTools.map(toMatcher);
+  }
+
+  get readOnly(): boolean {
+    return this.config.readOnly;
+  }
+
+  get dryRun(): boolean {
+    return this.config.dryRun;
+  }
+
+  get confirmDestructive(): boolean {
+    return this.config.confirmDestructive;
+  }
+
+  // Devuelve el motivo por el que la herramienta no está permitida, o null si lo está
+  getToolDenialReason(tool: ToolDefinition, readOnly: boolean = this.config.readOnly): string | null {
+    if (this.allowedTools.length > 0 && !this.allowedTools.some(matcher => matcher.test(tool.name))) {
+      return `la herramienta '${tool.name}' no está en la lista de herramientas permitidas`;
+    }
+    if (this.deniedTools.some(matcher => matcher.test(tool.name))) {
+      return `la herramienta '${tool.name}' está denegada por la política de acceso`;
+    }
+    if (readOnly && !tool.readOnly && !READ_ONLY_TRANSACTION_TOOLS.has(tool.name)) {
+      return `la herramienta '${tool.name}' modifica la instancia y el modo sólo lectura está activo`;
+    }
+    return null;
+  }
+
+  isToolAllowed(tool: ToolDefinition, readOnly: boolean = this.config.readOnly): boolean {
+    return this.getToolDenialReason(tool, readOnly) === null;
+  }
+
+  isSchemaAllowed(schema: string): boolean {
+    return this.config.allowedSchemas.length === 0 || this.config.allowedSchemas.includes(schema);
+  }
+
+  // Comprueba una llamada ya validada; lanza un error con el motivo si no está permitida
+  checkToolCall(tool: ToolDefinition, args: Record<string, unknown>, readOnly: boolean): void {
+    const reason = this.getToolDenialReason(tool, readOnly);
+    if (reason) {
+      throw new PermissionDeniedError(`Acceso denegado: ${reason}`);
+    }
+
+    const schema = args.schema;
+    if (typeof schema === 'string' && !this.isSchemaAllowed(schema)) {
+      throw new PermissionDeniedError(`Acceso denegado: el esquema '${schema}' no está en la lista de esquemas permitidos`);
+    }
+  }
+
+  // Nombres de la política que no corresponden a ninguna herramienta registrada (probables erratas)
+  findUnknownToolPatterns(toolNames: string[]): string[] {
+    const patterns = [...this.config.allowedTools, ...this.config.deniedTools];
+    return patterns.filter(pattern => !toolNames.some(name => toMatcher(pattern).test(name)));
+  }
+}
@@ -0,0 +1,50 @@
+import { getRequestContext } from './context.js';
+
+export interface ProgressUpdate {
+  progress: number;
+  total: number;
+  message: string;
+}
+
+export type ProgressSender = (update: ProgressUpdate) => void;
+
+// Con miles de sentencias no tiene sentido una notificación por cada una; la última siempre se envía
+const MIN_INTERVAL_MS = 500;
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+// Seguimiento de un trabajo de `total` pasos para la petición en curso. Si el cliente no envió
+// progressToken no se notifica nada. El ETA se estima con el ritmo medio de los pasos ya hechos
+export const trackProgress = (label: string, total: number) => {
+  const send = getRequestContext()?.sendProgress;
+  const startedAt = Date.now();
+  let completed = 0;
+  let lastSentAt = 0;
+
+  send?.({ progress: 0, total, message: `${label}: 0/${total}` });
+
+  return {
+    step(detail: string): void {
+      completed += 1;
+      if (!send) {
+        return;
+      }
+
+      const now = Date.now();
+      if (completed < total && now - lastSentAt < MIN_INTERVAL_MS) {
+        return;
+      }
+      lastSentAt = now;
+
+      const remainingMs = (now - startedAt) / completed * (total - completed);
+      const eta = completed < total ? `, quedan ~${formatDuration(remainingMs)}` : '';
+      send({ progress: completed, total, message: `${label}: ${completed}/${total} (${detail})${eta}` });
+    }
+  };
+};
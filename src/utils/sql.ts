@@ -0,0 +1,403 @@
+import { ValidationError } from './errors.js';
+
+// Lo que puede hacer una sentencia, de menor a mayor riesgo
+export type StatementKind = 'read' | 'dml' | 'ddl' | 'dangerous';
+
+const KIND_RANK: Record<StatementKind, number> = { read: 0, dml: 1, ddl: 2, dangerous: 3 };
+
+export interface ClassifiedStatement {
+  // Texto de la sentencia sin el ; final
+  sql: string;
+  // Primeras palabras clave: SELECT, CREATE TABLE, ALTER SYSTEM...
+  command: string;
+  kind: StatementKind;
+  // Por qué se considera peligrosa
+  reason?: string;
+  // Consulta que devuelve filas y admite DECLARE CURSOR (y un LIMIT añadido al final)
+  cursorable: boolean;
+  // Tiene LIMIT o FETCH FIRST fuera de subconsultas
+  hasLimit: boolean;
+  // VACUUM, CREATE INDEX CONCURRENTLY, CREATE DATABASE... no pueden ejecutarse dentro de BEGIN/COMMIT
+  transactional: boolean;
+}
+
+interface Token {
+  // word: palabra clave o identificador sin comillas; ident: identificador entre comillas dobles
+  type: 'word' | 'ident' | 'literal' | 'symbol';
+  value: string;
+  // Profundidad de paréntesis en la que aparece
+  depth: number;
+  start: number;
+  end: number;
+}
+
+const DOLLAR_QUOTE = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/;
+const WORD = /^[A-Za-z_][A-Za-z0-9_$]*/;
+
+// Tokens de un texto SQL, sin comentarios ni espacios. Las cadenas ('...', E'...', $tag$...$tag$) y los
+// identificadores entre comillas son un único token, así que un ; o una palabra clave dentro de ellos no cuentan
+const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const unterminated = (what: string): never => {
+    throw new ValidationError(`SQL incompleto: ${what} sin cerrar`);
+  };
+
+  while (i < sql.length) {
+    const char = sql[i] as string;
+    const rest = sql.slice(i, i + 2);
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i += 1;
+    } else if (rest === '--') {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? sql.length : newline + 1;
+    } else if (rest === '/*') {
+      // Los comentarios de bloque de Postgres se pueden anidar
+      let nesting = 0;
+      while (i < sql.length) {
+        if (sql.startsWith('/*', i)) {
+          nesting += 1;
+          i += 2;
+        } else if (sql.startsWith('*/', i)) {
+          nesting -= 1;
+          i += 2;
+          if (nesting === 0) break;
+        } else {
+          i += 1;
+        }
+      }
+      if (nesting > 0) unterminated('comentario /*');
+    } else if (char === "'") {
+      // E'...' admite \' como escape; en el resto sólo vale ''
+      const previous = tokens[tokens.length - 1];
+      const escapes = previous?.type === 'word' && previous.end === i && /^[eE]$/.test(previous.value);
+      i += 1;
+      while (i < sql.length && !(sql[i] === "'" && sql[i + 1] !== "'")) {
+        i += sql[i] === "'" || (escapes && sql[i] === '\\') ? 2 : 1;
+      }
+      if (i >= sql.length) unterminated('cadena');
+      i += 1;
+      if (escapes) tokens.pop();
+      tokens.push({ type: 'literal', value: sql.slice(escapes ? start - 1 : start, i), depth, start: escapes ? start - 1 : start, end: i });
+    } else if (char === '"') {
+      i += 1;
+      while (i < sql.length && !(sql[i] === '"' && sql[i + 1] !== '"')) {
+        i += sql[i] === '"' ? 2 : 1;
+      }
+      if (i >= sql.length) unterminated('identificador');
+      i += 1;
+      tokens.push({ type: 'ident', value: sql.slice(start + 1, i - 1).replace(/""/g, '"'), depth, start, end: i });
+    } else if (char === '$' && DOLLAR_QUOTE.test(sql.slice(i))) {
+      const tag = (DOLLAR_QUOTE.exec(sql.slice(i)) as RegExpExecArray)[0];
+      const close = sql.indexOf(tag, i + tag.length);
+      if (close === -1) unterminated(`cadena ${tag}`);
+      i = close + tag.length;
+      tokens.push({ type: 'literal', value: sql.slice(start, i), depth, start, end: i });
+    } else if (WORD.test(sql.slice(i, i + 64))) {
+      const word = (WORD.exec(sql.slice(i)) as RegExpExecArray)[0];
+      i += word.length;
+      tokens.push({ type: 'word', value: word.toUpperCase(), depth, start, end: i });
+    } else {
+      if (char === ')') depth = Math.max(0, depth - 1);
+      i += 1;
+      tokens.push({ type: 'symbol', value: char, depth, start, end: i });
+      if (char === '(') depth += 1;
+    }
+  }
+  return tokens;
+};
+
+// Trozos de tokens separados por ; fuera de cadenas y comentarios. El cuerpo BEGIN ATOMIC ... END de
+// una función SQL lleva sus propios ; y no se corta
+const splitTokens = (tokens: Token[]): Token[][] => {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+  let atomic = 0;
+
+  for (const token of tokens) {
+    if (token.type === 'symbol' && token.value === ';' && atomic === 0) {
+      if (current.length > 0) statements.push(current);
+      current = [];
+      continue;
+    }
+    if (token.type === 'word') {
+      const previous = current[current.length - 1];
+      if (token.value === 'ATOMIC' && previous?.value === 'BEGIN') {
+        atomic += 1;
+      } else if (atomic > 0 && token.value === 'CASE') {
+        atomic += 1;
+      } else if (atomic > 0 && token.value === 'END') {
+        atomic -= 1;
+      }
+    }
+    current.push(token);
+  }
+  if (current.length > 0) statements.push(current);
+  return statements;
+};
+
+export const splitStatements = (sql: string): string[] => {
+  return splitTokens(tokenize(sql)).map(tokens => sql.slice(tokens[0]!.start, tokens[tokens.length - 1]!.end));
+};
+
+// Sentencias que cambiarían el estado de la conexión del pool o la transacción que gestiona el servidor
+const SESSION_COMMANDS: Record<string, string> = {
+  BEGIN: 'el servidor abre y cierra la transacción de cada llamada',
+  START: 'el servidor abre y cierra la transacción de cada llamada',
+  COMMIT: 'el servidor abre y cierra la transacción de cada llamada',
+  END: 'el servidor abre y cierra la transacción de cada llamada',
+  ROLLBACK: 'el servidor abre y cierra la transacción de cada llamada',
+  ABORT: 'el servidor abre y cierra la transacción de cada llamada',
+  SAVEPOINT: 'el servidor abre y cierra la transacción de cada llamada',
+  RELEASE: 'el servidor abre y cierra la transacción de cada llamada',
+  PREPARE: 'las sentencias preparadas quedarían en una conexión compartida',
+  EXECUTE: 'las sentencias preparadas quedarían en una conexión compartida',
+  DEALLOCATE: 'las sentencias preparadas quedarían en una conexión compartida',
+  DECLARE: 'los cursores los gestiona el servidor (usa fetch_more)',
+  FETCH: 'los cursores los gestiona el servidor (usa fetch_more)',
+  MOVE: 'los cursores los gestiona el servidor (usa fetch_more)',
+  CLOSE: 'los cursores los gestiona el servidor (usa fetch_more)',
+  LISTEN: 'la suscripción quedaría en una conexión compartida',
+  UNLISTEN: 'la suscripción quedaría en una conexión compartida',
+  RESET: 'cambiaría la configuración de una conexión compartida',
+  DISCARD: 'cambiaría la configuración de una conexión compartida',
+  LOAD: 'cargaría una biblioteca en una conexión compartida'
+};
+
+const DML_COMMANDS = new Set(['INSERT', 'MERGE', 'CALL', 'LOCK', 'NOTIFY']);
+const DDL_COMMANDS = new Set([
+  'CREATE', 'ALTER', 'COMMENT', 'GRANT', 'REVOKE', 'REFRESH', 'REINDEX', 'CLUSTER', 'SECURITY', 'IMPORT',
+  'ANALYZE', 'ANALYSE', 'VACUUM', 'DO', 'REASSIGN', 'CHECKPOINT'
+]);
+const CURSORABLE_COMMANDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE']);
+// Palabras entre CREATE/ALTER/DROP y el tipo de objeto
+const OBJECT_MODIFIERS = new Set(['OR', 'REPLACE', 'UNIQUE', 'TEMP', 'TEMPORARY', 'UNLOGGED', 'GLOBAL', 'LOCAL', 'TRUSTED', 'PROCEDURAL', 'RECURSIVE']);
+const COMPOUND_OBJECTS = new Set(['MATERIALIZED', 'FOREIGN', 'EVENT', 'TEXT', 'ACCESS', 'OPERATOR', 'USER', 'DEFAULT']);
+// En ALTER TABLE, DROP NOT NULL o DROP DEFAULT no eliminan datos
+const HARMLESS_DROPS = new Set(['NOT', 'DEFAULT', 'EXPRESSION', 'IDENTITY']);
+const STATEMENT_STARTS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'CREATE', 'EXECUTE', 'DECLARE']);
+
+// Ajustes que SET LOCAL puede cambiar: planificador, memoria, tiempos y formato. Los que llevan un punto
+// (app.tenant, request.jwt.claims...) son variables propias y también se admiten
+const SET_LOCAL_SETTINGS = new Set([
+  'search_path', 'statement_timeout', 'lock_timeout', 'idle_in_transaction_session_timeout',
+  'work_mem', 'maintenance_work_mem', 'hash_mem_multiplier', 'temp_buffers',
+  'timezone', 'datestyle', 'intervalstyle', 'extra_float_digits', 'bytea_output', 'client_min_messages',
+  'random_page_cost', 'seq_page_cost', 'cpu_tuple_cost', 'cpu_index_tuple_cost', 'cpu_operator_cost',
+  'effective_cache_size', 'effective_io_concurrency', 'default_statistics_target', 'from_collapse_limit',
+  'join_collapse_limit', 'geqo', 'jit', 'plan_cache_mode', 'max_parallel_workers_per_gather',
+  'constraint_exclusion', 'row_security'
+]);
+const PLANNER_SETTING = /^enable_[a-z_]+$/;
+
+// Nombre del ajuste de un SET, en minúsculas: "SET LOCAL \"Work_Mem\" ..." → work_mem. Las formas
+// especiales (TIME ZONE, SCHEMA, SESSION AUTHORIZATION) se traducen al ajuste que cambian
+const setTarget = (tokens: Token[]): { scope?: string; setting: string } => {
+  let index = 1;
+  const scopeToken = tokens[index];
+  const scope = isWord(scopeToken, 'LOCAL', 'SESSION') && !isWord(tokens[index + 1], 'AUTHORIZATION', 'CHARACTERISTICS')
+    ? scopeToken!.value
+    : undefined;
+  if (scope) index += 1;
+
+  const parts: string[] = [];
+  while (tokens[index]?.type === 'word' || tokens[index]?.type === 'ident') {
+    parts.push(tokens[index]!.value.toLowerCase());
+    if (tokens[index + 1]?.value !== '.') break;
+    index += 2;
+  }
+  const setting = parts.join('.');
+  const next = tokens[index + 1];
+
+  if (setting === 'time' && isWord(next, 'ZONE')) return { ...(scope && { scope }), setting: 'timezone' };
+  if (setting === 'session' && isWord(next, 'AUTHORIZATION', 'CHARACTERISTICS')) {
+    return { ...(scope && { scope }), setting: isWord(next, 'AUTHORIZATION') ? 'session_authorization' : 'transaction' };
+  }
+  if (setting === 'schema') return { ...(scope && { scope }), setting: 'search_path' };
+  return { ...(scope && { scope }), setting };
+};
+
+const isWord = (token: Token | undefined, ...values: string[]): boolean => {
+  return token?.type === 'word' && values.includes(token.value);
+};
+
+const commandOf = (words: Token[]): string => {
+  const [first, ...rest] = words;
+  if (!first) return '';
+  if (!['CREATE', 'ALTER', 'DROP'].includes(first.value)) return first.value;
+
+  const objectIndex = rest.findIndex(token => !OBJECT_MODIFIERS.has(token.value));
+  const object = rest[objectIndex];
+  if (!object) return first.value;
+  const next = COMPOUND_OBJECTS.has(object.value) ? rest[objectIndex + 1] : undefined;
+  return [first.value, object.value, next?.value].filter(Boolean).join(' ');
+};
+
+const classifyTokens = (tokens: Token[], sql: string): ClassifiedStatement => {
+  // (SELECT ...) UNION (SELECT ...) empieza por paréntesis
+  const firstWord = tokens.findIndex(token => token.type !== 'symbol' || token.value !== '(');
+  const words = tokens.slice(firstWord).filter(token => token.type === 'word');
+  const first = words[0]?.value ?? '';
+  const command = commandOf(words);
+  const topLevel = tokens.filter(token => token.depth === (tokens[firstWord]?.depth ?? 0));
+
+  const base = {
+    sql,
+    command,
+    cursorable: false,
+    hasLimit: topLevel.some(token => isWord(token, 'LIMIT', 'FETCH')),
+    transactional: true
+  };
+  const result = (kind: StatementKind, extra: Partial<ClassifiedStatement> = {}): ClassifiedStatement => ({ ...base, kind, ...extra });
+
+  if (SESSION_COMMANDS[first]) {
+    throw new ValidationError(`Sentencia no permitida en database_query: ${command}`, { hint: SESSION_COMMANDS[first] });
+  }
+
+  switch (first) {
+    case 'SELECT':
+    case 'VALUES':
+    case 'TABLE':
+    case 'WITH': {
+      // SELECT ... INTO crea una tabla
+      if (topLevel.some(token => isWord(token, 'INTO')) && first !== 'WITH') {
+        return result('ddl', { command: 'SELECT INTO' });
+      }
+      // Un WITH con INSERT/UPDATE/DELETE/MERGE escribe aunque empiece como una lectura
+      const modifying = tokens
+        .map((token, index) => ({ token, index }))
+        .filter(({ token, index }) => isWord(token, 'INSERT', 'UPDATE', 'DELETE', 'MERGE') && ['(', ')'].includes(tokens[index - 1]?.value ?? ''));
+      // Cada UPDATE o DELETE, dentro de su CTE o como sentencia final, necesita su propio WHERE
+      const unfiltered = modifying.find(({ token, index }) => {
+        if (!isWord(token, 'UPDATE', 'DELETE')) return false;
+        const end = tokens.findIndex((other, otherIndex) => otherIndex > index && other.depth < token.depth);
+        const body = tokens.slice(index, end === -1 ? tokens.length : end);
+        return !body.some(other => other.depth === token.depth && isWord(other, 'WHERE'));
+      });
+      if (unfiltered) {
+        return result('dangerous', {
+          command: `WITH ${unfiltered.token.value}`,
+          reason: `${unfiltered.token.value} sin WHERE dentro de un WITH afecta a todas las filas de la tabla`
+        });
+      }
+      if (modifying[0]) {
+        return result('dml', { command: `WITH ${modifying[0].token.value}` });
+      }
+      return result('read', { cursorable: CURSORABLE_COMMANDS.has(first) });
+    }
+    case 'SHOW':
+      return result('read');
+    case 'EXPLAIN': {
+      // EXPLAIN ANALYZE ejecuta la sentencia: cuenta lo que haga ella
+      const innerIndex = tokens.findIndex((token, index) => index > 0 && token.depth === 0 && isWord(token, ...STATEMENT_STARTS));
+      const options = tokens.slice(1, innerIndex === -1 ? tokens.length : innerIndex);
+      const analyze = options.some((token, index) => isWord(token, 'ANALYZE', 'ANALYSE') && !isWord(options[index + 1], 'FALSE', 'OFF'));
+      if (!analyze || innerIndex === -1) {
+        return result('read', { hasLimit: false });
+      }
+      const inner = tokens[innerIndex] as Token;
+      const classified = classifyTokens(tokens.slice(innerIndex), sql.slice(inner.start - tokens[0]!.start));
+      return { ...classified, sql, command: `EXPLAIN ANALYZE ${classified.command}`, cursorable: false, hasLimit: false };
+    }
+    case 'SET': {
+      const { scope, setting } = setTarget(tokens.slice(firstWord));
+      if (setting.startsWith('transaction') || setting.startsWith('default_transaction')) {
+        throw new ValidationError('Sentencia no permitida en database_query: SET TRANSACTION', {
+          hint: 'El modo de la transacción lo decide allowWrite'
+        });
+      }
+      if (scope !== 'LOCAL') {
+        throw new ValidationError(`Sentencia no permitida en database_query: SET ${setting.toUpperCase()}`.trim(), {
+          hint: 'Cambiaría la configuración de una conexión compartida; usa SET LOCAL, que dura lo que la transacción'
+        });
+      }
+      if (setting === 'role' || setting === 'session_authorization') {
+        throw new ValidationError(`Sentencia no permitida en database_query: SET LOCAL ${setting.toUpperCase()}`, {
+          hint: 'Para ejecutar con otro rol o usuario usa asRole, asUser o jwtClaims'
+        });
+      }
+      if (!setting.includes('.') && !SET_LOCAL_SETTINGS.has(setting) && !PLANNER_SETTING.test(setting)) {
+        throw new ValidationError(`SET LOCAL ${setting || '?'} no está permitido en database_query`, {
+          hint: `Se admiten ${[...SET_LOCAL_SETTINGS].join(', ')}, enable_* y las variables con punto (app.*, request.jwt.claims...)`
+        });
+      }
+      return result('read', { command: 'SET LOCAL' });
+    }
+    case 'UPDATE':
+    case 'DELETE':
+      if (!topLevel.some(token => isWord(token, 'WHERE'))) {
+        return result('dangerous', { reason: `${first} sin WHERE afecta a todas las filas de la tabla` });
+      }
+      return result('dml');
+    case 'DROP':
+      return result('dangerous', {
+        reason: 'DROP elimina el objeto y sus datos',
+        transactional: !words.some(token => isWord(token, 'CONCURRENTLY')) && command !== 'DROP DATABASE' && command !== 'DROP TABLESPACE'
+      });
+    case 'TRUNCATE':
+      return result('dangerous', { reason: 'TRUNCATE vacía la tabla' });
+    case 'COPY': {
+      // COPY ... TO/FROM PROGRAM ejecuta un comando y COPY ... TO/FROM '<ruta>' usa un archivo, ambos en el
+      // servidor de base de datos; sólo STDIN/STDOUT se queda en la conexión
+      const target = topLevel.findIndex((token, index) => isWord(token, 'TO', 'FROM')
+        && (isWord(topLevel[index + 1], 'PROGRAM') || topLevel[index + 1]?.type === 'literal'));
+      if (target !== -1) {
+        const direction = topLevel[target]!.value;
+        return result('dangerous', {
+          reason: isWord(topLevel[target + 1], 'PROGRAM')
+            ? `COPY ${direction} PROGRAM ejecuta un comando en el servidor de base de datos`
+            : `COPY ${direction} un archivo lee o escribe en el disco del servidor de base de datos`
+        });
+      }
+      return result('dml');
+    }
+    case 'ALTER': {
+      if (isWord(words[1], 'SYSTEM')) {
+        return result('dangerous', { reason: 'ALTER SYSTEM cambia postgresql.auto.conf para toda la instancia', transactional: false });
+      }
+      const drop = topLevel.findIndex((token, index) => isWord(token, 'DROP') && !isWord(topLevel[index + 1], ...HARMLESS_DROPS));
+      if (drop !== -1) {
+        return result('dangerous', { reason: `${command} ... DROP elimina columnas, restricciones u otros objetos` });
+      }
+      return result('ddl');
+    }
+  }
+
+  if (DML_COMMANDS.has(first)) {
+    return result('dml');
+  }
+  if (DDL_COMMANDS.has(first)) {
+    // REFRESH MATERIALIZED VIEW CONCURRENTLY sí admite una transacción
+    const concurrently = first !== 'REFRESH' && words.some(token => isWord(token, 'CONCURRENTLY'));
+    const database = command === 'CREATE DATABASE' || command === 'CREATE TABLESPACE';
+    return result('ddl', { transactional: first !== 'VACUUM' && !concurrently && !database });
+  }
+
+  // Lo que no se reconoce se trata como una escritura
+  return result('ddl');
+};
+
+// Divide el SQL en sentencias y las clasifica. Lanza ValidationError si está vacío, si tiene cadenas o
+// comentarios sin cerrar o si alguna sentencia tocaría la transacción o la conexión que gestiona el servidor
+export const classifyStatements = (sql: string): ClassifiedStatement[] => {
+  const statements = splitTokens(tokenize(sql)).map(tokens => {
+    return classifyTokens(tokens, sql.slice(tokens[0]!.start, tokens[tokens.length - 1]!.end));
+  });
+  if (statements.length === 0) {
+    throw new ValidationError('La consulta no contiene ninguna sentencia SQL');
+  }
+  return statements;
+};
+
+export const strongestKind = (statements: ClassifiedStatement[]): StatementKind => {
+  return statements.reduce<StatementKind>((strongest, { kind }) => KIND_RANK[kind] > KIND_RANK[strongest] ? kind : strongest, 'read');
+};
+
+// El texto de la sentencia acaba en su último token, así que el LIMIT no puede quedar dentro de un comentario
+export const withLimit = (statement: ClassifiedStatement, limit: number): string => {
+  return statement.cursorable && !statement.hasLimit ? `${statement.sql} LIMIT ${limit}` : statement.sql;
+};
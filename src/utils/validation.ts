@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ValidationError } from './errors.js';
 
 export const validateInput = <T>(schema: z.ZodSchema<T>, data: unknown): T => {
   try {
@@ -6,7 +7,7 @@ export const validateInput = <T>(schema: z.ZodSchema<T>, data: unknown): T => {
   } catch (error) {
     if (error instanceof z.ZodError) {
       const messages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
-      throw new Error(`Validación fallida: ${messages.join(', ')}`);
+      throw new ValidationError(`Validación fallida: ${messages.join(', ')}`);
     }
     throw error;
   }
@@ -19,11 +20,16 @@ export const isValidSQLIdentifier = (identifier: string): boolean => {
 
 export const sanitizeSQLIdentifier = (identifier: string): string => {
   if (!isValidSQLIdentifier(identifier)) {
-    throw new Error(`Identificador SQL inválido: ${identifier}`);
+    throw new ValidationError(`Identificador SQL inválido: ${identifier}`);
   }
   return identifier;
 };
 
+// Para identificadores leídos del catálogo, que pueden no cumplir isValidSQLIdentifier
+export const quoteSQLIdentifier = (identifier: string): string => {
+  return `"${identifier.replace(/"/g, '""')}"`;
+};
+
 export const isValidEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email);